@@ -0,0 +1,90 @@
+import { logger } from '../utils/logger';
+import { canonicalizeJobUrl } from '../utils/urlNormalizer';
+import { JobSourceAdapter } from '../types/types';
+import { hireJobsAdapter } from './hireJobsAdapter';
+import { greenhouseAdapter } from './greenhouseAdapter';
+import { leverAdapter } from './leverAdapter';
+import { linkedInAdapter } from './linkedInAdapter';
+import { genericAdapter } from './genericAdapter';
+
+const adapters: JobSourceAdapter[] = [];
+let fallbackAdapter: JobSourceAdapter | null = null;
+
+/**
+ * Register a job board adapter
+ * Adapters are matched in registration order, so more specific ones should be registered first
+ * @throws Error if an adapter with the same name is already registered
+ */
+export function registerAdapter(adapter: JobSourceAdapter): void {
+  if (adapters.some(existing => existing.name === adapter.name)) {
+    throw new Error(`Job source adapter "${adapter.name}" is already registered`);
+  }
+
+  adapters.push(adapter);
+  logger.debug(`Registered job source adapter: ${adapter.name}`);
+}
+
+/**
+ * Set the adapter used when no site-specific adapter matches a URL
+ */
+export function setFallbackAdapter(adapter: JobSourceAdapter | null): void {
+  fallbackAdapter = adapter;
+}
+
+/**
+ * Get the fallback adapter, if one is configured
+ */
+export function getFallbackAdapter(): JobSourceAdapter | null {
+  return fallbackAdapter;
+}
+
+/**
+ * Get all registered adapters
+ */
+export function getRegisteredAdapters(): JobSourceAdapter[] {
+  return [...adapters];
+}
+
+/**
+ * Find the adapter that handles the given URL
+ * Site-specific adapters take precedence over the fallback adapter. URLs are matched in canonical form,
+ * so "www.", tracking parameters and trailing slashes do not change the adapter
+ * @returns The matching adapter or null if the URL is not supported
+ */
+export function findAdapterForUrl(url: string): JobSourceAdapter | null {
+  const canonicalUrl = canonicalizeJobUrl(url);
+  const adapter = adapters.find(candidate => candidate.matchesUrl(canonicalUrl));
+  if (adapter) {
+    return adapter;
+  }
+  
+  return fallbackAdapter && fallbackAdapter.matchesUrl(canonicalUrl) ? fallbackAdapter : null;
+}
+
+/**
+ * Get the hostnames of all supported job boards
+ */
+export function getSupportedSites(): string[] {
+  return adapters.flatMap(adapter => adapter.hosts);
+}
+
+/**
+ * Resolve a stable job ID for a URL, namespaced by the adapter that handles it
+ * The ID is taken from the canonical URL, so links to the same posting share one ID
+ * @throws Error if no adapter supports the URL
+ */
+export function resolveJobId(url: string): string {
+  const adapter = findAdapterForUrl(url);
+
+  if (!adapter) {
+    throw new Error(`No job source adapter supports URL: ${url}`);
+  }
+
+  return `${adapter.name}_${adapter.extractJobId(canonicalizeJobUrl(url))}`;
+}
+
+registerAdapter(hireJobsAdapter);
+registerAdapter(greenhouseAdapter);
+registerAdapter(leverAdapter);
+registerAdapter(linkedInAdapter);
+setFallbackAdapter(genericAdapter);
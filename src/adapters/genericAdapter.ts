@@ -0,0 +1,31 @@
+import crypto from 'crypto';
+import { parseSchemaJobPostingHTML } from '../utils/structuredDataParser';
+import { isPublicHttpUrl } from '../utils/networkGuard';
+import { JobSourceAdapter, ParsedJobData } from '../types/types';
+
+/**
+ * Fallback adapter for arbitrary career pages
+ * Used when no site-specific adapter matches, and relies on the page
+ * publishing schema.org JobPosting data (JSON-LD or microdata)
+ * Only public http(s) URLs match; hosts are resolved and checked again before fetching
+ */
+export const genericAdapter: JobSourceAdapter = {
+  name: 'web',
+  hosts: [],
+  fetchStrategy: 'direct',
+
+  matchesUrl(url: string): boolean {
+    return isPublicHttpUrl(url);
+  },
+
+  extractJobId(url: string): string {
+    const parsedUrl = new URL(url);
+    parsedUrl.hash = '';
+
+    return crypto.createHash('sha256').update(parsedUrl.toString()).digest('hex').slice(0, 16);
+  },
+
+  parseHtml(html: string): Promise<ParsedJobData> {
+    return parseSchemaJobPostingHTML(html);
+  }
+};
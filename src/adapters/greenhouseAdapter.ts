@@ -0,0 +1,55 @@
+import { parseGreenhouseHTML } from '../utils/parser';
+import { JobSourceAdapter, ParsedJobData } from '../types/types';
+
+const GREENHOUSE_HOSTS = ['boards.greenhouse.io', 'job-boards.greenhouse.io'];
+
+/**
+ * Split a Greenhouse URL into its board slug and job ID
+ * e.g. https://boards.greenhouse.io/acme/jobs/4012345 -> { board: 'acme', jobId: '4012345' }
+ */
+function parseGreenhouseUrl(url: string): { board: string; jobId: string } | null {
+  try {
+    const { hostname, pathname, searchParams } = new URL(url);
+    if (!GREENHOUSE_HOSTS.includes(hostname)) {
+      return null;
+    }
+
+    const match = pathname.match(/^\/([^/]+)\/jobs\/(\d+)\/?$/);
+    if (match) {
+      return { board: match[1], jobId: match[2] };
+    }
+
+    // Embedded boards link through /embed/job_app?for=<board>&token=<jobId>
+    const board = searchParams.get('for');
+    const token = searchParams.get('token');
+    if (pathname.startsWith('/embed/job_app') && board && token && /^\d+$/.test(token)) {
+      return { board, jobId: token };
+    }
+
+    return null;
+  } catch (_error) {
+    return null;
+  }
+}
+
+/**
+ * Adapter for Greenhouse hosted job boards
+ */
+export const greenhouseAdapter: JobSourceAdapter = {
+  name: 'greenhouse',
+  hosts: GREENHOUSE_HOSTS,
+  fetchStrategy: 'direct',
+  waitForSelector: '#app_body, .job__description, h1',
+
+  matchesUrl(url: string): boolean {
+    return parseGreenhouseUrl(url) !== null;
+  },
+
+  extractJobId(url: string): string {
+    return parseGreenhouseUrl(url)?.jobId || 'unknown';
+  },
+
+  parseHtml(html: string, url?: string): Promise<ParsedJobData> {
+    return parseGreenhouseHTML(html, url ? parseGreenhouseUrl(url)?.board : undefined);
+  }
+};
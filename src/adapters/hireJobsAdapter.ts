@@ -0,0 +1,277 @@
+import { Page } from 'playwright';
+import { logger } from '../utils/logger';
+import { parseHireJobsHTML } from '../utils/parser';
+import { JobSourceAdapter, ParsedJobData } from '../types/types';
+
+/**
+ * Adapter for HireJobs.in job postings
+ */
+export const hireJobsAdapter: JobSourceAdapter = {
+  name: 'hirejobs',
+  hosts: ['hirejobs.in'],
+  fetchStrategy: 'browser',
+  waitForSelector: '.job-container, main, h1, article',
+
+  matchesUrl(url: string): boolean {
+    try {
+      const { hostname, pathname } = new URL(url);
+      const isHireJobsDomain = hostname === 'hirejobs.in' || hostname === 'www.hirejobs.in';
+      const jobPathPattern = /^\/jobs\/[a-zA-Z0-9]+$/;
+
+      return isHireJobsDomain && jobPathPattern.test(pathname);
+    } catch (_error) {
+      return false;
+    }
+  },
+
+  extractJobId(url: string): string {
+    return new URL(url).pathname.split('/').pop() || 'unknown';
+  },
+
+  parseHtml(html: string): Promise<ParsedJobData> {
+    return parseHireJobsHTML(html);
+  },
+
+  extractFromPage(page: Page, url: string): Promise<ParsedJobData> {
+    return extractHireJobsData(page, url);
+  }
+};
+
+/**
+ * Extract job data from HireJobs.in pages using multiple extraction methods
+ * with parallel processing where possible
+ */
+async function extractHireJobsData(page: Page, url: string): Promise<ParsedJobData> {
+  try {
+    const jobId = url.split('/').pop() || '';
+    logger.info(`Extracting data for HireJobs job ID: ${jobId}`);
+
+    const html = await page.content();
+
+    interface HiringInfo {
+      title: string;
+      company: string;
+    }
+
+    interface JobDetails {
+      metadata: string;
+      sections: Record<string, string>;
+      skills: string;
+    }
+
+    const [
+      hiringInfo,
+      jobDetails,
+      parsedJobData
+    ] = await Promise.all([
+      extractHiringInfo(page).catch(error => {
+        logger.warn(`Hiring pattern extraction error: ${error instanceof Error ? error.message : String(error)}`);
+        return { title: '', company: '' } as HiringInfo;
+      }),
+
+      extractJobDetails(page).catch(error => {
+        logger.warn(`Job details extraction error: ${error instanceof Error ? error.message : String(error)}`);
+        return { metadata: '', sections: {}, skills: '' } as JobDetails;
+      }),
+
+      parseHireJobsHTML(html).catch(error => {
+        logger.warn(`HTML parser error: ${error instanceof Error ? error.message : String(error)}`);
+        return {
+          title: '',
+          company: '',
+          description: ''
+        } as ParsedJobData;
+      })
+    ]);
+
+    let jobTitle = '';
+    let companyName = '';
+    let jobDescription = '';
+    const metadata: Pick<ParsedJobData, 'salary' | 'jobType' | 'experience'> = {};
+
+    if (hiringInfo.company) {
+      companyName = hiringInfo.company;
+    }
+
+    if (hiringInfo.title) {
+      jobTitle = hiringInfo.title;
+    }
+
+    if (jobDetails.metadata) {
+      // The metadata line reads like "Fulltime • 12-18 LPA • 3-5 years"
+      for (const part of jobDetails.metadata.split('•').map(part => part.trim()).filter(part => part)) {
+        if (/fulltime|full-time|part-time|contract|internship/i.test(part)) {
+          metadata.jobType = part;
+        } else if (/LPA|salary/i.test(part)) {
+          metadata.salary = part;
+        } else if (/years?|yrs?|fresher/i.test(part)) {
+          metadata.experience = part;
+        }
+      }
+    }
+
+    if (jobDetails.sections && Object.keys(jobDetails.sections).length > 0) {
+      const descriptionParts = [];
+
+      for (const [section, content] of Object.entries(jobDetails.sections)) {
+        if (content && content.trim()) {
+          descriptionParts.push(`${section}:\n${content}`);
+        }
+      }
+
+      if (descriptionParts.length > 0) {
+        jobDescription = descriptionParts.join('\n\n');
+      }
+    }
+
+    if (jobDetails.skills && !jobDescription.includes('Skills')) {
+      jobDescription = (jobDescription ? jobDescription + '\n\n' : '') + jobDetails.skills;
+    }
+
+    if (!jobTitle || jobTitle === 'Job Position') {
+      jobTitle = parsedJobData.title;
+    }
+
+    if (!companyName || companyName === 'Company on HireJobs' || companyName === 'Company on') {
+      companyName = parsedJobData.company;
+    }
+
+    if (!jobDescription || jobDescription.length < 100) {
+      jobDescription = parsedJobData.description;
+    }
+
+    if (jobTitle) {
+      jobTitle = jobTitle
+        .replace(/^RE:\s*/i, '')
+        .replace(/^FWD:\s*/i, '')
+        .replace(/hirejobs/gi, '')
+        .replace(/^.*is\s+hiring\s+for\s*/i, '')
+        .replace(/\s*\|\s*.+$/i, '')
+        .replace(/^explore\s+tech\s+jobs\s+globally\s*/i, '')
+        .trim();
+    }
+
+    if (companyName) {
+      companyName = companyName
+        .replace(/hirejobs/gi, '')
+        .replace(/^\s*at\s+/i, '')
+        .replace(/^\s*is\s+/i, '')
+        .replace(/company\s+on\s*$/i, '')
+        .trim();
+    }
+
+    if (!jobTitle || jobTitle.length < 3) {
+      throw new Error('Could not extract job title');
+    }
+
+    if (!companyName || companyName.length < 2) {
+      throw new Error('Could not extract company name');
+    }
+
+    if (!jobDescription || jobDescription.length < 100) {
+      throw new Error('Could not extract sufficient job description');
+    }
+
+    logger.info(`Final extracted data - Title: ${jobTitle}, Company: ${companyName}, Description length: ${jobDescription.length} chars`);
+
+    return {
+      ...parsedJobData,
+      ...metadata,
+      title: jobTitle,
+      company: companyName,
+      description: jobDescription
+    };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error(`Error extracting HireJobs data: ${errorMessage}`);
+    throw error;
+  }
+}
+
+/**
+ * Extract hiring info from the page
+ */
+async function extractHiringInfo(page: Page): Promise<{ title: string; company: string }> {
+  return page.evaluate(() => {
+    const hiringElements = Array.from(document.querySelectorAll('h1, h2, h3, div'))
+      .filter(el => {
+        const text = el.textContent?.trim() || '';
+        return text.includes('is hiring for') && text.length < 150;
+      });
+
+    if (hiringElements.length > 0) {
+      const hiringText = hiringElements[0].textContent?.trim() || '';
+      const parts = hiringText.split('is hiring for');
+
+      if (parts.length >= 2) {
+        let title = parts[1].split('|')[0].trim();
+        let company = parts[0].trim();
+
+        return { title, company };
+      }
+    }
+
+    return { title: '', company: '' };
+  });
+}
+
+/**
+ * Extract job details from the page
+ */
+async function extractJobDetails(page: Page): Promise<{ metadata: string; sections: Record<string, string>; skills: string }> {
+  return page.evaluate(() => {
+    const metadataText = Array.from(document.querySelectorAll('div, span, p'))
+      .filter(el => {
+        const text = el.textContent?.trim() || '';
+        return (text.includes('•') &&
+               (text.includes('LPA') ||
+                text.includes('Fulltime') ||
+                text.includes('years'))) &&
+               text.length < 100;
+      })
+      .map(el => el.textContent?.trim() || '')
+      .filter(text => text.length > 0)[0] || '';
+
+    const sections = ['Responsibilities', 'About the company', 'Requirements', 'Qualifications', 'Skills', 'Your competencies'];
+    const extractedSections: Record<string, string> = {};
+
+    for (const section of sections) {
+      const sectionHeaders = Array.from(document.querySelectorAll('h2, h3, h4, strong, b'))
+        .filter(el => el.textContent?.includes(section));
+
+      if (sectionHeaders.length > 0) {
+        let sectionContent = '';
+        let currentElement = sectionHeaders[0].nextElementSibling;
+
+        while (currentElement &&
+              !sections.some(s => currentElement?.textContent?.includes(s)) &&
+              !(currentElement.tagName === 'H2' ||
+                currentElement.tagName === 'H3' ||
+                currentElement.tagName === 'H4')) {
+
+          const text = currentElement.textContent?.trim();
+          if (text) {
+            sectionContent += text + '\n';
+          }
+          currentElement = currentElement.nextElementSibling;
+        }
+
+        if (sectionContent.trim()) {
+          extractedSections[section] = sectionContent.trim();
+        }
+      }
+    }
+
+    const skillsSection = Array.from(document.querySelectorAll('div, section'))
+      .filter(el => el.textContent?.includes('Skills Required') ||
+                    el.textContent?.includes('Top Skills Required'))
+      .map(el => el.textContent?.trim() || '')
+      .filter(text => text.length > 0)[0] || '';
+
+    return {
+      metadata: metadataText,
+      sections: extractedSections,
+      skills: skillsSection
+    };
+  });
+}
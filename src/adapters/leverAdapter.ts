@@ -0,0 +1,42 @@
+import { parseLeverHTML } from '../utils/parser';
+import { JobSourceAdapter, ParsedJobData } from '../types/types';
+
+/**
+ * Split a Lever URL into its company slug and posting ID
+ * e.g. https://jobs.lever.co/acme/5f1c.../apply -> { company: 'acme', jobId: '5f1c...' }
+ */
+function parseLeverUrl(url: string): { company: string; jobId: string } | null {
+  try {
+    const { hostname, pathname } = new URL(url);
+    if (hostname !== 'jobs.lever.co' && hostname !== 'jobs.eu.lever.co') {
+      return null;
+    }
+
+    const match = pathname.match(/^\/([^/]+)\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})(\/apply)?\/?$/i);
+    return match ? { company: match[1], jobId: match[2].toLowerCase() } : null;
+  } catch (_error) {
+    return null;
+  }
+}
+
+/**
+ * Adapter for Lever hosted job postings
+ */
+export const leverAdapter: JobSourceAdapter = {
+  name: 'lever',
+  hosts: ['jobs.lever.co', 'jobs.eu.lever.co'],
+  fetchStrategy: 'direct',
+  waitForSelector: '.posting-headline, .posting-page',
+
+  matchesUrl(url: string): boolean {
+    return parseLeverUrl(url) !== null;
+  },
+
+  extractJobId(url: string): string {
+    return parseLeverUrl(url)?.jobId || 'unknown';
+  },
+
+  parseHtml(html: string, url?: string): Promise<ParsedJobData> {
+    return parseLeverHTML(html, url ? parseLeverUrl(url)?.company : undefined);
+  }
+};
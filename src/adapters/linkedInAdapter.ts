@@ -0,0 +1,57 @@
+import { parseLinkedInHTML } from '../utils/parser';
+import { JobSourceAdapter, ParsedJobData } from '../types/types';
+
+/**
+ * Get the numeric LinkedIn job ID from a job URL
+ * Supports /jobs/view/<id>, /jobs/view/<title-slug>-<id> and search pages with ?currentJobId=<id>
+ */
+function parseLinkedInJobId(url: string): string | null {
+  try {
+    const { hostname, pathname, searchParams } = new URL(url);
+    if (hostname !== 'linkedin.com' && !hostname.endsWith('.linkedin.com')) {
+      return null;
+    }
+
+    const viewMatch = pathname.match(/^\/jobs\/view\/(?:[^/]*?-)?(\d+)\/?$/);
+    if (viewMatch) {
+      return viewMatch[1];
+    }
+
+    const currentJobId = searchParams.get('currentJobId');
+    if (pathname.startsWith('/jobs/') && currentJobId && /^\d+$/.test(currentJobId)) {
+      return currentJobId;
+    }
+
+    return null;
+  } catch (_error) {
+    return null;
+  }
+}
+
+/**
+ * Adapter for LinkedIn public job view pages
+ * Always fetches the canonical /jobs/view/<id> page, which is served to guests without sign-in
+ */
+export const linkedInAdapter: JobSourceAdapter = {
+  name: 'linkedin',
+  hosts: ['linkedin.com'],
+  fetchStrategy: 'direct',
+  waitForSelector: '.top-card-layout, .show-more-less-html__markup',
+
+  matchesUrl(url: string): boolean {
+    return parseLinkedInJobId(url) !== null;
+  },
+
+  extractJobId(url: string): string {
+    return parseLinkedInJobId(url) || 'unknown';
+  },
+
+  getFetchUrl(url: string): string {
+    const jobId = parseLinkedInJobId(url);
+    return jobId ? `https://www.linkedin.com/jobs/view/${jobId}` : url;
+  },
+
+  parseHtml(html: string): Promise<ParsedJobData> {
+    return parseLinkedInHTML(html);
+  }
+};
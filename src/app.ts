@@ -7,10 +7,18 @@ import cookieParser from 'cookie-parser';
 import passport from 'passport';
 import { errorHandler } from './utils/errorHandler';
 import referralRoutes from './routes/referralRoutes';
+import followUpRoutes from './routes/followUpRoutes';
 import authRoutes from './routes/authRoutes';
 import apiKeyRoutes from './routes/apiKeyRoutes';
 import templateRoutes from './routes/templateRoutes';
+import referralHistoryRoutes from './routes/referralHistoryRoutes';
+import candidateProfileRoutes from './routes/candidateProfileRoutes';
+import resumeRoutes from './routes/resumeRoutes';
+import outreachRoutes from './routes/outreachRoutes';
+import cacheRoutes from './routes/cacheRoutes';
+import adminRoutes from './routes/adminRoutes';
 import { configurePassport } from './config/passport';
+import { getSupportedSites, getFallbackAdapter } from './adapters/adapterRegistry';
 
 const app = express();
 
@@ -18,7 +26,7 @@ app.use(helmet());
 app.use(morgan('dev'));
 const corsOptions = {
   origin: process.env.FRONTEND_URL || '*',
-  methods: 'POST,GET,OPTIONS,DELETE,PUT',
+  methods: 'POST,GET,OPTIONS,DELETE,PUT,PATCH',
   allowedHeaders: 'Content-Type,Authorization',
   credentials: true
 };
@@ -47,15 +55,23 @@ app.use(passport.session());
 // API routes
 app.use('/api/v1/auth', authRoutes);
 app.use('/api/v1', referralRoutes);
+app.use('/api/v1', followUpRoutes);
 app.use('/api/v1/user', apiKeyRoutes);
 app.use('/api/v1/user', templateRoutes);
+app.use('/api/v1/user', referralHistoryRoutes);
+app.use('/api/v1/user', candidateProfileRoutes);
+app.use('/api/v1/user', resumeRoutes);
+app.use('/api/v1/user', outreachRoutes);
+app.use('/api/v1/user', cacheRoutes);
+app.use('/api/v1/admin', adminRoutes);
 
 app.get('/health', (_req, res) => {
   res.status(200).json({ 
     status: 'ok',
     version: process.env.npm_package_version || '1.0.0',
     service: 'jobrefme-backend',
-    supportedSites: ['hirejobs.in'],
+    supportedSites: getSupportedSites(),
+    genericJobPostingSupport: getFallbackAdapter() !== null,
     authEnabled: true
   });
 });
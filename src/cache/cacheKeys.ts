@@ -0,0 +1,40 @@
+/**
+ * Cache keys share one layout in every cache, so a user's entries, and the entries for one of their jobs,
+ * can be found by prefix: "user:<userId>:job:<jobId>:<kind>:<details>"
+ */
+
+/**
+ * Prefix of every key cached for a user
+ */
+export function getUserCachePrefix(userId?: string): string {
+  return userId ? `user:${userId}:` : 'anon:';
+}
+
+/**
+ * Prefix of every key cached for one of a user's jobs
+ * @param jobId Job posting ID for URLs, content hash for raw content
+ */
+export function getJobCachePrefix(userId: string | undefined, jobId: string): string {
+  return `${getUserCachePrefix(userId)}job:${jobId}:`;
+}
+
+/**
+ * Build the key for something cached about a job, e.g. its extracted details or a generated message
+ * Empty parts are left out
+ */
+export function getJobCacheKey(userId: string | undefined, jobId: string, kind: string, ...parts: Array<string | undefined>): string {
+  return `${getJobCachePrefix(userId, jobId)}${[kind, ...parts].filter(part => part).join(':')}`;
+}
+
+/**
+ * Split a key into the job it belongs to and the kind of entry, for listing a user's cache
+ */
+export function parseCacheKey(key: string): { jobId?: string; kind: string } {
+  const match = key.match(/^(?:user:[^:]+|anon):job:([^:]+):([^:]+)/);
+  if (match) {
+    return { jobId: match[1], kind: match[2] };
+  }
+
+  // Entries not tied to a job, such as URL checks, name their kind after the user prefix
+  return { kind: key.replace(/^(?:user:[^:]+|anon):/, '').split(':')[0] };
+}
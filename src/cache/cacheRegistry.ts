@@ -0,0 +1,96 @@
+import Redis from 'ioredis';
+import { logger } from '../utils/logger';
+import { CacheBackendName, CacheStore } from '../types/types';
+import { createMemoryCacheStore } from './memoryCacheStore';
+import { createRedisCacheStore } from './redisCacheStore';
+import { createMongoCacheStore } from './mongoCacheStore';
+
+const DEFAULT_KEY_PREFIX = 'jobrefme:';
+
+const backends: Record<CacheBackendName, (namespace: string, ttlSeconds: number) => CacheStore> = {
+  memory: createMemoryCacheStore,
+  redis: (namespace, ttlSeconds) => createRedisCacheStore(getRedisClient(), namespace, ttlSeconds, process.env.CACHE_KEY_PREFIX ?? DEFAULT_KEY_PREFIX),
+  mongo: createMongoCacheStore
+};
+
+let redisClient: Redis | undefined;
+const stores: CacheStore[] = [];
+
+/**
+ * Get the Redis connection shared by every Redis cache store, connecting on first use
+ */
+function getRedisClient(): Redis {
+  if (!redisClient) {
+    // Fail commands quickly while Redis is down rather than holding requests until it returns
+    redisClient = new Redis(process.env.REDIS_URL as string, { maxRetriesPerRequest: 1 });
+    redisClient.on('error', (error) => logger.error(`Redis cache error: ${error.message}`));
+  }
+  return redisClient;
+}
+
+function isCacheBackendName(value: unknown): value is CacheBackendName {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(backends, value);
+}
+
+/**
+ * Get the cache backend selected by CACHE_BACKEND, defaulting to memory
+ * Falls back to memory when the setting is unknown or Redis has no REDIS_URL
+ */
+export function getCacheBackend(): CacheBackendName {
+  const name = (process.env.CACHE_BACKEND || 'memory').toLowerCase();
+
+  if (!isCacheBackendName(name)) {
+    logger.warn(`Unknown CACHE_BACKEND "${name}", using the in-memory cache`);
+    return 'memory';
+  }
+
+  if (name === 'redis' && !process.env.REDIS_URL) {
+    logger.error('CACHE_BACKEND is redis but REDIS_URL is not set, using the in-memory cache');
+    return 'memory';
+  }
+
+  return name;
+}
+
+/**
+ * Create a cache for one namespace on the configured backend
+ * A cache that cannot be reached must not fail the request, so read errors count as a miss
+ * and write errors are logged and ignored
+ *
+ * @param namespace Keeps keys of different caches apart on shared backends
+ * @param ttlSeconds Default time to live for entries
+ */
+export function createCacheStore(namespace: string, ttlSeconds: number): CacheStore {
+  const store = backends[getCacheBackend()](namespace, ttlSeconds);
+
+  const resilientStore: CacheStore = {
+    ...store,
+
+    async get<T>(key: string) {
+      try {
+        return await store.get<T>(key);
+      } catch (error) {
+        logger.warn(`Cache read failed (${store.backend}/${namespace}): ${error instanceof Error ? error.message : String(error)}`);
+        return undefined;
+      }
+    },
+
+    async set(key, value, ttl) {
+      try {
+        await store.set(key, value, ttl);
+      } catch (error) {
+        logger.warn(`Cache write failed (${store.backend}/${namespace}): ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  };
+
+  stores.push(resilientStore);
+  return resilientStore;
+}
+
+/**
+ * Get every cache created so far, for operations that span all of them such as invalidating a user's entries
+ */
+export function getCacheStores(): CacheStore[] {
+  return [...stores];
+}
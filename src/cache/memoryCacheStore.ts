@@ -0,0 +1,53 @@
+import NodeCache from 'node-cache';
+import { CacheStore } from '../types/types';
+
+interface MemoryCacheEntry {
+  value: unknown;
+  storedAt: number;
+}
+
+/**
+ * Create a cache held in this process
+ * Entries are lost on restart and not shared with other instances
+ */
+export function createMemoryCacheStore(namespace: string, ttlSeconds: number): CacheStore {
+  const cache = new NodeCache({
+    stdTTL: ttlSeconds,
+    checkperiod: 120,
+    useClones: false
+  });
+
+  return {
+    backend: 'memory',
+    namespace,
+
+    async get<T>(key: string) {
+      return cache.get<MemoryCacheEntry>(key)?.value as T | undefined;
+    },
+
+    async set(key, value, ttl) {
+      cache.set<MemoryCacheEntry>(key, { value, storedAt: Date.now() }, ttl ?? ttlSeconds);
+    },
+
+    async del(keys) {
+      return cache.del(keys);
+    },
+
+    async entries(prefix) {
+      return cache.keys()
+        .filter(key => !prefix || key.startsWith(prefix))
+        .map(key => ({
+          key,
+          storedAt: cache.get<MemoryCacheEntry>(key)?.storedAt,
+          // getTtl is 0 for entries that never expire
+          expiresAt: cache.getTtl(key) || undefined
+        }));
+    },
+
+    async clear() {
+      const count = cache.keys().length;
+      cache.flushAll();
+      return count;
+    }
+  };
+}
@@ -0,0 +1,63 @@
+import CacheEntry from '../models/cacheEntryModel';
+import { CacheStore } from '../types/types';
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Create a cache stored in a MongoDB collection with a TTL index
+ * Slower than Redis, but shared between instances without running another service
+ */
+export function createMongoCacheStore(namespace: string, ttlSeconds: number): CacheStore {
+  const toId = (key: string) => `${namespace}:${key}`;
+  const liveFilter = (prefix?: string) => ({
+    namespace,
+    ...(prefix ? { key: new RegExp(`^${escapeRegex(prefix)}`) } : {}),
+    expiresAt: { $gt: new Date() }
+  });
+
+  return {
+    backend: 'mongo',
+    namespace,
+
+    async get<T>(key: string) {
+      const entry = await CacheEntry.findOne({ _id: toId(key), expiresAt: { $gt: new Date() } }).lean();
+      return entry ? JSON.parse(entry.value) as T : undefined;
+    },
+
+    async set(key, value, ttl) {
+      await CacheEntry.updateOne(
+        { _id: toId(key) },
+        {
+          namespace,
+          key,
+          value: JSON.stringify(value),
+          storedAt: new Date(),
+          expiresAt: new Date(Date.now() + (ttl ?? ttlSeconds) * 1000)
+        },
+        { upsert: true }
+      );
+    },
+
+    async del(keys) {
+      const ids = (Array.isArray(keys) ? keys : [keys]).map(toId);
+      const result = await CacheEntry.deleteMany({ _id: { $in: ids } });
+      return result.deletedCount;
+    },
+
+    async entries(prefix) {
+      const entries = await CacheEntry.find(liveFilter(prefix)).select('key storedAt expiresAt').lean();
+      return entries.map(entry => ({
+        key: entry.key,
+        storedAt: entry.storedAt?.getTime(),
+        expiresAt: entry.expiresAt.getTime()
+      }));
+    },
+
+    async clear() {
+      const result = await CacheEntry.deleteMany({ namespace });
+      return result.deletedCount;
+    }
+  };
+}
@@ -0,0 +1,91 @@
+import Redis from 'ioredis';
+import { CacheStore } from '../types/types';
+
+const SCAN_BATCH_SIZE = 200;
+
+/**
+ * Escape the glob characters Redis MATCH patterns understand
+ */
+function escapePattern(text: string): string {
+  return text.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+/**
+ * Create a cache stored in Redis, shared by every server instance using the same client settings
+ * Entries are hashes at "<keyPrefix><namespace>:<key>" holding the JSON value and when it was stored
+ */
+export function createRedisCacheStore(client: Redis, namespace: string, ttlSeconds: number, keyPrefix = ''): CacheStore {
+  const namespacePrefix = `${keyPrefix}${namespace}:`;
+  const toRedisKey = (key: string) => `${namespacePrefix}${key}`;
+
+  const scanKeys = async (prefix = ''): Promise<string[]> => {
+    const keys: string[] = [];
+    const stream = client.scanStream({ match: `${escapePattern(namespacePrefix + prefix)}*`, count: SCAN_BATCH_SIZE });
+
+    for await (const batch of stream) {
+      keys.push(...(batch as string[]));
+    }
+
+    // SCAN may return a key more than once
+    return [...new Set(keys)];
+  };
+
+  const deleteKeys = async (redisKeys: string[]): Promise<number> => {
+    let count = 0;
+    for (let i = 0; i < redisKeys.length; i += SCAN_BATCH_SIZE) {
+      count += await client.del(...redisKeys.slice(i, i + SCAN_BATCH_SIZE));
+    }
+    return count;
+  };
+
+  return {
+    backend: 'redis',
+    namespace,
+
+    async get<T>(key: string) {
+      const value = await client.hget(toRedisKey(key), 'value');
+      return value === null ? undefined : JSON.parse(value) as T;
+    },
+
+    async set(key, value, ttl) {
+      const redisKey = toRedisKey(key);
+      await client.multi()
+        .del(redisKey)
+        .hset(redisKey, { value: JSON.stringify(value), storedAt: Date.now() })
+        .expire(redisKey, ttl ?? ttlSeconds)
+        .exec();
+    },
+
+    async del(keys) {
+      return deleteKeys((Array.isArray(keys) ? keys : [keys]).map(toRedisKey));
+    },
+
+    async entries(prefix) {
+      const redisKeys = await scanKeys(prefix);
+      if (redisKeys.length === 0) {
+        return [];
+      }
+
+      const pipeline = client.pipeline();
+      redisKeys.forEach(redisKey => pipeline.hget(redisKey, 'storedAt').pttl(redisKey));
+      const results = (await pipeline.exec()) || [];
+      const now = Date.now();
+
+      return redisKeys.map((redisKey, index) => {
+        const storedAt = results[index * 2]?.[1] as string | null;
+        const ttlMs = results[index * 2 + 1]?.[1] as number;
+
+        return {
+          key: redisKey.slice(namespacePrefix.length),
+          storedAt: storedAt ? Number(storedAt) : undefined,
+          // PTTL is -1 for keys without an expiry and -2 for keys removed since the scan
+          expiresAt: ttlMs >= 0 ? now + ttlMs : undefined
+        };
+      });
+    },
+
+    async clear() {
+      return deleteKeys(await scanKeys());
+    }
+  };
+}
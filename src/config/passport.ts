@@ -2,6 +2,7 @@ import passport from 'passport';
 import { Strategy as GoogleStrategy } from 'passport-google-oauth20';
 import { logger } from '../utils/logger';
 import User, { IUser } from '../models/userModel';
+import { isAdminEmail } from '../middleware/authMiddleware';
 
 export function configurePassport(): void {
   // Serialize user to store in the session
@@ -36,6 +37,10 @@ export function configurePassport(): void {
           if (user) {
             // Update last login time for existing user
             user.lastLogin = new Date();
+            // ADMIN_EMAILS is authoritative; the admin API refuses to demote listed users
+            if (isAdminEmail(user.email)) {
+              user.role = 'admin';
+            }
             await user.save();
             logger.info(`User logged in: ${user.email}`);
             return done(null, user);
@@ -55,6 +60,7 @@ export function configurePassport(): void {
             lastName,
             displayName,
             profilePhoto,
+            role: isAdminEmail(email) ? 'admin' : 'user',
           });
 
           await user.save();
@@ -0,0 +1,235 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { logger } from '../utils/logger';
+import { ApiError } from '../utils/errorHandler';
+import { isAdminEmail } from '../middleware/authMiddleware';
+import { parseOptionalEnum, parseOptionalString } from '../utils/requestParsers';
+import User, { IUser, USER_ROLES } from '../models/userModel';
+import { getUsageStats as collectUsageStats, getUserUsage } from '../services/adminService';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_DISABLED_REASON_LENGTH = 500;
+
+/**
+ * Escape user input for use inside a regular expression
+ */
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Shape a user for admin responses
+ */
+function toAdminUserResponse(user: IUser) {
+  return {
+    id: user._id,
+    email: user.email,
+    displayName: user.displayName,
+    profilePhoto: user.profilePhoto,
+    role: user.role,
+    disabled: user.disabled,
+    disabledAt: user.disabledAt,
+    disabledReason: user.disabledReason,
+    llmProvider: user.llmSettings?.provider || 'gemini',
+    lastLogin: user.lastLogin,
+    createdAt: user.createdAt
+  };
+}
+
+/**
+ * Find a user by the :id route parameter
+ * @throws ApiError if the user does not exist
+ */
+async function findUserParam(req: Request): Promise<IUser> {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    throw new ApiError(404, 'User not found');
+  }
+
+  const user = await User.findById(req.params.id);
+
+  if (!user) {
+    throw new ApiError(404, 'User not found');
+  }
+
+  return user;
+}
+
+/**
+ * List users, newest first
+ * Supports pagination (page, limit), a search (q) over email and name, and role and disabled filters
+ */
+export async function getUsers(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const page = Math.max(parseInt(String(req.query.page || '1'), 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const search = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    const role = parseOptionalEnum(req.query.role, 'Role', USER_ROLES);
+
+    const filter: Record<string, unknown> = {};
+
+    if (search) {
+      const pattern = new RegExp(escapeRegex(search), 'i');
+      filter.$or = [
+        { email: pattern },
+        { displayName: pattern }
+      ];
+    }
+
+    // Users created before roles were introduced have no role and count as users
+    if (role) {
+      filter.role = role === 'user' ? { $in: ['user', null] } : role;
+    }
+
+    if (req.query.disabled === 'true' || req.query.disabled === 'false') {
+      filter.disabled = req.query.disabled === 'true' ? true : { $ne: true };
+    }
+
+    const [users, total] = await Promise.all([
+      User.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      User.countDocuments(filter)
+    ]);
+
+    res.status(200).json({
+      success: true,
+      count: users.length,
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+      data: users.map(toAdminUserResponse)
+    });
+  } catch (error) {
+    logger.error(`Error fetching users: ${error}`);
+    next(error);
+  }
+}
+
+/**
+ * Get a user with a summary of their usage
+ */
+export async function getUserById(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const user = await findUserParam(req);
+    const usage = await getUserUsage(String(user._id));
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...toAdminUserResponse(user),
+        usage
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Disable or re-enable a user's account
+ * Disabled users are refused at sign-in and on every authenticated request; their data is kept
+ */
+export async function updateUserStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    if (typeof req.body.disabled !== 'boolean') {
+      throw new ApiError(400, 'Disabled must be true or false');
+    }
+
+    const reason = parseOptionalString(req.body.reason, 'Reason', MAX_DISABLED_REASON_LENGTH);
+    const user = await findUserParam(req);
+
+    if (String(user._id) === String(req.user._id)) {
+      throw new ApiError(400, 'You cannot disable your own account');
+    }
+
+    user.disabled = req.body.disabled;
+    user.disabledAt = req.body.disabled ? new Date() : undefined;
+    user.disabledReason = req.body.disabled ? reason : undefined;
+    await user.save();
+
+    logger.warn(`User ${user.email} ${user.disabled ? 'disabled' : 'enabled'} by admin: ${req.user.email}`);
+
+    res.status(200).json({
+      success: true,
+      data: toAdminUserResponse(user)
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Change a user's role
+ */
+export async function updateUserRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const role = parseOptionalEnum(req.body.role, 'Role', USER_ROLES);
+
+    if (!role) {
+      throw new ApiError(400, 'Role is required');
+    }
+
+    const user = await findUserParam(req);
+
+    // Keeps at least one admin able to undo the change
+    if (String(user._id) === String(req.user._id) && role !== 'admin') {
+      throw new ApiError(400, 'You cannot remove your own admin role');
+    }
+
+    // ADMIN_EMAILS would promote the user again at their next sign-in
+    if (role !== 'admin' && isAdminEmail(user.email)) {
+      throw new ApiError(400, 'Users listed in ADMIN_EMAILS are always admins. Remove the email from ADMIN_EMAILS first');
+    }
+
+    user.role = role;
+    await user.save();
+
+    logger.warn(`User ${user.email} given role "${role}" by admin: ${req.user.email}`);
+
+    res.status(200).json({
+      success: true,
+      data: toAdminUserResponse(user)
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get usage statistics across all users
+ */
+export async function getUsageStats(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const stats = await collectUsageStats();
+
+    res.status(200).json({
+      success: true,
+      data: stats
+    });
+  } catch (error) {
+    logger.error(`Error collecting usage stats: ${error}`);
+    next(error);
+  }
+}
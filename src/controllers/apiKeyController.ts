@@ -1,11 +1,27 @@
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '../utils/logger';
-import { ApiError } from '../utils/errorHandler';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { ApiError, LlmProviderError } from '../utils/errorHandler';
 import { isValidApiKeyFormat } from '../utils/validators';
+import User from '../models/userModel';
+import { LlmProvider } from '../types/types';
+import {
+  createLlmProvider,
+  getProviderLabel,
+  getSupportedProviders,
+  isLlmProviderName,
+  verifyLlmProvider
+} from '../providers/providerRegistry';
+import {
+  getActiveApiKey,
+  getActiveCredential,
+  removeActiveCredential,
+  saveActiveApiKey,
+  verifyCredential
+} from '../services/credentialService';
 
 /**
  * Set Gemini API key for the authenticated user
+ * Kept for existing clients: the key replaces the active Gemini key in the key vault
  */
 export async function setGeminiApiKey(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
@@ -29,18 +45,14 @@ export async function setGeminiApiKey(req: Request, res: Response, next: NextFun
 
     // Verify the API key with Gemini before saving
     try {
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
-      
-      // Make a small test request to verify key works
-      await model.generateContent('Test message to verify API key validity');
+      await verifyLlmProvider(createLlmProvider('gemini', { apiKey }));
       
       logger.info(`Valid Gemini API key set for user: ${req.user.email}`);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       logger.error(`Gemini API key validation failed: ${errorMessage}`);
       
-      if (errorMessage.includes('API key not valid')) {
+      if (error instanceof LlmProviderError && error.code === 'invalid_api_key') {
         throw new ApiError(400, 'The provided Gemini API key is invalid');
       } else {
         throw new ApiError(400, 'Could not verify Gemini API key. Please check the key and try again.');
@@ -48,7 +60,7 @@ export async function setGeminiApiKey(req: Request, res: Response, next: NextFun
     }
 
     // Save the API key securely
-    await req.user.setGeminiApiKey(apiKey);
+    await saveActiveApiKey(String(req.user._id), 'gemini', apiKey.trim(), true);
 
     res.status(200).json({
       success: true,
@@ -60,7 +72,7 @@ export async function setGeminiApiKey(req: Request, res: Response, next: NextFun
 }
 
 /**
- * Verify if the Gemini API key for the authenticated user is valid
+ * Verify if the active Gemini API key for the authenticated user is valid
  */
 export async function verifyGeminiApiKey(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
@@ -68,9 +80,10 @@ export async function verifyGeminiApiKey(req: Request, res: Response, next: Next
       throw new ApiError(401, 'Not authorized');
     }
 
-    const apiKey = await req.user.getGeminiApiKey();
+    const userId = String(req.user._id);
+    const credential = await getActiveCredential(userId, 'gemini');
 
-    if (!apiKey) {
+    if (!credential) {
       res.status(200).json({
         success: true,
         hasKey: false,
@@ -80,37 +93,21 @@ export async function verifyGeminiApiKey(req: Request, res: Response, next: Next
       return;
     }
 
-    try {
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
-      
-      // Make a small test request to verify key still works
-      await model.generateContent('Test message to verify API key validity');
-      
-      res.status(200).json({
-        success: true,
-        hasKey: true,
-        valid: true,
-        message: 'Gemini API key is valid'
-      });
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.error(`Gemini API key validation failed: ${errorMessage}`);
-      
-      res.status(200).json({
-        success: true,
-        hasKey: true,
-        valid: false,
-        message: 'Gemini API key is invalid or has expired'
-      });
-    }
+    const result = await verifyCredential(userId, String(credential._id));
+
+    res.status(200).json({
+      success: true,
+      hasKey: true,
+      valid: Boolean(result?.verification.valid),
+      message: result?.verification.valid ? 'Gemini API key is valid' : 'Gemini API key is invalid or has expired'
+    });
   } catch (error) {
     next(error);
   }
 }
 
 /**
- * Delete Gemini API key for the authenticated user
+ * Delete the active Gemini API key for the authenticated user
  */
 export async function deleteGeminiApiKey(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
@@ -119,7 +116,7 @@ export async function deleteGeminiApiKey(req: Request, res: Response, next: Next
     }
 
     // Remove the API key
-    await req.user.setGeminiApiKey('');
+    await removeActiveCredential(String(req.user._id), 'gemini');
 
     logger.info(`Gemini API key deleted for user: ${req.user.email}`);
 
@@ -130,4 +127,94 @@ export async function deleteGeminiApiKey(req: Request, res: Response, next: Next
   } catch (error) {
     next(error);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Get the LLM provider settings of the authenticated user and the available providers
+ */
+export async function getLlmSettings(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        provider: req.user.llmSettings?.provider || 'gemini',
+        model: req.user.llmSettings?.model || null,
+        providers: getSupportedProviders()
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Select the LLM provider and model used for the authenticated user's AI calls
+ * The provider is verified with a small test request before the settings are saved
+ */
+export async function updateLlmSettings(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { provider, model } = req.body;
+
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    if (!isLlmProviderName(provider)) {
+      const supported = getSupportedProviders().map(item => item.name).join(', ');
+      throw new ApiError(400, `Provider must be one of: ${supported}`);
+    }
+
+    if (model !== undefined && model !== null && (typeof model !== 'string' || model.trim().length > 100)) {
+      throw new ApiError(400, 'Model must be a string of at most 100 characters');
+    }
+
+    const modelName = typeof model === 'string' && model.trim() ? model.trim() : undefined;
+    const label = getProviderLabel(provider);
+
+    // The user's active key for the provider takes precedence over the server configuration
+    const apiKey = await getActiveApiKey(String(req.user._id), provider);
+
+    let llmProvider: LlmProvider;
+    try {
+      llmProvider = createLlmProvider(provider, { apiKey: apiKey || undefined, model: modelName });
+    } catch (error) {
+      throw new ApiError(400, error instanceof Error ? error.message : `${label} is not available`);
+    }
+
+    try {
+      await verifyLlmProvider(llmProvider);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`${label} provider verification failed: ${errorMessage}`);
+
+      if (error instanceof LlmProviderError && error.code === 'invalid_api_key') {
+        throw new ApiError(400, `The ${label} API key is invalid`);
+      }
+
+      throw new ApiError(400, `Could not verify ${label} with model ${llmProvider.model}. Please check the settings and try again.`);
+    }
+
+    await User.updateOne(
+      { _id: req.user._id },
+      { $set: { llmSettings: { provider, model: modelName } } }
+    );
+
+    logger.info(`LLM provider set to ${provider} (${llmProvider.model}) for user: ${req.user.email}`);
+
+    res.status(200).json({
+      success: true,
+      message: `${label} selected as LLM provider`,
+      data: {
+        provider,
+        model: modelName || null,
+        effectiveModel: llmProvider.model
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -4,6 +4,7 @@ import { logger } from '../utils/logger';
 import { generateToken } from '../utils/jwtUtils';
 import { ApiError } from '../utils/errorHandler';
 import User from '../models/userModel';
+import { getActiveCredential } from '../services/credentialService';
 
 /**
  * Initiate Google OAuth login flow
@@ -35,6 +36,11 @@ export function googleAuthCallback(req: Request, res: Response, next: NextFuncti
       if (!user) {
         return next(new ApiError(401, 'Authentication failed'));
       }
+
+      if (user.disabled) {
+        logger.warn(`Sign-in refused for disabled user: ${user.email}`);
+        return next(new ApiError(403, 'Your account has been disabled'));
+      }
       
       // Generate JWT token
       const token = generateToken(user);
@@ -103,8 +109,8 @@ export async function getProfile(req: Request, res: Response, next: NextFunction
       throw new ApiError(404, 'User not found');
     }
     
-    // Check if user has a Gemini API key
-    const hasApiKey = Boolean(await user.getGeminiApiKey());
+    // Check if user has an active Gemini API key
+    const hasApiKey = Boolean(await getActiveCredential(String(user._id), 'gemini'));
     
     res.status(200).json({
       success: true,
@@ -117,6 +123,8 @@ export async function getProfile(req: Request, res: Response, next: NextFunction
         lastName: user.lastName,
         profilePhoto: user.profilePhoto,
         hasGeminiApiKey: hasApiKey,
+        llmProvider: user.llmSettings?.provider || 'gemini',
+        role: user.role,
         lastLogin: user.lastLogin,
         createdAt: user.createdAt
       }
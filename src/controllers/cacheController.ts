@@ -0,0 +1,116 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { logger } from '../utils/logger';
+import { ApiError } from '../utils/errorHandler';
+import { clearUserCache, flushAllCaches, invalidateUserJobCache, invalidateUserTemplateCache, listUserCacheEntries } from '../services/cacheService';
+
+/**
+ * List the authenticated user's cached entries with their age and remaining time to live
+ */
+export async function getCacheEntries(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const entries = await listUserCacheEntries(String(req.user._id));
+
+    res.status(200).json({
+      success: true,
+      count: entries.length,
+      data: entries
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Remove all of the authenticated user's cached entries
+ */
+export async function clearCache(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const removed = await clearUserCache(String(req.user._id));
+
+    res.status(200).json({
+      success: true,
+      removed,
+      message: `Cache cleared (${removed} entries)`
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Remove the authenticated user's cached entries for a job, in every cache
+ */
+export async function invalidateJobCache(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const removed = await invalidateUserJobCache(String(req.user._id), req.params.jobId);
+
+    res.status(200).json({
+      success: true,
+      removed,
+      message: removed > 0 ? `Cache cleared for job ID: ${req.params.jobId}` : `No cache entry found for job ID: ${req.params.jobId}`
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Remove the authenticated user's messages written with a template
+ * The template does not need to exist any more, so messages of a deleted template can be removed too
+ */
+export async function invalidateTemplateCache(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(req.params.templateId)) {
+      throw new ApiError(404, 'Template not found');
+    }
+
+    const removed = await invalidateUserTemplateCache(String(req.user._id), req.params.templateId);
+
+    res.status(200).json({
+      success: true,
+      removed,
+      message: `Cache cleared for template ID: ${req.params.templateId} (${removed} entries)`
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Remove every cached entry for all users; admin only
+ */
+export async function flushCache(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const removed = await flushAllCaches();
+    logger.warn(`All caches flushed by admin: ${req.user.email} (${removed} entries)`);
+
+    res.status(200).json({
+      success: true,
+      removed,
+      message: `All cache entries cleared (${removed} entries)`
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,190 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../utils/logger';
+import { ApiError } from '../utils/errorHandler';
+import { parseOptionalString, parseRequiredString, parseUrl } from '../utils/requestParsers';
+import { CandidateLink, CandidateProfileData, CandidateProject } from '../types/types';
+import { ICandidateProfile } from '../models/candidateProfileModel';
+import {
+  deleteCandidateProfile as removeCandidateProfile,
+  getCandidateProfile as findCandidateProfile,
+  saveCandidateProfile
+} from '../services/candidateProfileService';
+
+const MAX_SKILLS = 50;
+const MAX_PROJECTS = 10;
+const MAX_LINKS = 10;
+const MAX_TECHNOLOGIES = 20;
+
+/**
+ * Read a list of short strings, dropping blanks and duplicates
+ * @throws ApiError if the value is not a list of strings within the limits
+ */
+function parseStringList(value: unknown, field: string, maxItems: number): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || item.trim().length > 50)) {
+    throw new ApiError(400, `${field} must be a list of strings of at most 50 characters`);
+  }
+
+  const items = [...new Set(value.map(item => item.trim()).filter(item => item))];
+
+  if (items.length > maxItems) {
+    throw new ApiError(400, `${field} can contain at most ${maxItems} entries`);
+  }
+
+  return items;
+}
+
+/**
+ * Read a list of objects
+ * @throws ApiError if the value is not a list of objects within the limit
+ */
+function parseObjectList<T>(value: unknown, field: string, maxItems: number, parseItem: (item: Record<string, unknown>, path: string) => T): T[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  if (!Array.isArray(value) || value.some(item => !item || typeof item !== 'object' || Array.isArray(item))) {
+    throw new ApiError(400, `${field} must be a list of objects`);
+  }
+
+  if (value.length > maxItems) {
+    throw new ApiError(400, `${field} can contain at most ${maxItems} entries`);
+  }
+
+  return value.map((item, index) => parseItem(item, `${field}[${index}]`));
+}
+
+/**
+ * Validate a candidate profile from the request body
+ * @throws ApiError describing the first invalid field
+ */
+function parseCandidateProfile(body: Record<string, unknown>): CandidateProfileData {
+  let yearsOfExperience: number | undefined;
+
+  if (body.yearsOfExperience !== undefined && body.yearsOfExperience !== null && body.yearsOfExperience !== '') {
+    yearsOfExperience = Number(body.yearsOfExperience);
+
+    if (!Number.isFinite(yearsOfExperience) || yearsOfExperience < 0 || yearsOfExperience > 60) {
+      throw new ApiError(400, 'yearsOfExperience must be a number between 0 and 60');
+    }
+  }
+
+  const projects = parseObjectList<CandidateProject>(body.projects, 'projects', MAX_PROJECTS, (project, path) => ({
+    name: parseRequiredString(project.name, `${path}.name`, 100),
+    description: parseRequiredString(project.description, `${path}.description`, 500),
+    technologies: parseStringList(project.technologies, `${path}.technologies`, MAX_TECHNOLOGIES),
+    url: project.url ? parseUrl(project.url, `${path}.url`) : undefined
+  }));
+
+  const links = parseObjectList<CandidateLink>(body.links, 'links', MAX_LINKS, (link, path) => ({
+    label: parseRequiredString(link.label, `${path}.label`, 50),
+    url: parseUrl(link.url, `${path}.url`)
+  }));
+
+  return {
+    name: parseOptionalString(body.name, 'name', 100),
+    currentRole: parseOptionalString(body.currentRole, 'currentRole', 100),
+    currentCompany: parseOptionalString(body.currentCompany, 'currentCompany', 100),
+    yearsOfExperience,
+    skills: parseStringList(body.skills, 'skills', MAX_SKILLS),
+    projects,
+    links
+  };
+}
+
+/**
+ * Shape a candidate profile for API responses
+ */
+function toCandidateProfileResponse(profile: ICandidateProfile) {
+  return {
+    name: profile.name || null,
+    currentRole: profile.currentRole || null,
+    currentCompany: profile.currentCompany || null,
+    yearsOfExperience: profile.yearsOfExperience ?? null,
+    skills: profile.skills,
+    projects: profile.projects,
+    links: profile.links,
+    createdAt: profile.createdAt,
+    updatedAt: profile.updatedAt
+  };
+}
+
+/**
+ * Get the authenticated user's candidate profile
+ */
+export async function getCandidateProfile(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const profile = await findCandidateProfile(String(req.user._id));
+
+    if (!profile) {
+      throw new ApiError(404, 'Candidate profile not found');
+    }
+
+    res.status(200).json({
+      success: true,
+      data: toCandidateProfileResponse(profile)
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Create or replace the authenticated user's candidate profile
+ */
+export async function updateCandidateProfile(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    if (!req.body || typeof req.body !== 'object') {
+      throw new ApiError(400, 'Profile data is required');
+    }
+
+    const data = parseCandidateProfile(req.body);
+    const profile = await saveCandidateProfile(String(req.user._id), data);
+
+    logger.info(`Candidate profile saved for user: ${req.user.email}`);
+
+    res.status(200).json({
+      success: true,
+      data: toCandidateProfileResponse(profile)
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Delete the authenticated user's candidate profile
+ */
+export async function deleteCandidateProfile(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const deleted = await removeCandidateProfile(String(req.user._id));
+
+    if (!deleted) {
+      throw new ApiError(404, 'Candidate profile not found');
+    }
+
+    logger.info(`Candidate profile deleted for user: ${req.user.email}`);
+
+    res.status(200).json({
+      success: true,
+      message: 'Candidate profile deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+}
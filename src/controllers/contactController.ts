@@ -0,0 +1,201 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { logger } from '../utils/logger';
+import { ApiError } from '../utils/errorHandler';
+import Contact from '../models/contactModel';
+import { deleteContactWithOutreach } from '../services/outreachService';
+import { parseOptionalEnum, parseOptionalString, parseRequiredString, parseUrl } from '../utils/requestParsers';
+import { ContactRelationship } from '../types/types';
+
+const CONTACT_RELATIONSHIPS: ContactRelationship[] = ['colleague', 'former_colleague', 'alumni', 'friend', 'recruiter', 'hiring_manager', 'other'];
+
+/**
+ * Escape user input for use inside a regular expression
+ */
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Validate a contact from the request body
+ * @throws ApiError describing the first invalid field
+ */
+function parseContact(body: Record<string, unknown>) {
+  const email = parseOptionalString(body.email, 'email', 200);
+
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new ApiError(400, 'email must be a valid email address');
+  }
+
+  const linkedInUrl = body.linkedInUrl ? parseUrl(body.linkedInUrl, 'linkedInUrl') : undefined;
+
+  if (linkedInUrl && !/^https?:\/\/([a-z]+\.)?linkedin\.com\//i.test(linkedInUrl)) {
+    throw new ApiError(400, 'linkedInUrl must be a linkedin.com URL');
+  }
+
+  return {
+    name: parseRequiredString(body.name, 'name', 100),
+    company: parseRequiredString(body.company, 'company', 100),
+    relationship: parseOptionalEnum(body.relationship, 'relationship', CONTACT_RELATIONSHIPS) || 'other',
+    role: parseOptionalString(body.role, 'role', 100),
+    linkedInUrl,
+    email,
+    notes: parseOptionalString(body.notes, 'notes', 2000)
+  };
+}
+
+/**
+ * Get the authenticated user's contacts, sorted by company and name
+ * Supports filtering by company and a free-text search (q) over name, company and role
+ */
+export async function getContacts(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const filter: Record<string, unknown> = { userId: req.user._id };
+
+    if (typeof req.query.company === 'string' && req.query.company.trim()) {
+      filter.company = new RegExp(`^${escapeRegex(req.query.company.trim())}$`, 'i');
+    }
+
+    if (typeof req.query.q === 'string' && req.query.q.trim()) {
+      const pattern = new RegExp(escapeRegex(req.query.q.trim()), 'i');
+      filter.$or = [
+        { name: pattern },
+        { company: pattern },
+        { role: pattern }
+      ];
+    }
+
+    const contacts = await Contact.find(filter).sort({ company: 1, name: 1 });
+
+    res.status(200).json({
+      success: true,
+      count: contacts.length,
+      data: contacts
+    });
+  } catch (error) {
+    logger.error(`Error fetching contacts: ${error}`);
+    next(error);
+  }
+}
+
+/**
+ * Get a single contact
+ */
+export async function getContactById(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      throw new ApiError(404, 'Contact not found');
+    }
+
+    const contact = await Contact.findOne({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!contact) {
+      throw new ApiError(404, 'Contact not found');
+    }
+
+    res.status(200).json({
+      success: true,
+      data: contact
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Create a contact
+ */
+export async function createContact(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const data = parseContact(req.body || {});
+    const contact = await Contact.create({ ...data, userId: req.user._id });
+
+    logger.info(`Created contact ${contact._id} for user: ${req.user._id}`);
+
+    res.status(201).json({
+      success: true,
+      data: contact
+    });
+  } catch (error) {
+    logger.error(`Error creating contact: ${error}`);
+    next(error);
+  }
+}
+
+/**
+ * Replace a contact's details
+ */
+export async function updateContact(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      throw new ApiError(404, 'Contact not found');
+    }
+
+    const data = parseContact(req.body || {});
+    const contact = await Contact.findOne({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!contact) {
+      throw new ApiError(404, 'Contact not found');
+    }
+
+    contact.set(data);
+    await contact.save();
+
+    res.status(200).json({
+      success: true,
+      data: contact
+    });
+  } catch (error) {
+    logger.error(`Error updating contact: ${error}`);
+    next(error);
+  }
+}
+
+/**
+ * Delete a contact and its outreach records
+ */
+export async function deleteContact(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const removedOutreach = await deleteContactWithOutreach(String(req.user._id), req.params.id);
+
+    if (removedOutreach === null) {
+      throw new ApiError(404, 'Contact not found');
+    }
+
+    logger.info(`Deleted contact ${req.params.id} and ${removedOutreach} outreach record(s) for user: ${req.user._id}`);
+
+    res.status(200).json({
+      success: true,
+      data: {}
+    });
+  } catch (error) {
+    logger.error(`Error deleting contact: ${error}`);
+    next(error);
+  }
+}
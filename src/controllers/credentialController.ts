@@ -0,0 +1,257 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../utils/logger';
+import { ApiError, LlmProviderError, isDuplicateKeyError } from '../utils/errorHandler';
+import { isValidApiKeyFormat } from '../utils/validators';
+import {
+  createLlmProvider,
+  getProviderLabel,
+  isLlmProviderName,
+  providerRequiresApiKey,
+  verifyLlmProvider
+} from '../providers/providerRegistry';
+import {
+  activateCredential,
+  addCredential,
+  listCredentials,
+  removeCredential,
+  renameCredential,
+  toCredentialResponse,
+  verifyCredential
+} from '../services/credentialService';
+
+const MAX_LABEL_LENGTH = 50;
+
+/**
+ * Validate an optional credential label from the request body
+ */
+function parseLabel(label: unknown): string | undefined {
+  if (label === undefined || label === null || label === '') {
+    return undefined;
+  }
+
+  if (typeof label !== 'string' || !label.trim() || label.trim().length > MAX_LABEL_LENGTH) {
+    throw new ApiError(400, `Label must be a non-empty string of at most ${MAX_LABEL_LENGTH} characters`);
+  }
+
+  return label.trim();
+}
+
+/**
+ * Translate a duplicate label, or an activation that lost a race with another one, into a client error
+ */
+function toConflictError(error: unknown): unknown {
+  if (isDuplicateKeyError(error, 'label')) {
+    return new ApiError(409, 'A key with this label already exists for this provider');
+  }
+
+  if (isDuplicateKeyError(error)) {
+    return new ApiError(409, 'Your API keys were changed by another request. Please try again');
+  }
+
+  return error;
+}
+
+/**
+ * Get the authenticated user's stored API keys, optionally filtered by provider
+ */
+export async function getApiKeys(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const { provider } = req.query;
+
+    if (provider !== undefined && !isLlmProviderName(provider)) {
+      throw new ApiError(400, 'Unknown provider');
+    }
+
+    const credentials = await listCredentials(String(req.user._id), provider);
+
+    res.status(200).json({
+      success: true,
+      count: credentials.length,
+      data: credentials.map(toCredentialResponse)
+    });
+  } catch (error) {
+    logger.error(`Error fetching API keys: ${error}`);
+    next(error);
+  }
+}
+
+/**
+ * Store a new API key for a provider
+ * The key is verified with the provider before it is saved
+ */
+export async function createApiKey(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { provider, apiKey, activate } = req.body;
+
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    if (!isLlmProviderName(provider)) {
+      throw new ApiError(400, 'Provider must be one of: gemini, openai, anthropic, ollama');
+    }
+
+    const providerLabel = getProviderLabel(provider);
+
+    if (!providerRequiresApiKey(provider)) {
+      throw new ApiError(400, `${providerLabel} does not use API keys`);
+    }
+
+    if (!apiKey || typeof apiKey !== 'string') {
+      throw new ApiError(400, 'API key is required');
+    }
+
+    if (!isValidApiKeyFormat(apiKey)) {
+      throw new ApiError(400, 'Invalid API key format');
+    }
+
+    const label = parseLabel(req.body.label);
+
+    try {
+      await verifyLlmProvider(createLlmProvider(provider, { apiKey: apiKey.trim() }));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`${providerLabel} API key validation failed: ${errorMessage}`);
+
+      if (error instanceof LlmProviderError && error.code === 'invalid_api_key') {
+        throw new ApiError(400, `The provided ${providerLabel} API key is invalid`);
+      }
+
+      throw new ApiError(400, `Could not verify ${providerLabel} API key. Please check the key and try again.`);
+    }
+
+    const credential = await addCredential(String(req.user._id), {
+      provider,
+      apiKey: apiKey.trim(),
+      label,
+      activate: activate === true,
+      verified: true
+    }).catch(error => {
+      throw toConflictError(error);
+    });
+
+    logger.info(`${providerLabel} API key added for user: ${req.user.email}`);
+
+    res.status(201).json({
+      success: true,
+      data: toCredentialResponse(credential)
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Rename a stored API key
+ */
+export async function updateApiKey(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const label = parseLabel(req.body.label);
+
+    if (!label) {
+      throw new ApiError(400, 'Label is required');
+    }
+
+    const credential = await renameCredential(String(req.user._id), req.params.id, label).catch(error => {
+      throw toConflictError(error);
+    });
+
+    if (!credential) {
+      throw new ApiError(404, 'API key not found');
+    }
+
+    res.status(200).json({
+      success: true,
+      data: toCredentialResponse(credential)
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Make a stored API key the active key for its provider
+ */
+export async function activateApiKey(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const credential = await activateCredential(String(req.user._id), req.params.id).catch(error => {
+      throw toConflictError(error);
+    });
+
+    if (!credential) {
+      throw new ApiError(404, 'API key not found');
+    }
+
+    res.status(200).json({
+      success: true,
+      data: toCredentialResponse(credential)
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Verify a stored API key with its provider and record the result
+ */
+export async function verifyApiKey(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const result = await verifyCredential(String(req.user._id), req.params.id);
+
+    if (!result) {
+      throw new ApiError(404, 'API key not found');
+    }
+
+    res.status(200).json({
+      success: true,
+      valid: result.verification.valid,
+      message: result.verification.message,
+      data: toCredentialResponse(result.credential)
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Delete a stored API key
+ * When the active key is deleted, the newest remaining key of the same provider becomes active
+ */
+export async function deleteApiKey(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const credential = await removeCredential(String(req.user._id), req.params.id);
+
+    if (!credential) {
+      throw new ApiError(404, 'API key not found');
+    }
+
+    logger.info(`${getProviderLabel(credential.provider)} API key deleted for user: ${req.user.email}`);
+
+    res.status(200).json({
+      success: true,
+      message: 'API key deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+}
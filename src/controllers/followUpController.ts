@@ -0,0 +1,154 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { logger } from '../utils/logger';
+import { ApiError } from '../utils/errorHandler';
+import Referral, { IReferral } from '../models/referralModel';
+import { generateFollowUpMessage, generateStatusUpdateMessage, generateThankYouMessage } from '../services/aiService';
+import { FollowUpContext, FollowUpOptions, FollowUpType, GeneratedDraft } from '../types/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type FollowUpGenerator = (context: FollowUpContext, userId?: string, options?: FollowUpOptions) => Promise<GeneratedDraft>;
+
+/**
+ * Build the generator input from a stored referral
+ * The channel and tone of the referral request are kept unless the request asks for others
+ */
+function toFollowUpContext(referral: IReferral, req: Request): FollowUpContext {
+  return {
+    job: {
+      title: referral.jobTitle,
+      company: referral.companyName,
+      description: referral.jobDescription || ''
+    },
+    jobDetails: referral.jobDetails,
+    original: { subject: referral.subject, body: referral.message },
+    channel: req.body.channel || referral.channel,
+    tone: req.body.tone || referral.tone
+  };
+}
+
+/**
+ * Write a message of the given type for a referral in the user's history and store it on the referral
+ */
+async function writeFollowUp(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  type: FollowUpType,
+  generate: FollowUpGenerator
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const referralId = req.params.id;
+
+    if (!mongoose.Types.ObjectId.isValid(referralId)) {
+      throw new ApiError(404, 'Referral not found');
+    }
+
+    const referral = await Referral.findOne({
+      _id: referralId,
+      userId: req.user._id
+    }).select('+jobDescription');
+
+    if (!referral) {
+      throw new ApiError(404, 'Referral not found');
+    }
+
+    const options: FollowUpOptions = {
+      note: req.body.note?.trim() || undefined,
+      status: type === 'status_update' ? req.body.status : undefined,
+      // Without a day count the referral is assumed to have been sent when it was generated
+      daysSinceSent: type === 'follow_up'
+        ? req.body.daysSinceSent || Math.max(Math.floor((Date.now() - referral.createdAt.getTime()) / DAY_MS), 1)
+        : undefined
+    };
+    const context = toFollowUpContext(referral, req);
+
+    logger.info(`Writing ${type} message for referral ${referralId} (user: ${req.user._id})`);
+
+    const generated = await generate(context, String(req.user._id), options);
+
+    referral.followUps.push({
+      type,
+      subject: generated.subject,
+      message: generated.body,
+      channel: context.channel,
+      status: options.status,
+      daysSinceSent: options.daysSinceSent,
+      modelName: generated.modelName,
+      createdAt: new Date()
+    });
+    await referral.save();
+
+    const followUp = referral.followUps[referral.followUps.length - 1];
+
+    res.status(201).json({
+      success: true,
+      referralId,
+      data: followUp
+    });
+  } catch (error) {
+    logger.error(`Error writing ${type} message: ${error}`);
+    next(error);
+  }
+}
+
+/**
+ * Write a follow-up for a referral request that has had no reply
+ * daysSinceSent defaults to the days since the referral was generated
+ */
+export async function createFollowUp(req: Request, res: Response, next: NextFunction): Promise<void> {
+  return writeFollowUp(req, res, next, 'follow_up', generateFollowUpMessage);
+}
+
+/**
+ * Write a thank-you note for a referral that was given
+ */
+export async function createThankYou(req: Request, res: Response, next: NextFunction): Promise<void> {
+  return writeFollowUp(req, res, next, 'thank_you', generateThankYouMessage);
+}
+
+/**
+ * Write an update for the referrer on how the application is going
+ */
+export async function createStatusUpdate(req: Request, res: Response, next: NextFunction): Promise<void> {
+  return writeFollowUp(req, res, next, 'status_update', generateStatusUpdateMessage);
+}
+
+/**
+ * List the messages written after a referral request, oldest first
+ */
+export async function getFollowUps(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const referralId = req.params.id;
+
+    if (!mongoose.Types.ObjectId.isValid(referralId)) {
+      throw new ApiError(404, 'Referral not found');
+    }
+
+    const referral = await Referral.findOne({
+      _id: referralId,
+      userId: req.user._id
+    }).select('followUps');
+
+    if (!referral) {
+      throw new ApiError(404, 'Referral not found');
+    }
+
+    res.status(200).json({
+      success: true,
+      count: referral.followUps.length,
+      data: referral.followUps
+    });
+  } catch (error) {
+    next(error);
+  }
+}
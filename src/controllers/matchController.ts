@@ -0,0 +1,50 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../utils/logger';
+import { ApiError } from '../utils/errorHandler';
+import { JobPosting } from '../types/types';
+import { scrapeJobPosting } from '../services/crawlerService';
+import { extractJobDetailsFromContent } from '../services/aiService';
+import { getCandidateSummary, scoreJobMatch } from '../services/matchService';
+import { normalizeTitleAndCompany } from '../utils/parser';
+import { getJobDetails } from '../utils/jobNormalizer';
+
+/**
+ * Score how well the authenticated user fits a job posting
+ * The job is given as a supported jobUrl or as raw jobContent; the candidate comes from
+ * the user's candidate profile and resume
+ */
+export async function getMatchScore(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const userId = String(req.user._id);
+    const { jobUrl, jobContent } = req.body;
+
+    const candidate = await getCandidateSummary(userId);
+
+    if (!candidate) {
+      throw new ApiError(400, 'Upload a resume or create a candidate profile to get a match score');
+    }
+
+    logger.info(`Scoring job match for user: ${userId}${jobUrl ? ` (${jobUrl})` : ''}`);
+
+    const jobData: JobPosting = jobUrl
+      ? await scrapeJobPosting(jobUrl)
+      : await extractJobDetailsFromContent(jobContent, userId);
+
+    const { jobTitle, companyName } = normalizeTitleAndCompany(jobData.title, jobData.company);
+    const match = scoreJobMatch({ ...jobData, title: jobTitle, company: companyName }, candidate);
+
+    res.status(200).json({
+      success: true,
+      jobTitle,
+      companyName,
+      jobDetails: getJobDetails(jobData),
+      data: match
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,337 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { logger } from '../utils/logger';
+import { ApiError } from '../utils/errorHandler';
+import Outreach, { IOutreach } from '../models/outreachModel';
+import Contact from '../models/contactModel';
+import Referral from '../models/referralModel';
+import { applyOutreachStatus, getDueReminders, OUTREACH_STATUSES } from '../services/outreachService';
+import { parseOptionalDate, parseOptionalEnum, parseOptionalString, parseRequiredString } from '../utils/requestParsers';
+
+const DEFAULT_REMINDER_WINDOW_DAYS = 7;
+const MAX_REMINDER_WINDOW_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CONTACT_FIELDS = 'name company relationship role linkedInUrl email';
+
+/**
+ * Load one of the user's outreach records
+ * @throws ApiError if it does not exist or belongs to another user
+ */
+async function findOutreach(userId: string, outreachId: string): Promise<IOutreach> {
+  if (!mongoose.Types.ObjectId.isValid(outreachId)) {
+    throw new ApiError(404, 'Outreach not found');
+  }
+
+  const outreach = await Outreach.findOne({ _id: outreachId, userId });
+
+  if (!outreach) {
+    throw new ApiError(404, 'Outreach not found');
+  }
+
+  return outreach;
+}
+
+/**
+ * Read a reminder from the request body; null or an empty string clears it
+ * @returns undefined when the body does not mention a reminder
+ */
+function parseReminder(body: Record<string, unknown>): { remindAt?: Date; reminderNote?: string } | undefined {
+  if (!('remindAt' in body)) {
+    return undefined;
+  }
+
+  return {
+    remindAt: parseOptionalDate(body.remindAt, 'remindAt'),
+    reminderNote: parseOptionalString(body.reminderNote, 'reminderNote', 500)
+  };
+}
+
+/**
+ * Set or clear the reminder of an outreach; a reminder set by the user is never dropped automatically
+ */
+function setReminder(outreach: IOutreach, reminder: { remindAt?: Date; reminderNote?: string }): void {
+  outreach.remindAt = reminder.remindAt;
+  outreach.reminderNote = reminder.remindAt ? reminder.reminderNote : undefined;
+  outreach.autoReminder = false;
+}
+
+/**
+ * Get the authenticated user's outreach, most recently updated first
+ * Can be filtered by status, contactId and referralId
+ */
+export async function getOutreachList(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const filter: Record<string, unknown> = { userId: req.user._id };
+    const status = parseOptionalEnum(req.query.status, 'status', OUTREACH_STATUSES);
+
+    if (status) {
+      filter.status = status;
+    }
+
+    for (const field of ['contactId', 'referralId']) {
+      const value = req.query[field];
+      if (value === undefined) continue;
+
+      if (typeof value !== 'string' || !mongoose.Types.ObjectId.isValid(value)) {
+        throw new ApiError(400, `${field} must be a valid ID`);
+      }
+      filter[field] = value;
+    }
+
+    const outreach = await Outreach.find(filter)
+      .sort({ updatedAt: -1 })
+      .populate('contactId', CONTACT_FIELDS);
+
+    res.status(200).json({
+      success: true,
+      count: outreach.length,
+      data: outreach
+    });
+  } catch (error) {
+    logger.error(`Error fetching outreach: ${error}`);
+    next(error);
+  }
+}
+
+/**
+ * Get a single outreach record with its contact
+ */
+export async function getOutreachById(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const outreach = await findOutreach(String(req.user._id), req.params.id);
+    await outreach.populate('contactId', CONTACT_FIELDS);
+
+    res.status(200).json({
+      success: true,
+      data: outreach
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Start tracking a referral request to a contact
+ * The job title and company are taken from the referral when one is linked, otherwise from the body and the contact
+ */
+export async function createOutreach(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const body = req.body || {};
+    const contactId = parseRequiredString(body.contactId, 'contactId', 50);
+    const referralId = parseOptionalString(body.referralId, 'referralId', 50);
+    const status = parseOptionalEnum(body.status, 'status', OUTREACH_STATUSES) || 'drafted';
+    const note = parseOptionalString(body.note, 'note', 2000);
+    const reminder = parseReminder(body);
+
+    const contact = mongoose.Types.ObjectId.isValid(contactId)
+      ? await Contact.findOne({ _id: contactId, userId: req.user._id })
+      : null;
+
+    if (!contact) {
+      throw new ApiError(404, 'Contact not found');
+    }
+
+    let referral = null;
+    if (referralId) {
+      referral = mongoose.Types.ObjectId.isValid(referralId)
+        ? await Referral.findOne({ _id: referralId, userId: req.user._id }).select('jobTitle companyName')
+        : null;
+
+      if (!referral) {
+        throw new ApiError(404, 'Referral not found');
+      }
+    }
+
+    const outreach = new Outreach({
+      userId: req.user._id,
+      contactId: contact._id,
+      referralId: referral?._id,
+      jobTitle: referral?.jobTitle || parseOptionalString(body.jobTitle, 'jobTitle', 200),
+      companyName: referral?.companyName || parseOptionalString(body.companyName, 'companyName', 100) || contact.company
+    });
+
+    if (reminder) {
+      setReminder(outreach, reminder);
+    }
+    applyOutreachStatus(outreach, status);
+    if (note) {
+      outreach.notes.push({ text: note, createdAt: new Date() });
+    }
+
+    await outreach.save();
+    await outreach.populate('contactId', CONTACT_FIELDS);
+
+    logger.info(`Created outreach ${outreach._id} to contact ${contact._id} for user: ${req.user._id}`);
+
+    res.status(201).json({
+      success: true,
+      data: outreach
+    });
+  } catch (error) {
+    logger.error(`Error creating outreach: ${error}`);
+    next(error);
+  }
+}
+
+/**
+ * Update an outreach record's job title, company or reminder
+ * Status changes go through updateOutreachStatus so they are recorded in the history
+ */
+export async function updateOutreach(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const body = req.body || {};
+    const outreach = await findOutreach(String(req.user._id), req.params.id);
+
+    if ('jobTitle' in body) {
+      outreach.jobTitle = parseOptionalString(body.jobTitle, 'jobTitle', 200);
+    }
+    if ('companyName' in body) {
+      outreach.companyName = parseRequiredString(body.companyName, 'companyName', 100);
+    }
+
+    const reminder = parseReminder(body);
+    if (reminder) {
+      setReminder(outreach, reminder);
+    }
+
+    await outreach.save();
+    await outreach.populate('contactId', CONTACT_FIELDS);
+
+    res.status(200).json({
+      success: true,
+      data: outreach
+    });
+  } catch (error) {
+    logger.error(`Error updating outreach: ${error}`);
+    next(error);
+  }
+}
+
+/**
+ * Move an outreach record along the status pipeline, with an optional note on the change
+ */
+export async function updateOutreachStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const body = req.body || {};
+    const status = parseOptionalEnum(body.status, 'status', OUTREACH_STATUSES);
+
+    if (!status) {
+      throw new ApiError(400, 'status is required');
+    }
+
+    const outreach = await findOutreach(String(req.user._id), req.params.id);
+
+    if (applyOutreachStatus(outreach, status, parseOptionalString(body.note, 'note', 500))) {
+      await outreach.save();
+      logger.info(`Outreach ${outreach._id} is now ${status} (user: ${req.user._id})`);
+    }
+
+    await outreach.populate('contactId', CONTACT_FIELDS);
+
+    res.status(200).json({
+      success: true,
+      data: outreach
+    });
+  } catch (error) {
+    logger.error(`Error updating outreach status: ${error}`);
+    next(error);
+  }
+}
+
+/**
+ * Add a note to an outreach record
+ */
+export async function addOutreachNote(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const text = parseRequiredString(req.body?.text, 'text', 2000);
+    const outreach = await findOutreach(String(req.user._id), req.params.id);
+
+    outreach.notes.push({ text, createdAt: new Date() });
+    await outreach.save();
+
+    res.status(201).json({
+      success: true,
+      data: outreach.notes[outreach.notes.length - 1]
+    });
+  } catch (error) {
+    logger.error(`Error adding outreach note: ${error}`);
+    next(error);
+  }
+}
+
+/**
+ * Delete an outreach record; the contact and the referral are kept
+ */
+export async function deleteOutreach(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const outreach = await findOutreach(String(req.user._id), req.params.id);
+    await outreach.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      data: {}
+    });
+  } catch (error) {
+    logger.error(`Error deleting outreach: ${error}`);
+    next(error);
+  }
+}
+
+/**
+ * Get outreach with a reminder that is overdue or due within the next `days` days (default 7)
+ */
+export async function getOutreachReminders(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const days = req.query.days === undefined ? DEFAULT_REMINDER_WINDOW_DAYS : Number(req.query.days);
+
+    if (!Number.isInteger(days) || days < 0 || days > MAX_REMINDER_WINDOW_DAYS) {
+      throw new ApiError(400, `days must be a whole number from 0 to ${MAX_REMINDER_WINDOW_DAYS}`);
+    }
+
+    const now = Date.now();
+    const reminders = await getDueReminders(String(req.user._id), new Date(now + days * DAY_MS));
+
+    res.status(200).json({
+      success: true,
+      count: reminders.length,
+      overdue: reminders.filter(outreach => outreach.remindAt && outreach.remindAt.getTime() < now).length,
+      data: reminders
+    });
+  } catch (error) {
+    logger.error(`Error fetching outreach reminders: ${error}`);
+    next(error);
+  }
+}
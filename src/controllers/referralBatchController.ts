@@ -0,0 +1,92 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { logger } from '../utils/logger';
+import { ApiError } from '../utils/errorHandler';
+import { IReferralBatch } from '../models/referralBatchModel';
+import { countBatchItems, createReferralBatch, getReferralBatch as findReferralBatch, ReferralBatchInput } from '../services/referralBatchService';
+
+/**
+ * Shape a batch for API responses
+ */
+function toBatchResponse(batch: IReferralBatch) {
+  return {
+    batchId: String(batch._id),
+    status: batch.status,
+    total: batch.items.length,
+    counts: countBatchItems(batch),
+    options: batch.options,
+    items: batch.items.map((item, index) => ({
+      index,
+      sourceType: item.sourceType,
+      jobUrl: item.jobUrl,
+      jobId: item.jobId,
+      status: item.status,
+      stage: item.stage,
+      stageMessage: item.stageMessage,
+      result: item.result,
+      error: item.error
+    })),
+    createdAt: batch.createdAt,
+    completedAt: batch.completedAt
+  };
+}
+
+/**
+ * Start generating referral messages for up to MAX_BATCH_ITEMS job URLs and raw job contents
+ * Responds right away with the batch ID; poll getReferralBatch for per-item progress and results
+ */
+export async function generateReferralBatch(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const { channel, tone, length, variants } = req.body;
+    const jobUrls: string[] = [...new Set<string>(req.body.jobUrls || [])];
+    const jobContents: string[] = (req.body.jobContents || []).map((content: string) => content.trim());
+
+    const items: ReferralBatchInput[] = [
+      ...jobUrls.map(jobUrl => ({ jobUrl })),
+      ...jobContents.map(jobContent => ({ jobContent }))
+    ];
+
+    const batch = await createReferralBatch(String(req.user._id), items, { channel, tone, length, variants });
+
+    res.status(202).json({
+      success: true,
+      message: `Generating referral messages for ${items.length} job(s). Poll the batch for progress.`,
+      ...toBatchResponse(batch)
+    });
+  } catch (error) {
+    logger.error(`Error creating referral batch: ${error}`);
+    next(error);
+  }
+}
+
+/**
+ * Get the progress of a batch, with the result or error of each finished item
+ */
+export async function getReferralBatch(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(req.params.batchId)) {
+      throw new ApiError(404, 'Batch not found');
+    }
+
+    const batch = await findReferralBatch(req.params.batchId, String(req.user._id));
+
+    if (!batch) {
+      throw new ApiError(404, 'Batch not found');
+    }
+
+    res.status(200).json({
+      success: true,
+      ...toBatchResponse(batch)
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -1,9 +1,21 @@
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '../utils/logger';
+import { generateReferralMessage, generateReferralMessageStream, extractJobDetailsFromContent, getGenerationCacheScope, getMessageStyleKey } from '../services/aiService';
 import { scrapeJobPosting } from '../services/crawlerService';
-import { generateReferralMessage, extractJobDetailsFromContent } from '../services/aiService';
 import { ApiError } from '../utils/errorHandler';
-import NodeCache from 'node-cache';
+import { resolveJobId } from '../adapters/adapterRegistry';
+import { recordReferral } from '../services/referralHistoryService';
+import { enqueueReferralJob, getReferralJob, getReferralJobId, isFinishedJob, toProgressEvent } from '../services/jobQueueService';
+import { clearUserCache, invalidateUserJobCache } from '../services/cacheService';
+import { isTerminalStage, subscribeToProgress, ReferralProgressEvent } from '../services/progressService';
+import { normalizeTitleAndCompany } from '../utils/parser';
+import { getJobDetails } from '../utils/jobNormalizer';
+import { formatReferralDraft } from '../utils/messageChannels';
+import { createHashFromContent } from '../utils/contentHash';
+import { openSseStream, sendSseEvent, sendSseHeartbeat } from '../utils/sse';
+import { createCacheStore } from '../cache/cacheRegistry';
+import { getJobCacheKey } from '../cache/cacheKeys';
+import { JobDetails, MessageChannel, MessageOptions, ReferralDraft } from '../types/types';
 
 interface SuccessfulJobCacheEntry {
   status: 'completed';
@@ -12,131 +24,55 @@ interface SuccessfulJobCacheEntry {
   jobTitle: string;
   companyName: string;
   referralMessage: string;
+  subject?: string;
+  variants: ReferralDraft[];
+  channel?: MessageChannel;
+  referralId?: string;
+  jobDetails: JobDetails;
   timestamp: number;
   userId?: string;
 }
 
-interface FailedJobCacheEntry {
-  status: 'completed';
-  success: false;
-  jobId: string;
-  error: string;
-  timestamp: number;
-  userId?: string;
-}
-
-interface ProcessingJobCacheEntry {
-  status: 'processing';
-  jobId: string;
-  startedAt: number;
-  userId?: string;
-}
+// Progress streams also poll the queue so they notice work done by other server instances
+const PROGRESS_POLL_INTERVAL_MS = 3000;
+const PROGRESS_HEARTBEAT_INTERVAL_MS = 15000;
 
-type JobCacheEntry = SuccessfulJobCacheEntry | FailedJobCacheEntry | ProcessingJobCacheEntry;
-
-const jobCache = new NodeCache({
-  stdTTL: 3600, // 1 hour cache TTL for successful entries
-  checkperiod: 120, // Check for expired keys every 2 minutes
-  useClones: false
-});
+// 1 hour cache TTL for successful entries
+const jobCache = createCacheStore('referrals', 3600);
 
 /**
  * Generates a referral message for a job posting
  * Uses a two-phase response approach to improve perceived performance:
  * 1. Immediate acknowledge response with job ID and status
  * 2. Full response with generated referral message
+ * The work itself is queued and picked up by the background job worker
  */
 export async function generateReferral(req: Request, res: Response, next: NextFunction): Promise<void> {
   const { jobUrl } = req.body;
-  const startTime = Date.now();
+  const options = getMessageOptions(req);
   
   // Get user ID if authenticated
   const userId = req.user?._id?.toString();
   
   try {
-    logger.info(`Processing referral request for HireJobs URL: ${jobUrl}${userId ? ` (user: ${userId})` : ''}`);
+    logger.info(`Processing referral request for URL: ${jobUrl}${userId ? ` (user: ${userId})` : ''}`);
     
-    const jobId = extractJobId(jobUrl);
+    const jobId = getReferralJobId(extractJobId(jobUrl), options);
     logger.info(`Job ID: ${jobId}`);
     
-    // Use user ID in cache key if available
-    const cacheKey = userId ? `user:${userId}:job:${jobId}` : `job:${jobId}`;
-    const cachedResult = jobCache.get<JobCacheEntry>(cacheKey);
+    // Results are reused only while the template version and model stay the same
+    const generationScope = await getGenerationCacheScope(userId);
+    const job = await enqueueReferralJob({ jobId, jobUrl, userId, options, generationScope });
     
-    if (cachedResult && cachedResult.status === 'completed') {
-      logger.info(`Found completed result for job ID: ${jobId}`);
-      
-      if (!cachedResult.success) {
-        return next(new ApiError(422, cachedResult.error || 'Failed to process job data'));
-      }
-    } 
-    else if (cachedResult && cachedResult.status === 'processing') {
-      logger.info(`Job ID: ${jobId} is already being processed (started ${Date.now() - cachedResult.startedAt}ms ago)`);
-      if (Date.now() - cachedResult.startedAt > 120000) {
-        logger.warn(`Processing for job ID: ${jobId} appears stalled (${Date.now() - cachedResult.startedAt}ms)`);
-        jobCache.del(cacheKey);
-      }
+    if (job.status === 'failed') {
+      logger.info(`Found failed result for job ID: ${jobId}`);
+      return next(new ApiError(422, job.error || 'Failed to process job data'));
     }
-    else {
-      const processingEntry: ProcessingJobCacheEntry = {
-        status: 'processing',
-        jobId,
-        startedAt: Date.now(),
-        userId
-      };
-      jobCache.set(cacheKey, processingEntry);
-      
-      (async () => {
-        try {
-          const jobData = await scrapeJobPosting(jobUrl);
-          
-          let jobTitle = jobData.title.trim();
-          let companyName = jobData.company.trim();
-          
-          if (jobTitle.includes(' at ')) {
-            const titleParts = jobTitle.split(' at ');
-            jobTitle = titleParts[0].trim();
-            if (!companyName || companyName === 'the company') {
-              companyName = titleParts[1].trim();
-            }
-          }
-          
-          const referralMessage = await generateReferralMessage(
-            jobTitle,
-            companyName,
-            jobData.description,
-            userId
-          );
-          
-          const successEntry: SuccessfulJobCacheEntry = {
-            status: 'completed',
-            success: true,
-            jobId,
-            jobTitle,
-            companyName,
-            referralMessage,
-            timestamp: Date.now(),
-            userId
-          };
-          jobCache.set(cacheKey, successEntry);
-          
-          const processingTime = Date.now() - startTime;
-          logger.info(`Referral generation for ${jobId} completed in ${processingTime}ms`);
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          logger.error(`Async processing error for ${jobId}: ${errorMessage}`);
-          
-          const errorEntry: FailedJobCacheEntry = {
-            status: 'completed',
-            success: false,
-            jobId,
-            error: errorMessage,
-            timestamp: Date.now(),
-            userId
-          };
-          jobCache.set(cacheKey, errorEntry, 300);
-        }
-      })();
+    
+    if (job.status === 'succeeded') {
+      logger.info(`Found completed result for job ID: ${jobId}`);
+    } else {
+      logger.info(`Job ID: ${jobId} is ${job.status} (attempt ${job.attempts}/${job.maxAttempts})`);
     }
     
     res.status(202).json({
@@ -166,54 +102,59 @@ export async function getGeneratedReferral(req: Request, res: Response, next: Ne
     // Get user ID if authenticated
     const userId = req.user?._id?.toString();
     
-    const jobId = extractJobId(jobUrl);
+    const jobId = getReferralJobId(extractJobId(jobUrl), getMessageOptions(req));
     logger.info(`Retrieving referral for job ID: ${jobId}${userId ? ` (user: ${userId})` : ''}`);
     
-    // Use user ID in cache key if available
-    const cacheKey = userId ? `user:${userId}:job:${jobId}` : `job:${jobId}`;
-    const cachedResult = jobCache.get<JobCacheEntry>(cacheKey);
+    const job = await getReferralJob(jobId, userId);
     
-    if (!cachedResult) {
-      logger.info(`No cached result found for job ID: ${jobId}`);
+    if (!job) {
+      logger.info(`No queued or completed job found for job ID: ${jobId}`);
       throw new ApiError(404, 'Job referral not found. Please submit the job URL first.');
     }
     
-    if (cachedResult.status === 'processing') {
-      const elapsedTime = Date.now() - cachedResult.startedAt;
-      logger.info(`Job ID: ${jobId} is still processing (running for ${elapsedTime}ms)`);
-      
-      if (elapsedTime > 120000) {
-        logger.warn(`Processing for job ID: ${jobId} appears stalled (${elapsedTime}ms)`);
-        jobCache.del(cacheKey);
-        throw new ApiError(500, 'Processing is taking too long. Please try again.');
-      }
+    if (isFinishedJob(job) && job.generationScope !== await getGenerationCacheScope(userId)) {
+      logger.info(`Result for job ID: ${jobId} was generated with another template version or model`);
+      throw new ApiError(404, 'Your template or model has changed since this referral was generated. Please submit the job URL again.');
+    }
+    
+    if (job.status === 'queued' || job.status === 'running') {
+      const startedAt = (job.startedAt || job.createdAt).getTime();
+      const elapsedTime = Date.now() - startedAt;
+      logger.info(`Job ID: ${jobId} is still ${job.status} (attempt ${job.attempts}/${job.maxAttempts})`);
       
       res.status(202).json({
         success: true,
         status: 'processing',
+        queueStatus: job.status,
         message: 'Your request is still being processed. Please try again in a moment.',
         jobId,
+        attempts: job.attempts,
         processingTime: elapsedTime,
-        startedAt: cachedResult.startedAt,
+        startedAt,
         authenticated: !!userId
       });
       return;
     }
     
-    if (cachedResult.success) {
+    if (job.status === 'succeeded' && job.result) {
       res.status(200).json({
         success: true,
-        referralMessage: cachedResult.referralMessage,
-        jobTitle: cachedResult.jobTitle,
-        companyName: cachedResult.companyName,
+        referralMessage: job.result.referralMessage,
+        subject: job.result.subject,
+        variants: job.result.variants,
+        channel: job.result.channel,
+        referralId: job.result.referralId,
+        jobTitle: job.result.jobTitle,
+        companyName: job.result.companyName,
+        jobDetails: job.result.jobDetails,
         jobId,
         cached: true,
-        cachedAt: cachedResult.timestamp,
+        cachedAt: (job.completedAt || job.updatedAt).getTime(),
         authenticated: !!userId
       });
       return;
     } else {
-      throw new ApiError(422, cachedResult.error || 'Could not extract job details from HireJobs');
+      throw new ApiError(422, job.error || 'Could not extract job details from the job posting');
     }
     
   } catch (error) {
@@ -224,27 +165,106 @@ export async function getGeneratedReferral(req: Request, res: Response, next: Ne
 }
 
 /**
- * Clears the cache for a specific job ID, URL, or content
- * Useful when a job posting has been updated or when forcing a refresh
+ * Streams progress of a queued referral job as Server-Sent Events
+ * Sends the current stage immediately, then every stage change until the job completes or fails
+ */
+export async function streamReferralProgress(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const { jobId } = req.params;
+  const userId = req.user?._id?.toString();
+
+  try {
+    const job = await getReferralJob(jobId, userId);
+
+    if (!job) {
+      throw new ApiError(404, 'Job referral not found. Please submit the job URL first.');
+    }
+
+    logger.info(`Streaming progress for job ID: ${jobId}${userId ? ` (user: ${userId})` : ''}`);
+    openSseStream(res);
+
+    let lastEvent = toProgressEvent(job);
+    sendSseEvent(res, lastEvent.stage, lastEvent);
+
+    if (isTerminalStage(lastEvent.stage)) {
+      res.end();
+      return;
+    }
+
+    let closed = false;
+
+    const send = (event: ReferralProgressEvent) => {
+      if (closed || (event.stage === lastEvent.stage && event.message === lastEvent.message)) {
+        return;
+      }
+
+      lastEvent = event;
+      sendSseEvent(res, event.stage, event);
+
+      if (isTerminalStage(event.stage)) {
+        close();
+        res.end();
+      }
+    };
+
+    const unsubscribe = subscribeToProgress(String(job._id), send);
+
+    const pollTimer = setInterval(() => {
+      getReferralJob(jobId, userId)
+        .then(current => {
+          if (!current) {
+            send({ jobId, stage: 'failed', message: 'Job was removed', timestamp: Date.now(), error: 'Job referral not found' });
+            return;
+          }
+
+          send(toProgressEvent(current));
+        })
+        .catch(error => {
+          logger.warn(`Failed to poll progress for job ${jobId}: ${error instanceof Error ? error.message : String(error)}`);
+        });
+    }, PROGRESS_POLL_INTERVAL_MS);
+
+    const heartbeatTimer = setInterval(() => sendSseHeartbeat(res), PROGRESS_HEARTBEAT_INTERVAL_MS);
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      unsubscribe();
+      clearInterval(pollTimer);
+      clearInterval(heartbeatTimer);
+    };
+
+    req.on('close', close);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Error streaming referral progress: ${errorMessage}`);
+    next(error instanceof Error ? error : new Error(errorMessage));
+  }
+}
+
+/**
+ * Clears the user's cache for a specific job ID, URL, or content, or all of their entries
+ * Useful when a job posting has been updated or when forcing a refresh. Entries of other users are not touched;
+ * flushing every user's cache is an admin operation
  */
 export async function clearReferralCache(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
     const { jobUrl, jobContent, jobId } = req.body;
+    const userId = String(req.user._id);
     
-    // Get user ID if authenticated
-    const userId = req.user?._id?.toString();
-    
-    // Special case: clear all cache entries
+    // Special case: clear all of the user's cache entries
     if (jobUrl === 'all' || jobContent === 'all' || jobId === 'all') {
-      logger.info(`Clearing all cache entries${userId ? ` (requested by user: ${userId})` : ''}`);
+      logger.info(`Clearing all cache entries for user: ${userId}`);
       
-      const keysCount = jobCache.keys().length;
-      jobCache.flushAll();
+      const keysCount = await clearUserCache(userId);
       
       res.status(200).json({
         success: true,
         message: `All cache entries cleared (${keysCount} entries)`,
-        authenticated: !!userId
+        authenticated: true
       });
       return;
     }
@@ -255,41 +275,28 @@ export async function clearReferralCache(req: Request, res: Response, next: Next
     if (jobId) {
       requestJobId = jobId;
       cacheType = jobId.startsWith('content_') ? 'content' : 'job';
-      logger.info(`Clearing cache using provided job ID: ${requestJobId}${userId ? ` (user: ${userId})` : ''}`);
+      logger.info(`Clearing cache using provided job ID: ${requestJobId} (user: ${userId})`);
     } else if (jobUrl) {
       requestJobId = extractJobId(jobUrl);
       cacheType = 'job';
-      logger.info(`Clearing cache for job URL ID: ${requestJobId}${userId ? ` (user: ${userId})` : ''}`);
+      logger.info(`Clearing cache for job URL ID: ${requestJobId} (user: ${userId})`);
     } else if (jobContent) {
       requestJobId = createHashFromContent(jobContent);
       cacheType = 'content';
-      logger.info(`Clearing cache for job content hash: ${requestJobId}${userId ? ` (user: ${userId})` : ''}`);
+      logger.info(`Clearing cache for job content hash: ${requestJobId} (user: ${userId})`);
     } else {
       throw new ApiError(400, 'Either jobUrl, jobContent, or jobId is required');
     }
     
-    // Clear both authenticated and unauthenticated cache entries
-    const userCacheKey = userId ? `user:${userId}:${cacheType}:${requestJobId}` : '';
-    const anonymousCacheKey = `${cacheType}:${requestJobId}`;
-    
-    let existed = false;
-    
-    if (userCacheKey && jobCache.has(userCacheKey)) {
-      jobCache.del(userCacheKey);
-      existed = true;
-    }
-    
-    if (jobCache.has(anonymousCacheKey)) {
-      jobCache.del(anonymousCacheKey);
-      existed = true;
-    }
+    // Extracted details, messages for every option and the queued result are cleared together
+    const existed = await invalidateUserJobCache(userId, requestJobId) > 0;
     
     res.status(200).json({
       success: true,
       message: existed ? `Cache cleared for ${cacheType} ID: ${requestJobId}` : `No cache entry found for ${cacheType} ID: ${requestJobId}`,
       jobId: requestJobId,
       cacheType,
-      authenticated: !!userId
+      authenticated: true
     });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -299,11 +306,27 @@ export async function clearReferralCache(req: Request, res: Response, next: Next
 }
 
 /**
- * Extract job ID from HireJobs URL
+ * Read the optional channel, tone, length and variants of a generation request, already checked by validateMessageOptions
+ */
+function getMessageOptions(req: Request): MessageOptions {
+  const { channel, tone, length, variants } = req.body;
+  return { channel, tone, length, variants };
+}
+
+/**
+ * Cache key for a raw content result; other message options, templates and models are cached separately
+ */
+async function getContentCacheKey(jobContentHash: string, userId: string | undefined, options: MessageOptions): Promise<string> {
+  const scope = await getGenerationCacheScope(userId);
+  return getJobCacheKey(userId, jobContentHash, 'result', scope, getMessageStyleKey(options));
+}
+
+/**
+ * Extract job ID from a supported job URL
  */
 function extractJobId(url: string): string {
   try {
-    return url.split('/').pop() || 'unknown';
+    return resolveJobId(url);
   } catch (error) {
     return 'unknown';
   }
@@ -316,6 +339,7 @@ function extractJobId(url: string): string {
  */
 export async function processRawJobContent(req: Request, res: Response, next: NextFunction): Promise<void> {
   const { jobContent } = req.body;
+  const options = getMessageOptions(req);
   const startTime = Date.now();
   
   const userId = req.user?._id?.toString();
@@ -326,8 +350,8 @@ export async function processRawJobContent(req: Request, res: Response, next: Ne
     const jobContentHash = createHashFromContent(jobContent);
     logger.info(`Job content hash: ${jobContentHash}`);
     
-    const cacheKey = userId ? `user:${userId}:content:${jobContentHash}` : `content:${jobContentHash}`;
-    const cachedResult = jobCache.get<SuccessfulJobCacheEntry>(cacheKey);
+    const cacheKey = await getContentCacheKey(jobContentHash, userId, options);
+    const cachedResult = await jobCache.get<SuccessfulJobCacheEntry>(cacheKey);
     
     if (cachedResult && cachedResult.status === 'completed' && cachedResult.success) {
       logger.info(`Found completed result for job content hash: ${jobContentHash}`);
@@ -335,8 +359,13 @@ export async function processRawJobContent(req: Request, res: Response, next: Ne
       res.status(200).json({
         success: true,
         referralMessage: cachedResult.referralMessage,
+        subject: cachedResult.subject,
+        variants: cachedResult.variants,
+        channel: cachedResult.channel,
+        referralId: cachedResult.referralId,
         jobTitle: cachedResult.jobTitle,
         companyName: cachedResult.companyName,
+        jobDetails: cachedResult.jobDetails,
         jobId: jobContentHash,
         cached: true,
         cachedAt: cachedResult.timestamp,
@@ -350,23 +379,28 @@ export async function processRawJobContent(req: Request, res: Response, next: Ne
     
     const jobData = await extractJobDetailsFromContent(jobContent, userId);
 
-    let jobTitle = jobData.title.trim();
-    let companyName = jobData.company.trim();
+    const { jobTitle, companyName } = normalizeTitleAndCompany(jobData.title, jobData.company);
     
-    if (jobTitle.includes(' at ')) {
-      const titleParts = jobTitle.split(' at ');
-      jobTitle = titleParts[0].trim();
-      if (!companyName || companyName === 'the company') {
-        companyName = titleParts[1].trim();
-      }
-    }
-    
-    const referralMessage = await generateReferralMessage(
+    const generated = await generateReferralMessage(
       jobTitle,
       companyName,
       jobData.description,
-      userId
+      userId,
+      { ...options, jobId: jobContentHash, posting: jobData }
     );
+    const jobDetails = getJobDetails(jobData);
+    
+    const referralId = await recordReferral({
+      userId,
+      sourceType: 'content',
+      contentHash: jobContentHash,
+      jobId: jobContentHash,
+      jobTitle,
+      companyName,
+      jobDescription: jobData.description,
+      jobDetails,
+      generated
+    });
     
     const successEntry: SuccessfulJobCacheEntry = {
       status: 'completed',
@@ -374,20 +408,30 @@ export async function processRawJobContent(req: Request, res: Response, next: Ne
       jobId: jobContentHash,
       jobTitle,
       companyName,
-      referralMessage,
+      referralMessage: generated.message,
+      subject: generated.subject,
+      variants: generated.variants,
+      channel: generated.channel,
+      referralId,
+      jobDetails,
       timestamp: Date.now(),
       userId
     };
-    jobCache.set(cacheKey, successEntry);
+    await jobCache.set(cacheKey, successEntry);
     
     const processingTime = Date.now() - startTime;
     logger.info(`Referral generation for content hash ${jobContentHash} completed in ${processingTime}ms`);
     
     res.status(200).json({
       success: true,
-      referralMessage,
+      referralMessage: generated.message,
+      subject: generated.subject,
+      variants: generated.variants,
+      channel: generated.channel,
+      referralId,
       jobTitle,
       companyName,
+      jobDetails,
       jobId: jobContentHash,
       processingTime,
       cached: false,
@@ -402,21 +446,195 @@ export async function processRawJobContent(req: Request, res: Response, next: Ne
 }
 
 /**
- * Creates a hash from job content for caching purposes
+ * Generates a referral message for a job URL and streams it as Server-Sent Events
+ * Emits `progress` events while the page is fetched and parsed, `chunk` events with
+ * message text as the model produces it, then a `done` event with the cleaned message
  */
-function createHashFromContent(content: string): string {
+export async function streamReferralFromUrl(req: Request, res: Response): Promise<void> {
+  const { jobUrl } = req.body;
+  const options = getMessageOptions(req);
+  const userId = req.user?._id?.toString();
+  const sourceJobId = extractJobId(jobUrl);
+  const jobId = getReferralJobId(sourceJobId, options);
+
+  logger.info(`Streaming referral for URL: ${jobUrl}${userId ? ` (user: ${userId})` : ''}`);
+  openSseStream(res);
+
   try {
-    let hash = 0;
-    const normalizedContent = content.trim().substring(0, 1000);
-    
-    for (let i = 0; i < normalizedContent.length; i++) {
-      const char = normalizedContent.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
+    const job = await getReferralJob(jobId, userId);
+    const generationScope = await getGenerationCacheScope(userId);
+
+    if (job && job.status === 'succeeded' && job.result && job.generationScope === generationScope) {
+      job.result.variants.forEach((draft, variant) => sendSseEvent(res, 'chunk', { text: formatReferralDraft(draft), variant }));
+      sendSseEvent(res, 'done', {
+        success: true,
+        referralMessage: job.result.referralMessage,
+        subject: job.result.subject,
+        variants: job.result.variants,
+        channel: job.result.channel,
+        referralId: job.result.referralId,
+        jobTitle: job.result.jobTitle,
+        companyName: job.result.companyName,
+        jobDetails: job.result.jobDetails,
+        jobId,
+        cached: true,
+        authenticated: !!userId
+      });
+      return;
     }
-    
-    return `content_${Math.abs(hash)}`;
+
+    const jobData = await scrapeJobPosting(jobUrl, (stage, message) => {
+      sendSseEvent(res, 'progress', { stage, message });
+    });
+
+    sendSseEvent(res, 'progress', { stage: 'extracting', message: 'Extracting job details' });
+    const { jobTitle, companyName } = normalizeTitleAndCompany(jobData.title, jobData.company);
+
+    sendSseEvent(res, 'progress', { stage: 'generating', message: 'Writing your referral message' });
+    const generated = await generateReferralMessageStream(
+      jobTitle,
+      companyName,
+      jobData.description,
+      userId,
+      (text, variant) => sendSseEvent(res, 'chunk', { text, variant }),
+      { ...options, jobId: sourceJobId, jobUrl, posting: jobData }
+    );
+    const jobDetails = getJobDetails(jobData);
+
+    const referralId = await recordReferral({
+      userId,
+      sourceType: 'url',
+      sourceUrl: jobUrl,
+      jobId: sourceJobId,
+      jobTitle,
+      companyName,
+      jobDescription: jobData.description,
+      jobDetails,
+      generated
+    });
+
+    sendSseEvent(res, 'done', {
+      success: true,
+      referralMessage: generated.message,
+      subject: generated.subject,
+      variants: generated.variants,
+      channel: generated.channel,
+      referralId,
+      jobTitle,
+      companyName,
+      jobDetails,
+      jobId,
+      cached: false,
+      authenticated: !!userId
+    });
   } catch (error) {
-    return `content_${Date.now()}`;
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Error streaming referral for URL: ${errorMessage}`);
+    sendSseEvent(res, 'error', { success: false, message: errorMessage });
+  } finally {
+    res.end();
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Generates a referral message from raw job content and streams it as Server-Sent Events
+ * Uses the same events as streamReferralFromUrl
+ */
+export async function streamReferralFromContent(req: Request, res: Response): Promise<void> {
+  const { jobContent } = req.body;
+  const options = getMessageOptions(req);
+  const userId = req.user?._id?.toString();
+  const jobContentHash = createHashFromContent(jobContent);
+
+  logger.info(`Streaming referral for job content hash: ${jobContentHash}${userId ? ` (user: ${userId})` : ''}`);
+  openSseStream(res);
+
+  try {
+    const cacheKey = await getContentCacheKey(jobContentHash, userId, options);
+    const cachedResult = await jobCache.get<SuccessfulJobCacheEntry>(cacheKey);
+
+    if (cachedResult && cachedResult.status === 'completed' && cachedResult.success) {
+      cachedResult.variants.forEach((draft, variant) => sendSseEvent(res, 'chunk', { text: formatReferralDraft(draft), variant }));
+      sendSseEvent(res, 'done', {
+        success: true,
+        referralMessage: cachedResult.referralMessage,
+        subject: cachedResult.subject,
+        variants: cachedResult.variants,
+        channel: cachedResult.channel,
+        referralId: cachedResult.referralId,
+        jobTitle: cachedResult.jobTitle,
+        companyName: cachedResult.companyName,
+        jobDetails: cachedResult.jobDetails,
+        jobId: jobContentHash,
+        cached: true,
+        authenticated: !!userId
+      });
+      return;
+    }
+
+    sendSseEvent(res, 'progress', { stage: 'extracting', message: 'Extracting job details' });
+    const jobData = await extractJobDetailsFromContent(jobContent, userId);
+    const { jobTitle, companyName } = normalizeTitleAndCompany(jobData.title, jobData.company);
+
+    sendSseEvent(res, 'progress', { stage: 'generating', message: 'Writing your referral message' });
+    const generated = await generateReferralMessageStream(
+      jobTitle,
+      companyName,
+      jobData.description,
+      userId,
+      (text, variant) => sendSseEvent(res, 'chunk', { text, variant }),
+      { ...options, jobId: jobContentHash, posting: jobData }
+    );
+    const jobDetails = getJobDetails(jobData);
+
+    const referralId = await recordReferral({
+      userId,
+      sourceType: 'content',
+      contentHash: jobContentHash,
+      jobId: jobContentHash,
+      jobTitle,
+      companyName,
+      jobDescription: jobData.description,
+      jobDetails,
+      generated
+    });
+
+    const successEntry: SuccessfulJobCacheEntry = {
+      status: 'completed',
+      success: true,
+      jobId: jobContentHash,
+      jobTitle,
+      companyName,
+      referralMessage: generated.message,
+      subject: generated.subject,
+      variants: generated.variants,
+      channel: generated.channel,
+      referralId,
+      jobDetails,
+      timestamp: Date.now(),
+      userId
+    };
+    await jobCache.set(cacheKey, successEntry);
+
+    sendSseEvent(res, 'done', {
+      success: true,
+      referralMessage: generated.message,
+      subject: generated.subject,
+      variants: generated.variants,
+      channel: generated.channel,
+      referralId,
+      jobTitle,
+      companyName,
+      jobDetails,
+      jobId: jobContentHash,
+      cached: false,
+      authenticated: !!userId
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Error streaming referral for job content: ${errorMessage}`);
+    sendSseEvent(res, 'error', { success: false, message: errorMessage });
+  } finally {
+    res.end();
+  }
+}
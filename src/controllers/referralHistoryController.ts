@@ -0,0 +1,254 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { logger } from '../utils/logger';
+import { ApiError } from '../utils/errorHandler';
+import Referral from '../models/referralModel';
+import { refineReferralMessage } from '../services/aiService';
+import { ReferralDraft } from '../types/types';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Escape user input for use inside a regular expression
+ */
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Get the authenticated user's referral history
+ * Supports pagination (page, limit) and a free-text search (q) over job title, company and message
+ */
+export async function getReferrals(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const page = Math.max(parseInt(String(req.query.page || '1'), 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const search = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+
+    const filter: Record<string, unknown> = { userId: req.user._id };
+
+    if (search) {
+      const pattern = new RegExp(escapeRegex(search), 'i');
+      filter.$or = [
+        { jobTitle: pattern },
+        { companyName: pattern },
+        { message: pattern }
+      ];
+    }
+
+    logger.info(`Fetching referral history for user: ${req.user._id} (page ${page}${search ? `, search "${search}"` : ''})`);
+
+    const [referrals, total] = await Promise.all([
+      Referral.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Referral.countDocuments(filter)
+    ]);
+
+    res.status(200).json({
+      success: true,
+      count: referrals.length,
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+      data: referrals
+    });
+  } catch (error) {
+    logger.error(`Error fetching referral history: ${error}`);
+    next(error);
+  }
+}
+
+/**
+ * Get a single referral from the authenticated user's history
+ */
+export async function getReferralById(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const referralId = req.params.id;
+
+    if (!mongoose.Types.ObjectId.isValid(referralId)) {
+      throw new ApiError(404, 'Referral not found');
+    }
+
+    const referral = await Referral.findOne({
+      _id: referralId,
+      userId: req.user._id
+    }).select('+jobDescription');
+
+    if (!referral) {
+      throw new ApiError(404, 'Referral not found');
+    }
+
+    res.status(200).json({
+      success: true,
+      data: referral
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Delete a referral from the authenticated user's history
+ */
+export async function deleteReferral(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const referralId = req.params.id;
+    logger.info(`Deleting referral ${referralId} for user: ${req.user._id}`);
+
+    if (!mongoose.Types.ObjectId.isValid(referralId)) {
+      throw new ApiError(404, 'Referral not found');
+    }
+
+    const referral = await Referral.findOneAndDelete({
+      _id: referralId,
+      userId: req.user._id
+    });
+
+    if (!referral) {
+      throw new ApiError(404, 'Referral not found');
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {}
+    });
+  } catch (error) {
+    logger.error(`Error deleting referral: ${error}`);
+    next(error);
+  }
+}
+
+/**
+ * Revise a referral from the authenticated user's history following an instruction such as "make it shorter"
+ * The revision is stored as a new referral linked to the one it revises, so earlier versions are kept.
+ * An edited version of the message can be sent as message (and subject) to refine it instead of the stored one
+ */
+export async function refineReferral(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const referralId = req.params.id;
+
+    if (!mongoose.Types.ObjectId.isValid(referralId)) {
+      throw new ApiError(404, 'Referral not found');
+    }
+
+    const parent = await Referral.findOne({
+      _id: referralId,
+      userId: req.user._id
+    }).select('+jobDescription');
+
+    if (!parent) {
+      throw new ApiError(404, 'Referral not found');
+    }
+
+    const instruction = req.body.instruction.trim();
+    const current: ReferralDraft = typeof req.body.message === 'string'
+      ? { subject: req.body.subject?.trim() || undefined, body: req.body.message.trim() }
+      : { subject: parent.subject, body: parent.message };
+
+    logger.info(`Refining referral ${referralId} for user: ${req.user._id}`);
+
+    const refined = await refineReferralMessage(
+      current,
+      instruction,
+      { title: parent.jobTitle, company: parent.companyName, description: parent.jobDescription || '' },
+      String(req.user._id),
+      parent.channel
+    );
+
+    const revision = await Referral.create({
+      userId: parent.userId,
+      sourceType: parent.sourceType,
+      sourceUrl: parent.sourceUrl,
+      contentHash: parent.contentHash,
+      jobId: parent.jobId,
+      jobTitle: parent.jobTitle,
+      companyName: parent.companyName,
+      jobDescription: parent.jobDescription,
+      jobDetails: parent.jobDetails,
+      templateId: parent.templateId,
+      templateName: parent.templateName,
+      modelName: refined.modelName,
+      message: refined.body,
+      subject: refined.subject,
+      variants: [{ subject: refined.subject, body: refined.body }],
+      channel: parent.channel,
+      tone: parent.tone,
+      length: parent.length,
+      parentReferralId: parent._id,
+      rootReferralId: parent.rootReferralId || parent._id,
+      revision: (parent.revision || 1) + 1,
+      instruction
+    });
+
+    const data = revision.toObject();
+    delete data.jobDescription;
+
+    res.status(201).json({
+      success: true,
+      data
+    });
+  } catch (error) {
+    logger.error(`Error refining referral: ${error}`);
+    next(error);
+  }
+}
+
+/**
+ * Get every revision of a referral, from the original message to the latest refinement
+ * Refining the same revision twice gives two revisions with the same number
+ */
+export async function getReferralRevisions(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const referralId = req.params.id;
+
+    if (!mongoose.Types.ObjectId.isValid(referralId)) {
+      throw new ApiError(404, 'Referral not found');
+    }
+
+    const referral = await Referral.findOne({
+      _id: referralId,
+      userId: req.user._id
+    });
+
+    if (!referral) {
+      throw new ApiError(404, 'Referral not found');
+    }
+
+    const rootId = referral.rootReferralId || referral._id;
+    const revisions = await Referral.find({
+      userId: req.user._id,
+      $or: [{ _id: rootId }, { rootReferralId: rootId }]
+    }).sort({ revision: 1, createdAt: 1 });
+
+    res.status(200).json({
+      success: true,
+      count: revisions.length,
+      data: revisions
+    });
+  } catch (error) {
+    next(error);
+  }
+}
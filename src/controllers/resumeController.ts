@@ -0,0 +1,158 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../utils/logger';
+import { ApiError } from '../utils/errorHandler';
+import { extractResumeText, getResumeFileType, parseResume } from '../utils/resumeParser';
+import { IResume } from '../models/resumeModel';
+import { deleteResume as removeResume, getResume as findResume, ResumeUpload, saveResume } from '../services/resumeService';
+import { fillProfileFromResume } from '../services/candidateProfileService';
+
+const MIN_RESUME_TEXT_LENGTH = 100;
+const MAX_RESUME_TEXT_LENGTH = 50000;
+
+/**
+ * Shape a resume for API responses; the extracted text is not included
+ */
+function toResumeResponse(resume: IResume) {
+  return {
+    fileName: resume.fileName,
+    fileType: resume.fileType,
+    fileSize: resume.fileSize,
+    name: resume.name || null,
+    email: resume.email || null,
+    summary: resume.summary || null,
+    skills: resume.skills,
+    experience: resume.experience,
+    projects: resume.projects,
+    education: resume.education,
+    createdAt: resume.createdAt,
+    updatedAt: resume.updatedAt
+  };
+}
+
+/**
+ * Read the uploaded resume file, or pasted resume text from the JSON body
+ * @throws ApiError if there is no resume or its format is not supported
+ */
+async function readResumeUpload(req: Request): Promise<ResumeUpload> {
+  if (req.file) {
+    const fileType = getResumeFileType(req.file.originalname, req.file.mimetype);
+
+    if (!fileType) {
+      throw new ApiError(400, 'Unsupported resume format. Upload a PDF, DOCX or plain text file.');
+    }
+
+    let text: string;
+    try {
+      text = await extractResumeText(req.file.buffer, fileType);
+    } catch (error) {
+      logger.error(`Error extracting resume text: ${error instanceof Error ? error.message : String(error)}`);
+      throw new ApiError(400, 'Could not read the resume file. Please check that it is not corrupted or password protected.');
+    }
+
+    return {
+      fileName: req.file.originalname,
+      fileType,
+      fileSize: req.file.size,
+      text
+    };
+  }
+
+  if (typeof req.body?.text === 'string' && req.body.text.trim()) {
+    return {
+      fileName: 'resume.txt',
+      fileType: 'txt',
+      fileSize: Buffer.byteLength(req.body.text),
+      text: req.body.text.trim()
+    };
+  }
+
+  throw new ApiError(400, 'Upload a resume file in the "resume" field or send its text');
+}
+
+/**
+ * Upload and parse a resume, replacing the user's previous one
+ * Unless updateProfile=false is passed, missing candidate profile fields are filled from the resume
+ */
+export async function uploadResume(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const upload = await readResumeUpload(req);
+
+    if (upload.text.length < MIN_RESUME_TEXT_LENGTH) {
+      throw new ApiError(400, 'Could not find enough text in the resume. Scanned or image-only PDFs are not supported.');
+    }
+
+    if (upload.text.length > MAX_RESUME_TEXT_LENGTH) {
+      throw new ApiError(400, `Resume text must be at most ${MAX_RESUME_TEXT_LENGTH} characters`);
+    }
+
+    const userId = String(req.user._id);
+    const parsed = parseResume(upload.text);
+    const resume = await saveResume(userId, upload, parsed);
+    const profileUpdated = req.query.updateProfile === 'false' ? false : await fillProfileFromResume(userId, parsed);
+
+    logger.info(`Resume uploaded for user: ${req.user.email} (${parsed.experience.length} positions, ${parsed.skills.length} skills)`);
+
+    res.status(200).json({
+      success: true,
+      profileUpdated,
+      data: toResumeResponse(resume)
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get the authenticated user's parsed resume
+ */
+export async function getResume(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const resume = await findResume(String(req.user._id));
+
+    if (!resume) {
+      throw new ApiError(404, 'Resume not found');
+    }
+
+    res.status(200).json({
+      success: true,
+      data: toResumeResponse(resume)
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Delete the authenticated user's resume
+ * The candidate profile filled from it is kept
+ */
+export async function deleteResume(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const deleted = await removeResume(String(req.user._id));
+
+    if (!deleted) {
+      throw new ApiError(404, 'Resume not found');
+    }
+
+    logger.info(`Resume deleted for user: ${req.user.email}`);
+
+    res.status(200).json({
+      success: true,
+      message: 'Resume deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+}
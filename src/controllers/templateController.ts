@@ -1,7 +1,128 @@
 import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
 import { logger } from '../utils/logger';
 import { ApiError } from '../utils/errorHandler';
 import Template from '../models/templateModel';
+import { TemplateVariable } from '../types/types';
+import {
+  BUILT_IN_VARIABLES,
+  getVariableDefaults,
+  parsePlaceholders,
+  renderTemplate,
+  TemplateValues,
+  validateTemplate,
+  validateVariableValue
+} from '../utils/templateEngine';
+import { getCandidateContext } from '../services/candidateProfileService';
+
+const SAMPLE_JOB: TemplateValues = {
+  jobTitle: 'Senior Software Engineer',
+  companyName: 'Acme Corp',
+  location: 'Bengaluru, India',
+  jobUrl: 'https://example.com/jobs/12345',
+  skills: ['TypeScript', 'Node.js', 'MongoDB']
+};
+
+// Used to pick the candidate's most relevant projects when previewing
+const SAMPLE_JOB_DESCRIPTION = 'We are looking for a backend engineer experienced with TypeScript, Node.js and MongoDB.';
+
+// Fields a preview may override in the sample job
+const PREVIEW_JOB_FIELDS: TemplateVariable[] = [
+  ...BUILT_IN_VARIABLES.filter(variable => variable.source === 'job' || variable.name === 'skills'),
+  { name: 'description', type: 'string' }
+];
+const MAX_PREVIEW_VALUE_LENGTH = 10000;
+
+/**
+ * Read custom variable declarations from a request body
+ * @throws ApiError if the declarations are not a list of variable objects
+ */
+function parseTemplateVariables(input: unknown): TemplateVariable[] {
+  if (input === undefined || input === null) {
+    return [];
+  }
+
+  if (!Array.isArray(input)) {
+    throw new ApiError(400, 'Variables must be an array');
+  }
+
+  return input.map(item => {
+    if (!item || typeof item !== 'object' || typeof item.name !== 'string') {
+      throw new ApiError(400, 'Each variable must be an object with a name');
+    }
+
+    return {
+      name: item.name.trim(),
+      type: item.type || 'string',
+      description: typeof item.description === 'string' ? item.description : undefined,
+      defaultValue: item.defaultValue !== undefined && item.defaultValue !== null ? String(item.defaultValue) : undefined
+    };
+  });
+}
+
+/**
+ * Read preview values from a request body, keyed by variable name
+ * Values must be strings or numbers; list variables also accept an array of strings
+ * @throws ApiError if the input is not an object, names an unknown variable or has an invalid value
+ */
+function parsePreviewValues(input: unknown, field: string, variables: TemplateVariable[]): TemplateValues {
+  if (input === undefined || input === null) {
+    return {};
+  }
+
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new ApiError(400, `${field} must be an object`);
+  }
+
+  const types = new Map(variables.map(variable => [variable.name, variable.type]));
+  const values: TemplateValues = {};
+
+  for (const [name, value] of Object.entries(input)) {
+    const type = types.get(name);
+
+    if (!type) {
+      throw new ApiError(400, `Unknown ${field} field "${name}". Use one of: ${[...types.keys()].join(', ')}`);
+    }
+
+    if (type === 'list' && Array.isArray(value) && value.every(item => typeof item === 'string')) {
+      values[name] = value.map(item => item.trim()).filter(item => item);
+      continue;
+    }
+
+    if (typeof value !== 'string' && !(typeof value === 'number' && Number.isFinite(value))) {
+      throw new ApiError(400, `${field}.${name} must be ${type === 'list' ? 'a string or an array of strings' : 'a string'}`);
+    }
+
+    const text = String(value);
+
+    if (text.length > MAX_PREVIEW_VALUE_LENGTH) {
+      throw new ApiError(400, `${field}.${name} must be at most ${MAX_PREVIEW_VALUE_LENGTH} characters`);
+    }
+
+    const valueError = text.trim() ? validateVariableValue(type, text) : null;
+    if (valueError) {
+      throw new ApiError(400, `${field}.${name} ${valueError}`);
+    }
+
+    values[name] = type === 'list'
+      ? text.split(',').map(item => item.trim()).filter(item => item)
+      : text;
+  }
+
+  return values;
+}
+
+/**
+ * Reject templates with unknown or malformed placeholders
+ * @throws ApiError listing every problem found
+ */
+function assertValidTemplate(content: string, variables: TemplateVariable[]): void {
+  const errors = validateTemplate(content, variables);
+
+  if (errors.length > 0) {
+    throw new ApiError(400, `Invalid template: ${errors.join('; ')}`);
+  }
+}
 
 /**
  * Get all templates for the authenticated user
@@ -81,6 +202,9 @@ export async function createTemplate(req: Request, res: Response, next: NextFunc
       throw new ApiError(400, 'Name and content are required');
     }
     
+    const variables = parseTemplateVariables(req.body.variables);
+    assertValidTemplate(content, variables);
+    
     logger.info(`Creating new template "${name}" for user: ${req.user._id}`);
     
     if (isDefault) {
@@ -94,6 +218,7 @@ export async function createTemplate(req: Request, res: Response, next: NextFunc
     const template = await Template.create({
       name,
       content,
+      variables,
       isDefault: !!isDefault,
       userId: req.user._id
     });
@@ -135,6 +260,9 @@ export async function updateTemplate(req: Request, res: Response, next: NextFunc
       throw new ApiError(404, 'Template not found or you do not have permission to update it');
     }
 
+    const variables = req.body.variables !== undefined ? parseTemplateVariables(req.body.variables) : template.variables;
+    assertValidTemplate(content || template.content, variables);
+
     if (isDefault && !template.isDefault) {
       logger.info(`Setting template ${templateId} as default and removing existing defaults`);
       await Template.updateMany(
@@ -145,6 +273,7 @@ export async function updateTemplate(req: Request, res: Response, next: NextFunc
 
     if (name) template.name = name;
     if (content) template.content = content;
+    if (req.body.variables !== undefined) template.variables = variables;
     if (isDefault !== undefined) template.isDefault = isDefault;
 
     await template.save();
@@ -230,4 +359,254 @@ export async function getDefaultTemplate(req: Request, res: Response, next: Next
   } catch (error) {
     next(error);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * List the built-in template variables
+ */
+export function getTemplateVariables(_req: Request, res: Response, next: NextFunction): void {
+  try {
+    res.status(200).json({
+      success: true,
+      data: BUILT_IN_VARIABLES.map(({ name, type, source, description, fallback }) => ({
+        name,
+        type,
+        source,
+        description,
+        fallback
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Render a template against sample job data and the user's candidate profile and resume without calling the LLM
+ * Accepts a saved template (templateId) or unsaved content and variables;
+ * job and values override the sample data
+ */
+export async function previewTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const { templateId, job, values } = req.body;
+    let content: string = req.body.content;
+    let variables = parseTemplateVariables(req.body.variables);
+
+    if (templateId) {
+      if (!mongoose.Types.ObjectId.isValid(templateId)) {
+        throw new ApiError(404, 'Template not found');
+      }
+
+      const template = await Template.findOne({
+        _id: templateId,
+        $or: [
+          { userId: req.user._id },
+          { userId: { $exists: false } }
+        ]
+      });
+
+      if (!template) {
+        throw new ApiError(404, 'Template not found');
+      }
+
+      content = template.content;
+      variables = template.variables || [];
+    }
+
+    if (!content || typeof content !== 'string') {
+      throw new ApiError(400, 'Either templateId or content is required');
+    }
+
+    const jobValues = parsePreviewValues(job, 'job', PREVIEW_JOB_FIELDS);
+    const overrides = parsePreviewValues(values, 'values', [...BUILT_IN_VARIABLES, ...variables]);
+
+    const errors = validateTemplate(content, variables);
+    const candidate = await getCandidateContext(
+      String(req.user._id),
+      typeof jobValues.description === 'string' && jobValues.description.trim() ? jobValues.description : SAMPLE_JOB_DESCRIPTION
+    );
+    const sampleValues: TemplateValues = {
+      ...SAMPLE_JOB,
+      ...getVariableDefaults(variables),
+      ...candidate.values,
+      ...jobValues,
+      ...overrides
+    };
+    const { text, unresolved } = renderTemplate(content, sampleValues, true);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        rendered: text,
+        placeholders: [...new Set(parsePlaceholders(content).placeholders.map(placeholder => placeholder.name))],
+        unresolved,
+        valid: errors.length === 0,
+        errors
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get the system templates, shared by every user without a template of their own; admin only
+ */
+export async function getSystemTemplates(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const templates = await Template.find({ userId: { $exists: false } }).sort({ updatedAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      count: templates.length,
+      data: templates
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Create a system template; admin only
+ * A new default replaces the current system default
+ */
+export async function createSystemTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const { name, content, isDefault } = req.body;
+
+    if (!name || !content) {
+      throw new ApiError(400, 'Name and content are required');
+    }
+
+    const variables = parseTemplateVariables(req.body.variables);
+    assertValidTemplate(content, variables);
+
+    if (isDefault) {
+      await Template.updateMany(
+        { userId: { $exists: false }, isDefault: true },
+        { $set: { isDefault: false } }
+      );
+    }
+
+    const template = await Template.create({
+      name,
+      content,
+      variables,
+      isDefault: !!isDefault
+    });
+
+    logger.info(`System template "${name}" created by admin: ${req.user.email}`);
+
+    res.status(201).json({
+      success: true,
+      data: template
+    });
+  } catch (error) {
+    logger.error(`Error creating system template: ${error}`);
+    next(error);
+  }
+}
+
+/**
+ * Update a system template; admin only
+ * Messages cached with the previous version are no longer served
+ */
+export async function updateSystemTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const { name, content, isDefault } = req.body;
+    const templateId = req.params.id;
+
+    if (!mongoose.Types.ObjectId.isValid(templateId)) {
+      throw new ApiError(404, 'Template not found');
+    }
+
+    const template = await Template.findOne({
+      _id: templateId,
+      userId: { $exists: false }
+    });
+
+    if (!template) {
+      throw new ApiError(404, 'Template not found');
+    }
+
+    const variables = req.body.variables !== undefined ? parseTemplateVariables(req.body.variables) : template.variables;
+    assertValidTemplate(content || template.content, variables);
+
+    if (isDefault && !template.isDefault) {
+      await Template.updateMany(
+        { userId: { $exists: false }, isDefault: true },
+        { $set: { isDefault: false } }
+      );
+    }
+
+    if (name) template.name = name;
+    if (content) template.content = content;
+    if (req.body.variables !== undefined) template.variables = variables;
+    if (isDefault !== undefined) template.isDefault = isDefault;
+
+    await template.save();
+
+    logger.info(`System template ${templateId} updated by admin: ${req.user.email}`);
+
+    res.status(200).json({
+      success: true,
+      data: template
+    });
+  } catch (error) {
+    logger.error(`Error updating system template: ${error}`);
+    next(error);
+  }
+}
+
+/**
+ * Delete a system template; admin only
+ * Without a system default, users without their own default get the built-in template
+ */
+export async function deleteSystemTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new ApiError(401, 'Not authorized');
+    }
+
+    const templateId = req.params.id;
+
+    if (!mongoose.Types.ObjectId.isValid(templateId)) {
+      throw new ApiError(404, 'Template not found');
+    }
+
+    const template = await Template.findOneAndDelete({
+      _id: templateId,
+      userId: { $exists: false }
+    });
+
+    if (!template) {
+      throw new ApiError(404, 'Template not found');
+    }
+
+    logger.info(`System template ${templateId} deleted by admin: ${req.user.email}`);
+
+    res.status(200).json({
+      success: true,
+      data: {}
+    });
+  } catch (error) {
+    logger.error(`Error deleting system template: ${error}`);
+    next(error);
+  }
+}
@@ -2,7 +2,9 @@ import { Request, Response, NextFunction } from 'express';
 import { logger } from '../utils/logger';
 import { validateUrlAccessibility } from '../utils/urlValidator';
 import { ApiError } from '../utils/errorHandler';
-import NodeCache from 'node-cache';
+import { createCacheStore } from '../cache/cacheRegistry';
+import { getUserCachePrefix } from '../cache/cacheKeys';
+import { canonicalizeJobUrl } from '../utils/urlNormalizer';
 
 interface UrlValidationCacheEntry {
   valid: boolean;
@@ -10,10 +12,7 @@ interface UrlValidationCacheEntry {
   userId?: string;
 }
 
-const urlValidationCache = new NodeCache({
-  stdTTL: 1800,
-  checkperiod: 60
-});
+const urlValidationCache = createCacheStore('url-validation', 1800);
 
 /**
  * Validates if a job URL is accessible
@@ -29,8 +28,9 @@ export async function validateUrlStatus(req: Request, res: Response, next: NextF
     logger.info(`Validating job URL: ${jobUrl}${userId ? ` (user: ${userId})` : ''}`);
     
     // Use user ID in cache key if available
-    const cacheKey = userId ? `user:${userId}:url:${jobUrl}` : `url:${jobUrl}`;
-    const cachedResult = urlValidationCache.get<UrlValidationCacheEntry>(cacheKey);
+    const canonicalUrl = canonicalizeJobUrl(jobUrl);
+    const cacheKey = `${getUserCachePrefix(userId)}url:${canonicalUrl}`;
+    const cachedResult = await urlValidationCache.get<UrlValidationCacheEntry>(cacheKey);
     
     if (cachedResult) {
       logger.info(`Using cached URL validation result for ${jobUrl}: ${cachedResult.valid}`);
@@ -56,7 +56,7 @@ export async function validateUrlStatus(req: Request, res: Response, next: NextF
       timestamp: Date.now(),
       userId
     };
-    urlValidationCache.set(cacheKey, cacheEntry);
+    await urlValidationCache.set(cacheKey, cacheEntry);
     
     res.status(200).json({
       success: true,
@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken } from '../utils/jwtUtils';
-import User from '../models/userModel';
+import User, { UserRole } from '../models/userModel';
 import { ApiError } from '../utils/errorHandler';
 import { logger } from '../utils/logger';
 
@@ -45,6 +45,11 @@ export async function protect(req: Request, _res: Response, next: NextFunction):
       next(new ApiError(401, 'Not authorized, user not found'));
       return;
     }
+
+    if (user.disabled) {
+      next(new ApiError(403, 'Your account has been disabled'));
+      return;
+    }
     
     // Attach user and token to request
     req.user = user;
@@ -56,4 +61,41 @@ export async function protect(req: Request, _res: Response, next: NextFunction):
     logger.error(`Auth middleware error: ${error instanceof Error ? error.message : String(error)}`);
     next(new ApiError(401, 'Not authorized, authentication failed'));
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Check whether an email is listed in ADMIN_EMAILS (comma separated, case-insensitive)
+ * Listed users are always admins: they are promoted when they sign in and cannot be demoted through the admin API
+ */
+export function isAdminEmail(email?: string): boolean {
+  if (!email) {
+    return false;
+  }
+
+  const adminEmails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(adminEmail => adminEmail.trim().toLowerCase())
+    .filter(adminEmail => adminEmail);
+
+  return adminEmails.includes(email.toLowerCase());
+}
+
+/**
+ * Middleware to restrict routes to users with one of the given roles; use after protect
+ * e.g. router.use(protect, authorize('admin'))
+ */
+export function authorize(...roles: UserRole[]) {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      next(new ApiError(401, 'Not authorized'));
+      return;
+    }
+
+    if (!roles.includes(req.user.role || 'user')) {
+      next(new ApiError(403, 'You do not have permission to perform this action'));
+      return;
+    }
+
+    next();
+  };
+}
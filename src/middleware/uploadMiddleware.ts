@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { ApiError } from '../utils/errorHandler';
+
+export const MAX_RESUME_SIZE_MB = 5;
+
+const resumeUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_RESUME_SIZE_MB * 1024 * 1024, files: 1 }
+}).single('resume');
+
+/**
+ * Middleware to accept a single resume file in the "resume" multipart field
+ * The file is kept in memory; requests that are not multipart pass through untouched
+ */
+export function handleResumeUpload(req: Request, res: Response, next: NextFunction): void {
+  resumeUpload(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      next(error.code === 'LIMIT_FILE_SIZE'
+        ? new ApiError(413, `Resume must be at most ${MAX_RESUME_SIZE_MB} MB`)
+        : new ApiError(400, `Invalid resume upload: ${error.message}`));
+      return;
+    }
+
+    next(error);
+  });
+}
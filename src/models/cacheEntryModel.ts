@@ -0,0 +1,51 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/** _id is "<namespace>:<key>" */
+export interface ICacheEntry extends Document<string> {
+  namespace: string;
+  key: string;
+  /** JSON encoded, so values are stored exactly as the other backends store them */
+  value: string;
+  storedAt: Date;
+  expiresAt: Date;
+}
+
+const cacheEntrySchema = new Schema<ICacheEntry>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    namespace: {
+      type: String,
+      required: true,
+    },
+    key: {
+      type: String,
+      required: true,
+    },
+    value: {
+      type: String,
+      required: true,
+    },
+    storedAt: {
+      type: Date,
+      required: true,
+    },
+    // Removed by MongoDB after this time; the TTL monitor only runs once a minute, so reads check it too
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    versionKey: false,
+  }
+);
+
+cacheEntrySchema.index({ namespace: 1, key: 1 });
+cacheEntrySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const CacheEntry = mongoose.model<ICacheEntry>('CacheEntry', cacheEntrySchema);
+
+export default CacheEntry;
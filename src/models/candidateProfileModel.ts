@@ -0,0 +1,106 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { CandidateLink, CandidateProfileData, CandidateProject } from '../types/types';
+
+export interface ICandidateProfile extends CandidateProfileData, Document {
+  userId: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const candidateProjectSchema = new Schema<CandidateProject>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    description: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 500,
+    },
+    technologies: {
+      type: [String],
+      default: [],
+    },
+    url: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    _id: false,
+  }
+);
+
+const candidateLinkSchema = new Schema<CandidateLink>(
+  {
+    label: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 50,
+    },
+    url: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+  },
+  {
+    _id: false,
+  }
+);
+
+const candidateProfileSchema = new Schema<ICandidateProfile>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      unique: true,
+    },
+    name: {
+      type: String,
+      trim: true,
+      maxlength: 100,
+    },
+    currentRole: {
+      type: String,
+      trim: true,
+      maxlength: 100,
+    },
+    currentCompany: {
+      type: String,
+      trim: true,
+      maxlength: 100,
+    },
+    yearsOfExperience: {
+      type: Number,
+      min: 0,
+      max: 60,
+    },
+    skills: {
+      type: [String],
+      default: [],
+    },
+    // Ordered by the user's preference; the most relevant ones are picked per job
+    projects: {
+      type: [candidateProjectSchema],
+      default: [],
+    },
+    links: {
+      type: [candidateLinkSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const CandidateProfile = mongoose.model<ICandidateProfile>('CandidateProfile', candidateProfileSchema);
+
+export default CandidateProfile;
@@ -0,0 +1,69 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { ContactRelationship } from '../types/types';
+
+export interface IContact extends Document {
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  company: string;
+  relationship: ContactRelationship;
+  role?: string;
+  linkedInUrl?: string;
+  email?: string;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const contactSchema = new Schema<IContact>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    company: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    relationship: {
+      type: String,
+      enum: ['colleague', 'former_colleague', 'alumni', 'friend', 'recruiter', 'hiring_manager', 'other'],
+      default: 'other',
+    },
+    role: {
+      type: String,
+      trim: true,
+      maxlength: 100,
+    },
+    linkedInUrl: {
+      type: String,
+      trim: true,
+    },
+    email: {
+      type: String,
+      trim: true,
+      lowercase: true,
+    },
+    notes: {
+      type: String,
+      maxlength: 2000,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+contactSchema.index({ userId: 1, company: 1, name: 1 });
+
+const Contact = mongoose.model<IContact>('Contact', contactSchema);
+
+export default Contact;
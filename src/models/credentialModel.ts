@@ -0,0 +1,83 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { LlmProviderName } from '../types/types';
+
+export type CredentialStatus = 'unverified' | 'valid' | 'invalid';
+
+export interface ICredential extends Document {
+  userId: mongoose.Types.ObjectId;
+  provider: LlmProviderName;
+  label: string;
+  encryptedKey: string;
+  // Only set for keys encrypted with the legacy AES-256-CTR scheme
+  iv?: string;
+  keyPreview: string;
+  isActive: boolean;
+  status: CredentialStatus;
+  lastVerifiedAt?: Date;
+  lastUsedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const credentialSchema = new Schema<ICredential>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    provider: {
+      type: String,
+      enum: ['gemini', 'openai', 'anthropic', 'ollama'],
+      required: true,
+    },
+    label: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 50,
+    },
+    encryptedKey: {
+      type: String,
+      required: true,
+      select: false, // Don't include in query results by default
+    },
+    iv: {
+      type: String,
+      select: false, // Don't include in query results by default
+    },
+    keyPreview: {
+      type: String,
+      required: true,
+    },
+    isActive: {
+      type: Boolean,
+      default: false,
+    },
+    status: {
+      type: String,
+      enum: ['unverified', 'valid', 'invalid'],
+      default: 'unverified',
+    },
+    lastVerifiedAt: {
+      type: Date,
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+credentialSchema.index({ userId: 1, provider: 1, label: 1 }, { unique: true });
+// At most one active credential per provider for each user
+credentialSchema.index(
+  { userId: 1, provider: 1 },
+  { unique: true, partialFilterExpression: { isActive: true } }
+);
+
+const Credential = mongoose.model<ICredential>('Credential', credentialSchema);
+
+export default Credential;
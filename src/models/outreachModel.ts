@@ -0,0 +1,137 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { OutreachStatus } from '../types/types';
+
+export interface IOutreachStatusChange {
+  status: OutreachStatus;
+  changedAt: Date;
+  note?: string;
+}
+
+export interface IOutreachNote {
+  text: string;
+  createdAt: Date;
+}
+
+export interface IOutreach extends Document {
+  userId: mongoose.Types.ObjectId;
+  contactId: mongoose.Types.ObjectId;
+  referralId?: mongoose.Types.ObjectId;
+  jobTitle?: string;
+  companyName: string;
+  status: OutreachStatus;
+  statusHistory: IOutreachStatusChange[];
+  notes: IOutreachNote[];
+  sentAt?: Date;
+  remindAt?: Date;
+  reminderNote?: string;
+  autoReminder: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OUTREACH_STATUSES = ['drafted', 'sent', 'replied', 'referred', 'declined', 'interviewing'];
+
+const statusChangeSchema = new Schema<IOutreachStatusChange>(
+  {
+    status: {
+      type: String,
+      enum: OUTREACH_STATUSES,
+      required: true,
+    },
+    changedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    note: {
+      type: String,
+      maxlength: 500,
+    },
+  },
+  {
+    _id: false,
+  }
+);
+
+const noteSchema = new Schema<IOutreachNote>(
+  {
+    text: {
+      type: String,
+      required: true,
+      maxlength: 2000,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  }
+);
+
+const outreachSchema = new Schema<IOutreach>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    contactId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Contact',
+      required: true,
+    },
+    // The generated referral message sent to the contact, if any
+    referralId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Referral',
+    },
+    // Copied from the referral or the contact so lists need no joins
+    jobTitle: {
+      type: String,
+      trim: true,
+    },
+    companyName: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    status: {
+      type: String,
+      enum: OUTREACH_STATUSES,
+      default: 'drafted',
+    },
+    // Every status the outreach has been in, oldest first
+    statusHistory: {
+      type: [statusChangeSchema],
+      default: [],
+    },
+    notes: {
+      type: [noteSchema],
+      default: [],
+    },
+    sentAt: {
+      type: Date,
+    },
+    remindAt: {
+      type: Date,
+    },
+    reminderNote: {
+      type: String,
+      maxlength: 500,
+    },
+    // Set when the reminder is the follow-up reminder added on sending, which is dropped once the contact replies
+    autoReminder: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+outreachSchema.index({ userId: 1, updatedAt: -1 });
+outreachSchema.index({ userId: 1, contactId: 1 });
+outreachSchema.index({ userId: 1, remindAt: 1 });
+
+const Outreach = mongoose.model<IOutreach>('Outreach', outreachSchema);
+
+export default Outreach;
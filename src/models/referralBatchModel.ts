@@ -0,0 +1,135 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { MessageOptions, ReferralStage } from '../types/types';
+import { IReferralJobResult } from './referralJobModel';
+import { jobDetailsSchema, referralDraftSchema } from './referralModel';
+
+export type ReferralBatchStatus = 'running' | 'completed';
+export type ReferralBatchItemStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface IReferralBatchItem {
+  sourceType: 'url' | 'content';
+  jobUrl?: string;
+  /** Job posting ID for URLs, content hash for raw content */
+  jobId: string;
+  /** Queue job that generates the item's message; items for the same job and options share one */
+  queueJobId: string;
+  status: ReferralBatchItemStatus;
+  stage: ReferralStage;
+  stageMessage?: string;
+  result?: IReferralJobResult;
+  error?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+export interface IReferralBatch extends Document {
+  userId: mongoose.Types.ObjectId;
+  options?: MessageOptions;
+  status: ReferralBatchStatus;
+  items: IReferralBatchItem[];
+  completedAt?: Date;
+  expiresAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const referralBatchItemSchema = new Schema<IReferralBatchItem>(
+  {
+    sourceType: {
+      type: String,
+      enum: ['url', 'content'],
+      required: true,
+    },
+    jobUrl: {
+      type: String,
+    },
+    jobId: {
+      type: String,
+      required: true,
+    },
+    queueJobId: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'running', 'succeeded', 'failed'],
+      default: 'queued',
+    },
+    stage: {
+      type: String,
+      enum: ['queued', 'fetching', 'parsing', 'extracting', 'generating', 'completed', 'failed'],
+      default: 'queued',
+    },
+    stageMessage: {
+      type: String,
+    },
+    result: {
+      jobTitle: String,
+      companyName: String,
+      referralMessage: String,
+      subject: String,
+      variants: [referralDraftSchema],
+      channel: String,
+      referralId: String,
+      jobDetails: jobDetailsSchema,
+    },
+    error: {
+      type: String,
+    },
+    startedAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    _id: false,
+  }
+);
+
+const referralBatchSchema = new Schema<IReferralBatch>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    // Message options shared by every item
+    options: {
+      channel: { type: String, enum: ['email', 'linkedin_note', 'inmail', 'short_dm'] },
+      tone: { type: String, enum: ['formal', 'friendly', 'concise'] },
+      length: { type: String, enum: ['short', 'medium', 'long'] },
+      variants: { type: Number, min: 1, max: 5 },
+    },
+    status: {
+      type: String,
+      enum: ['running', 'completed'],
+      default: 'running',
+    },
+    // In submission order
+    items: {
+      type: [referralBatchItemSchema],
+      default: [],
+    },
+    completedAt: {
+      type: Date,
+    },
+    // Finished batches are removed by MongoDB after this time
+    expiresAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+referralBatchSchema.index({ userId: 1, createdAt: -1 });
+referralBatchSchema.index({ userId: 1, 'items.queueJobId': 1 });
+referralBatchSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const ReferralBatch = mongoose.model<IReferralBatch>('ReferralBatch', referralBatchSchema);
+
+export default ReferralBatch;
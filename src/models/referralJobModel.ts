@@ -0,0 +1,140 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { JobDetails, MessageChannel, MessageOptions, ReferralDraft, ReferralStage } from '../types/types';
+import { jobDetailsSchema, referralDraftSchema } from './referralModel';
+
+export type ReferralJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface IReferralJobResult {
+  jobTitle: string;
+  companyName: string;
+  referralMessage: string;
+  subject?: string;
+  variants: ReferralDraft[];
+  channel?: MessageChannel;
+  referralId?: string;
+  jobDetails?: JobDetails;
+}
+
+export interface IReferralJob extends Document {
+  jobId: string;
+  userId?: mongoose.Types.ObjectId;
+  /** Either the job URL to scrape or the raw job content is set */
+  jobUrl?: string;
+  jobContent?: string;
+  options?: MessageOptions;
+  generationScope?: string;
+  status: ReferralJobStatus;
+  stage: ReferralStage;
+  stageMessage?: string;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  leaseExpiresAt?: Date;
+  workerId?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  result?: IReferralJobResult;
+  error?: string;
+  expiresAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const referralJobSchema = new Schema<IReferralJob>(
+  {
+    jobId: {
+      type: String,
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: false,
+    },
+    jobUrl: {
+      type: String,
+    },
+    // Raw job posting text, for jobs submitted as content instead of a URL
+    jobContent: {
+      type: String,
+    },
+    // Requested channel, tone, length and variants; jobs with different options have different job IDs
+    options: {
+      channel: { type: String, enum: ['email', 'linkedin_note', 'inmail', 'short_dm'] },
+      tone: { type: String, enum: ['formal', 'friendly', 'concise'] },
+      length: { type: String, enum: ['short', 'medium', 'long'] },
+      variants: { type: Number, min: 1, max: 5 },
+    },
+    // Template version and model the result is written with, e.g. "<templateId>@<version>:gemini/gemini-2.0-flash"
+    generationScope: {
+      type: String,
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'running', 'succeeded', 'failed'],
+      default: 'queued',
+    },
+    // Latest progress stage, so progress streams on any instance can catch up
+    stage: {
+      type: String,
+      enum: ['queued', 'fetching', 'parsing', 'extracting', 'generating', 'completed', 'failed'],
+      default: 'queued',
+    },
+    stageMessage: {
+      type: String,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    maxAttempts: {
+      type: Number,
+      default: 3,
+    },
+    runAt: {
+      type: Date,
+      default: Date.now,
+    },
+    leaseExpiresAt: {
+      type: Date,
+    },
+    workerId: {
+      type: String,
+    },
+    startedAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+    result: {
+      jobTitle: String,
+      companyName: String,
+      referralMessage: String,
+      subject: String,
+      variants: [referralDraftSchema],
+      channel: String,
+      referralId: String,
+      jobDetails: jobDetailsSchema,
+    },
+    error: {
+      type: String,
+    },
+    // Finished jobs are kept as a result cache until this time, then removed by MongoDB
+    expiresAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+referralJobSchema.index({ userId: 1, jobId: 1 }, { unique: true });
+referralJobSchema.index({ status: 1, runAt: 1 });
+referralJobSchema.index({ status: 1, leaseExpiresAt: 1 });
+referralJobSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const ReferralJob = mongoose.model<IReferralJob>('ReferralJob', referralJobSchema);
+
+export default ReferralJob;
@@ -0,0 +1,248 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { ApplicationStatus, FollowUpType, JobDetails, MessageChannel, MessageLength, MessageTone, ReferralDraft } from '../types/types';
+
+export interface IReferralFollowUp {
+  type: FollowUpType;
+  subject?: string;
+  message: string;
+  channel?: MessageChannel;
+  status?: ApplicationStatus;
+  daysSinceSent?: number;
+  modelName: string;
+  createdAt: Date;
+}
+
+export interface IReferral extends Document {
+  userId: mongoose.Types.ObjectId;
+  sourceType: 'url' | 'content';
+  sourceUrl?: string;
+  contentHash?: string;
+  jobId: string;
+  jobTitle: string;
+  companyName: string;
+  jobDescription?: string;
+  jobDetails?: JobDetails;
+  templateId?: mongoose.Types.ObjectId;
+  templateName?: string;
+  modelName: string;
+  message: string;
+  subject?: string;
+  variants: ReferralDraft[];
+  channel?: MessageChannel;
+  tone?: MessageTone;
+  length?: MessageLength;
+  parentReferralId?: mongoose.Types.ObjectId;
+  rootReferralId?: mongoose.Types.ObjectId;
+  revision: number;
+  instruction?: string;
+  followUps: IReferralFollowUp[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A generated draft with its subject line, shared with the referral job queue result
+ */
+export const referralDraftSchema = new Schema<ReferralDraft>(
+  {
+    subject: {
+      type: String,
+    },
+    body: {
+      type: String,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Structured posting details, shared with the referral job queue result
+ */
+export const jobDetailsSchema = new Schema<JobDetails>(
+  {
+    location: {
+      raw: String,
+      city: String,
+      region: String,
+      country: String,
+      remote: Boolean,
+      hybrid: Boolean,
+    },
+    salary: {
+      min: Number,
+      max: Number,
+      currency: String,
+      period: { type: String, enum: ['hour', 'day', 'week', 'month', 'year'] },
+      raw: String,
+    },
+    experience: {
+      min: Number,
+      max: Number,
+    },
+    employmentType: {
+      type: String,
+      enum: ['full_time', 'part_time', 'contract', 'temporary', 'internship', 'freelance'],
+    },
+    skills: { type: [String], default: [] },
+    postedAt: { type: String },
+    expiresAt: { type: String },
+    sourceUrl: { type: String },
+  },
+  {
+    _id: false,
+  }
+);
+
+/**
+ * A follow-up, thank-you or status update message written after the referral request
+ */
+const followUpSchema = new Schema<IReferralFollowUp>(
+  {
+    type: {
+      type: String,
+      enum: ['follow_up', 'thank_you', 'status_update'],
+      required: true,
+    },
+    subject: {
+      type: String,
+    },
+    message: {
+      type: String,
+      required: true,
+    },
+    channel: {
+      type: String,
+      enum: ['email', 'linkedin_note', 'inmail', 'short_dm'],
+    },
+    status: {
+      type: String,
+      enum: ['applied', 'interviewing', 'offer', 'hired', 'rejected'],
+    },
+    daysSinceSent: {
+      type: Number,
+    },
+    modelName: {
+      type: String,
+      required: true,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  }
+);
+
+const referralSchema = new Schema<IReferral>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    sourceType: {
+      type: String,
+      enum: ['url', 'content'],
+      required: true,
+    },
+    sourceUrl: {
+      type: String,
+      trim: true,
+    },
+    contentHash: {
+      type: String,
+    },
+    jobId: {
+      type: String,
+      required: true,
+    },
+    jobTitle: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    companyName: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    jobDescription: {
+      type: String,
+      select: false, // Only needed when regenerating, refining or following up
+    },
+    jobDetails: {
+      type: jobDetailsSchema,
+    },
+    templateId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Template',
+      required: false,
+    },
+    templateName: {
+      type: String,
+    },
+    modelName: {
+      type: String,
+      required: true,
+    },
+    message: {
+      type: String,
+      required: true,
+    },
+    // Subject line of the message, for channels that have one
+    subject: {
+      type: String,
+    },
+    // All drafts generated together, message first
+    variants: {
+      type: [referralDraftSchema],
+      default: [],
+    },
+    channel: {
+      type: String,
+      enum: ['email', 'linkedin_note', 'inmail', 'short_dm'],
+    },
+    tone: {
+      type: String,
+      enum: ['formal', 'friendly', 'concise'],
+    },
+    length: {
+      type: String,
+      enum: ['short', 'medium', 'long'],
+    },
+    // Refined messages point to the referral they revise and to the first message of the chain
+    parentReferralId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Referral',
+    },
+    rootReferralId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Referral',
+    },
+    revision: {
+      type: Number,
+      default: 1,
+    },
+    // The change the user asked for in this revision
+    instruction: {
+      type: String,
+      trim: true,
+    },
+    // Messages written after the referral request, oldest first
+    followUps: {
+      type: [followUpSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+referralSchema.index({ userId: 1, createdAt: -1 });
+referralSchema.index({ userId: 1, jobId: 1 });
+referralSchema.index({ rootReferralId: 1, revision: 1 });
+
+const Referral = mongoose.model<IReferral>('Referral', referralSchema);
+
+export default Referral;
@@ -0,0 +1,110 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { CandidateProject, ParsedResume, ResumeEducation, ResumeExperience } from '../types/types';
+
+export interface IResume extends ParsedResume, Document {
+  userId: mongoose.Types.ObjectId;
+  fileName: string;
+  fileType: 'pdf' | 'docx' | 'txt';
+  fileSize: number;
+  text: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const resumeExperienceSchema = new Schema<ResumeExperience>(
+  {
+    title: { type: String, required: true },
+    company: { type: String },
+    startDate: { type: String },
+    endDate: { type: String },
+    highlights: { type: [String], default: [] },
+  },
+  {
+    _id: false,
+  }
+);
+
+const resumeProjectSchema = new Schema<CandidateProject>(
+  {
+    name: { type: String, required: true },
+    description: { type: String, required: true },
+    technologies: { type: [String], default: [] },
+    url: { type: String },
+  },
+  {
+    _id: false,
+  }
+);
+
+const resumeEducationSchema = new Schema<ResumeEducation>(
+  {
+    institution: { type: String },
+    degree: { type: String },
+    graduationYear: { type: Number },
+  },
+  {
+    _id: false,
+  }
+);
+
+const resumeSchema = new Schema<IResume>(
+  {
+    // One resume per user; uploading a new one replaces it
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      unique: true,
+    },
+    fileName: {
+      type: String,
+      required: true,
+    },
+    fileType: {
+      type: String,
+      enum: ['pdf', 'docx', 'txt'],
+      required: true,
+    },
+    fileSize: {
+      type: Number,
+      required: true,
+    },
+    text: {
+      type: String,
+      required: true,
+      select: false, // Only needed when re-parsing
+    },
+    name: {
+      type: String,
+    },
+    email: {
+      type: String,
+    },
+    summary: {
+      type: String,
+    },
+    skills: {
+      type: [String],
+      default: [],
+    },
+    experience: {
+      type: [resumeExperienceSchema],
+      default: [],
+    },
+    projects: {
+      type: [resumeProjectSchema],
+      default: [],
+    },
+    education: {
+      type: [resumeEducationSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const Resume = mongoose.model<IResume>('Resume', resumeSchema);
+
+export default Resume;
@@ -1,14 +1,43 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { TemplateVariable } from '../types/types';
 
 export interface ITemplate extends Document {
   name: string;
   content: string;
+  variables: TemplateVariable[];
   isDefault: boolean;
   userId?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const templateVariableSchema = new Schema<TemplateVariable>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    type: {
+      type: String,
+      enum: ['string', 'number', 'url', 'list'],
+      default: 'string',
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 200,
+    },
+    defaultValue: {
+      type: String,
+      maxlength: 500,
+    },
+  },
+  {
+    _id: false,
+  }
+);
+
 const templateSchema = new Schema<ITemplate>(
   {
     name: {
@@ -20,6 +49,11 @@ const templateSchema = new Schema<ITemplate>(
       type: String,
       required: true,
     },
+    // Custom placeholders declared by the template, in addition to the built-in ones
+    variables: {
+      type: [templateVariableSchema],
+      default: [],
+    },
     isDefault: {
       type: Boolean,
       default: false,
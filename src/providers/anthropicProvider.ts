@@ -0,0 +1,67 @@
+import { postJson, readSseData } from './httpUtils';
+import { LlmGenerationOptions, LlmProvider, LlmProviderConfig } from '../types/types';
+
+export const ANTHROPIC_DEFAULT_MODEL = 'claude-3-5-haiku-latest';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_API_VERSION = '2023-06-01';
+
+interface AnthropicMessageResponse {
+  content?: Array<{ type?: string; text?: string }>;
+}
+
+interface AnthropicStreamEvent {
+  type?: string;
+  delta?: { type?: string; text?: string };
+}
+
+/**
+ * Create a provider for the Anthropic Messages API
+ */
+export function createAnthropicProvider(config: LlmProviderConfig): LlmProvider {
+  const model = config.model || ANTHROPIC_DEFAULT_MODEL;
+  const headers = {
+    'x-api-key': config.apiKey || '',
+    'anthropic-version': ANTHROPIC_API_VERSION
+  };
+
+  const buildBody = (prompt: string, options: LlmGenerationOptions = {}, stream = false) => ({
+    model,
+    messages: [{ role: 'user', content: prompt }],
+    // max_tokens is required by the Messages API
+    max_tokens: options.maxOutputTokens || 1024,
+    temperature: options.temperature,
+    top_p: options.topP,
+    top_k: options.topK,
+    stream
+  });
+
+  return {
+    name: 'anthropic',
+    model,
+
+    async generate(prompt, options) {
+      const response = await postJson(ANTHROPIC_API_URL, buildBody(prompt, options), headers);
+      const data = await response.json() as AnthropicMessageResponse;
+
+      return (data.content || [])
+        .filter(block => block.type === 'text')
+        .map(block => block.text || '')
+        .join('');
+    },
+
+    async generateStream(prompt, onChunk, options) {
+      const response = await postJson(ANTHROPIC_API_URL, buildBody(prompt, options, true), headers);
+      let text = '';
+
+      await readSseData<AnthropicStreamEvent>(response, data => {
+        if (data.type === 'content_block_delta' && data.delta?.type === 'text_delta' && data.delta.text) {
+          text += data.delta.text;
+          onChunk(data.delta.text);
+        }
+      });
+
+      return text;
+    }
+  };
+}
@@ -0,0 +1,88 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { LlmProviderError } from '../utils/errorHandler';
+import { LlmGenerationOptions, LlmProvider, LlmProviderConfig } from '../types/types';
+
+export const GEMINI_DEFAULT_MODEL = 'gemini-1.5-flash';
+
+const clientCache = new Map<string, GoogleGenerativeAI>();
+
+/**
+ * Create a provider backed by the Google Gemini API
+ * @throws Error if the API key is missing
+ */
+export function createGeminiProvider(config: LlmProviderConfig): LlmProvider {
+  const client = getClient(config.apiKey || '');
+  const model = config.model || GEMINI_DEFAULT_MODEL;
+
+  const getModel = (options: LlmGenerationOptions = {}) => client.getGenerativeModel({
+    model,
+    generationConfig: {
+      temperature: options.temperature,
+      topK: options.topK,
+      topP: options.topP,
+      maxOutputTokens: options.maxOutputTokens,
+    },
+  });
+
+  return {
+    name: 'gemini',
+    model,
+
+    async generate(prompt, options) {
+      try {
+        const result = await getModel(options).generateContent(prompt);
+        return result.response.text();
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    },
+
+    async generateStream(prompt, onChunk, options) {
+      try {
+        const result = await getModel(options).generateContentStream(prompt);
+        let text = '';
+
+        for await (const chunk of result.stream) {
+          const chunkText = chunk.text();
+          if (chunkText) {
+            text += chunkText;
+            onChunk(chunkText);
+          }
+        }
+
+        return text;
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    }
+  };
+}
+
+/**
+ * Initialize or retrieve a cached Gemini API client with the given API key
+ */
+function getClient(apiKey: string): GoogleGenerativeAI {
+  if (!apiKey) {
+    throw new Error('Gemini API key is missing or invalid');
+  }
+
+  if (!clientCache.has(apiKey)) {
+    clientCache.set(apiKey, new GoogleGenerativeAI(apiKey));
+  }
+
+  return clientCache.get(apiKey)!;
+}
+
+function toProviderError(error: unknown): LlmProviderError {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+
+  if (errorMessage.includes('API key not valid')) {
+    return new LlmProviderError('invalid_api_key', errorMessage);
+  }
+
+  if (errorMessage.includes('quota') || errorMessage.includes('429')) {
+    return new LlmProviderError('quota_exceeded', errorMessage);
+  }
+
+  return new LlmProviderError('request_failed', errorMessage);
+}
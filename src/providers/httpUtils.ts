@@ -0,0 +1,87 @@
+import { LlmProviderError } from '../utils/errorHandler';
+
+const REQUEST_TIMEOUT = parseInt(process.env.REQUEST_TIMEOUT || '30000', 10);
+
+/**
+ * POST a JSON body to an LLM API
+ * @throws LlmProviderError classified by the HTTP status of a failed response
+ */
+export async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+  let response: Response;
+
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT)
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new LlmProviderError('request_failed', `Request to ${new URL(url).host} failed: ${errorMessage}`);
+  }
+
+  if (!response.ok) {
+    const details = (await response.text().catch(() => '')).slice(0, 300);
+    throw new LlmProviderError(
+      errorCodeForStatus(response.status),
+      `Request to ${new URL(url).host} failed with HTTP ${response.status}${details ? `: ${details}` : ''}`
+    );
+  }
+
+  return response;
+}
+
+/**
+ * Read a streamed response body line by line
+ */
+export async function readLines(response: Response, onLine: (line: string) => void): Promise<void> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (line.trim()) onLine(line.trim());
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) onLine(buffer.trim());
+}
+
+/**
+ * Read the JSON payloads of a Server-Sent Events response, skipping the `[DONE]` sentinel
+ * Payloads are not validated, so every field of T should be optional
+ */
+export async function readSseData<T>(response: Response, onData: (data: T) => void): Promise<void> {
+  await readLines(response, line => {
+    if (!line.startsWith('data:')) return;
+
+    const data = line.slice('data:'.length).trim();
+    if (!data || data === '[DONE]') return;
+
+    try {
+      onData(JSON.parse(data) as T);
+    } catch (_error) {
+      // Ignore keep-alive and malformed events
+    }
+  });
+}
+
+function errorCodeForStatus(status: number): 'invalid_api_key' | 'quota_exceeded' | 'request_failed' {
+  if (status === 401 || status === 403) return 'invalid_api_key';
+  if (status === 429) return 'quota_exceeded';
+  return 'request_failed';
+}
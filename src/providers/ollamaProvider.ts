@@ -0,0 +1,61 @@
+import { postJson, readLines } from './httpUtils';
+import { LlmGenerationOptions, LlmProvider, LlmProviderConfig } from '../types/types';
+
+export const OLLAMA_DEFAULT_MODEL = 'llama3.1';
+export const OLLAMA_DEFAULT_BASE_URL = 'http://localhost:11434';
+
+interface OllamaGenerateResponse {
+  response?: string;
+}
+
+/**
+ * Create a provider for a local Ollama server
+ * No API key is needed, so the service can run fully offline
+ */
+export function createOllamaProvider(config: LlmProviderConfig): LlmProvider {
+  const model = config.model || OLLAMA_DEFAULT_MODEL;
+  const url = `${(config.baseUrl || OLLAMA_DEFAULT_BASE_URL).replace(/\/+$/, '')}/api/generate`;
+
+  const buildBody = (prompt: string, options: LlmGenerationOptions = {}, stream = false) => ({
+    model,
+    prompt,
+    stream,
+    options: {
+      temperature: options.temperature,
+      top_p: options.topP,
+      top_k: options.topK,
+      num_predict: options.maxOutputTokens
+    }
+  });
+
+  return {
+    name: 'ollama',
+    model,
+
+    async generate(prompt, options) {
+      const response = await postJson(url, buildBody(prompt, options));
+      const data = await response.json() as OllamaGenerateResponse;
+      return data.response || '';
+    },
+
+    async generateStream(prompt, onChunk, options) {
+      // Ollama streams newline-delimited JSON objects
+      const response = await postJson(url, buildBody(prompt, options, true));
+      let text = '';
+
+      await readLines(response, line => {
+        try {
+          const data = JSON.parse(line) as OllamaGenerateResponse;
+          if (data.response) {
+            text += data.response;
+            onChunk(data.response);
+          }
+        } catch (_error) {
+          // Ignore partial or malformed lines
+        }
+      });
+
+      return text;
+    }
+  };
+}
@@ -0,0 +1,58 @@
+import { postJson, readSseData } from './httpUtils';
+import { LlmGenerationOptions, LlmProvider, LlmProviderConfig } from '../types/types';
+
+export const OPENAI_DEFAULT_MODEL = 'gpt-4o-mini';
+export const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+interface OpenAiChatResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+interface OpenAiChatChunk {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+}
+
+/**
+ * Create a provider for the OpenAI chat completions API
+ * Also works with OpenAI-compatible servers (Azure, OpenRouter, vLLM, LM Studio, ...) through baseUrl
+ */
+export function createOpenAiProvider(config: LlmProviderConfig): LlmProvider {
+  const model = config.model || OPENAI_DEFAULT_MODEL;
+  const url = `${(config.baseUrl || OPENAI_DEFAULT_BASE_URL).replace(/\/+$/, '')}/chat/completions`;
+  const headers: Record<string, string> = config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+
+  const buildBody = (prompt: string, options: LlmGenerationOptions = {}, stream = false) => ({
+    model,
+    messages: [{ role: 'user', content: prompt }],
+    temperature: options.temperature,
+    top_p: options.topP,
+    max_tokens: options.maxOutputTokens,
+    stream
+  });
+
+  return {
+    name: 'openai',
+    model,
+
+    async generate(prompt, options) {
+      const response = await postJson(url, buildBody(prompt, options), headers);
+      const data = await response.json() as OpenAiChatResponse;
+      return data.choices?.[0]?.message?.content || '';
+    },
+
+    async generateStream(prompt, onChunk, options) {
+      const response = await postJson(url, buildBody(prompt, options, true), headers);
+      let text = '';
+
+      await readSseData<OpenAiChatChunk>(response, data => {
+        const chunkText = data.choices?.[0]?.delta?.content;
+        if (chunkText) {
+          text += chunkText;
+          onChunk(chunkText);
+        }
+      });
+
+      return text;
+    }
+  };
+}
@@ -0,0 +1,113 @@
+import { LlmProvider, LlmProviderConfig, LlmProviderName } from '../types/types';
+import { createGeminiProvider, GEMINI_DEFAULT_MODEL } from './geminiProvider';
+import { createOpenAiProvider, OPENAI_DEFAULT_MODEL } from './openAiProvider';
+import { createAnthropicProvider, ANTHROPIC_DEFAULT_MODEL } from './anthropicProvider';
+import { createOllamaProvider, OLLAMA_DEFAULT_MODEL } from './ollamaProvider';
+
+interface LlmProviderDefinition {
+  label: string;
+  requiresApiKey: boolean;
+  defaultModel: () => string;
+  /** Server-wide settings used when the user has not supplied their own */
+  serverConfig: () => LlmProviderConfig;
+  create: (config: LlmProviderConfig) => LlmProvider;
+}
+
+const providers: Record<LlmProviderName, LlmProviderDefinition> = {
+  gemini: {
+    label: 'Google Gemini',
+    requiresApiKey: true,
+    defaultModel: () => process.env.GEMINI_MODEL || GEMINI_DEFAULT_MODEL,
+    serverConfig: () => ({ apiKey: process.env.GEMINI_API_KEY }),
+    create: createGeminiProvider
+  },
+  openai: {
+    label: 'OpenAI',
+    requiresApiKey: true,
+    defaultModel: () => process.env.OPENAI_MODEL || OPENAI_DEFAULT_MODEL,
+    serverConfig: () => ({ apiKey: process.env.OPENAI_API_KEY, baseUrl: process.env.OPENAI_BASE_URL }),
+    create: createOpenAiProvider
+  },
+  anthropic: {
+    label: 'Anthropic',
+    requiresApiKey: true,
+    defaultModel: () => process.env.ANTHROPIC_MODEL || ANTHROPIC_DEFAULT_MODEL,
+    serverConfig: () => ({ apiKey: process.env.ANTHROPIC_API_KEY }),
+    create: createAnthropicProvider
+  },
+  ollama: {
+    label: 'Ollama',
+    requiresApiKey: false,
+    defaultModel: () => process.env.OLLAMA_MODEL || OLLAMA_DEFAULT_MODEL,
+    serverConfig: () => ({ baseUrl: process.env.OLLAMA_BASE_URL }),
+    create: createOllamaProvider
+  }
+};
+
+/**
+ * Check whether a value names a supported LLM provider
+ */
+export function isLlmProviderName(value: unknown): value is LlmProviderName {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(providers, value);
+}
+
+/**
+ * Get a human readable provider name for messages
+ */
+export function getProviderLabel(name: LlmProviderName): string {
+  return providers[name].label;
+}
+
+/**
+ * Check whether the provider needs an API key
+ */
+export function providerRequiresApiKey(name: LlmProviderName): boolean {
+  return providers[name].requiresApiKey;
+}
+
+/**
+ * Make a small test request to check that a provider and its credentials work
+ * @throws LlmProviderError if the request fails
+ */
+export async function verifyLlmProvider(provider: LlmProvider): Promise<void> {
+  await provider.generate('Test message to verify API key validity', { maxOutputTokens: 10 });
+}
+
+/**
+ * Create a provider, filling missing settings from the server configuration
+ * @throws Error if the provider needs an API key and none is available
+ */
+export function createLlmProvider(name: LlmProviderName, config: LlmProviderConfig = {}): LlmProvider {
+  const definition = providers[name];
+  const serverConfig = definition.serverConfig();
+
+  const apiKey = config.apiKey || serverConfig.apiKey;
+  if (definition.requiresApiKey && !apiKey) {
+    throw new Error(`No ${definition.label} API key available. Please add an API key in your account settings.`);
+  }
+
+  return definition.create({
+    apiKey,
+    model: config.model || definition.defaultModel(),
+    baseUrl: config.baseUrl || serverConfig.baseUrl
+  });
+}
+
+/**
+ * Describe the supported providers and whether the server has credentials for them
+ */
+export function getSupportedProviders(): Array<{
+  name: LlmProviderName;
+  label: string;
+  defaultModel: string;
+  requiresApiKey: boolean;
+  serverKeyConfigured: boolean;
+}> {
+  return (Object.keys(providers) as LlmProviderName[]).map(name => ({
+    name,
+    label: providers[name].label,
+    defaultModel: providers[name].defaultModel(),
+    requiresApiKey: providers[name].requiresApiKey,
+    serverKeyConfigured: Boolean(providers[name].serverConfig().apiKey)
+  }));
+}
@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import { authorize, protect } from '../middleware/authMiddleware';
+import { flushCache } from '../controllers/cacheController';
+import {
+  getSystemTemplates,
+  createSystemTemplate,
+  updateSystemTemplate,
+  deleteSystemTemplate
+} from '../controllers/templateController';
+import {
+  getUsers,
+  getUserById,
+  updateUserStatus,
+  updateUserRole,
+  getUsageStats
+} from '../controllers/adminController';
+
+const router = Router();
+
+router.use(protect, authorize('admin'));
+
+router.route('/templates')
+  .get(getSystemTemplates)
+  .post(createSystemTemplate);
+
+router.route('/templates/:id')
+  .put(updateSystemTemplate)
+  .delete(deleteSystemTemplate);
+
+router.get('/users', getUsers);
+router.get('/users/:id', getUserById);
+router.patch('/users/:id/status', updateUserStatus);
+router.patch('/users/:id/role', updateUserRole);
+
+router.get('/stats', getUsageStats);
+
+router.delete('/cache', flushCache);
+
+export default router;
@@ -3,17 +3,43 @@ import { protect } from '../middleware/authMiddleware';
 import { 
   setGeminiApiKey, 
   deleteGeminiApiKey, 
-  verifyGeminiApiKey 
+  verifyGeminiApiKey,
+  getLlmSettings,
+  updateLlmSettings
 } from '../controllers/apiKeyController';
+import {
+  getApiKeys,
+  createApiKey,
+  updateApiKey,
+  activateApiKey,
+  verifyApiKey,
+  deleteApiKey
+} from '../controllers/credentialController';
 
 const router = Router();
 
 // All routes require authentication
 router.use(protect);
 
-// Gemini API key management routes
+// API key vault routes
+router.route('/keys')
+  .get(getApiKeys)
+  .post(createApiKey);
+
+router.route('/keys/:id')
+  .patch(updateApiKey)
+  .delete(deleteApiKey);
+
+router.post('/keys/:id/activate', activateApiKey);
+router.post('/keys/:id/verify', verifyApiKey);
+
+// Gemini API key management routes, kept for existing clients
 router.post('/gemini-key', setGeminiApiKey);
 router.get('/gemini-key/verify', verifyGeminiApiKey);
 router.delete('/gemini-key', deleteGeminiApiKey);
 
+// LLM provider selection
+router.get('/llm-settings', getLlmSettings);
+router.put('/llm-settings', updateLlmSettings);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { protect } from '../middleware/authMiddleware';
+import {
+  getCacheEntries,
+  clearCache,
+  invalidateJobCache,
+  invalidateTemplateCache
+} from '../controllers/cacheController';
+
+const router = Router();
+
+router.use(protect);
+
+router.route('/cache')
+  .get(getCacheEntries)
+  .delete(clearCache);
+
+router.delete('/cache/jobs/:jobId', invalidateJobCache);
+router.delete('/cache/templates/:templateId', invalidateTemplateCache);
+
+export default router;
@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { protect } from '../middleware/authMiddleware';
+import {
+  getCandidateProfile,
+  updateCandidateProfile,
+  deleteCandidateProfile
+} from '../controllers/candidateProfileController';
+
+const router = Router();
+
+router.use(protect);
+
+router.route('/profile/candidate')
+  .get(getCandidateProfile)
+  .put(updateCandidateProfile)
+  .delete(deleteCandidateProfile);
+
+export default router;
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { createFollowUp, createStatusUpdate, createThankYou, getFollowUps } from '../controllers/followUpController';
+import { validateFollowUpRequest, validateMessageOptions, validateStatusUpdateRequest } from '../utils/validators';
+import { protect } from '../middleware/authMiddleware';
+
+const router = Router();
+
+router.get('/referrals/:id/follow-ups', protect, getFollowUps);
+router.post('/referrals/:id/follow-up', protect, validateFollowUpRequest, validateMessageOptions, createFollowUp);
+router.post('/referrals/:id/thank-you', protect, validateFollowUpRequest, validateMessageOptions, createThankYou);
+router.post('/referrals/:id/status-update', protect, validateStatusUpdateRequest, validateMessageOptions, createStatusUpdate);
+
+export default router;
@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { protect } from '../middleware/authMiddleware';
+import {
+  getContacts,
+  getContactById,
+  createContact,
+  updateContact,
+  deleteContact
+} from '../controllers/contactController';
+import {
+  getOutreachList,
+  getOutreachById,
+  createOutreach,
+  updateOutreach,
+  updateOutreachStatus,
+  addOutreachNote,
+  deleteOutreach,
+  getOutreachReminders
+} from '../controllers/outreachController';
+
+const router = Router();
+
+router.use(protect);
+
+router.route('/outreach/contacts')
+  .get(getContacts)
+  .post(createContact);
+
+router.route('/outreach/contacts/:id')
+  .get(getContactById)
+  .put(updateContact)
+  .delete(deleteContact);
+
+router.get('/outreach/reminders', getOutreachReminders);
+
+router.route('/outreach')
+  .get(getOutreachList)
+  .post(createOutreach);
+
+router.route('/outreach/:id')
+  .get(getOutreachById)
+  .put(updateOutreach)
+  .delete(deleteOutreach);
+
+router.patch('/outreach/:id/status', updateOutreachStatus);
+router.post('/outreach/:id/notes', addOutreachNote);
+
+export default router;
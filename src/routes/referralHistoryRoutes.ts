@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { protect } from '../middleware/authMiddleware';
+import {
+  getReferrals,
+  getReferralById,
+  deleteReferral,
+  getReferralRevisions
+} from '../controllers/referralHistoryController';
+
+const router = Router();
+
+router.use(protect);
+
+router.route('/referrals')
+  .get(getReferrals);
+
+router.route('/referrals/:id')
+  .get(getReferralById)
+  .delete(deleteReferral);
+
+router.get('/referrals/:id/revisions', getReferralRevisions);
+
+export default router;
@@ -2,20 +2,35 @@ import { Router } from 'express';
 import { 
   generateReferral, 
   getGeneratedReferral, 
+  streamReferralProgress,
   clearReferralCache,
-  processRawJobContent
+  processRawJobContent,
+  streamReferralFromUrl,
+  streamReferralFromContent
 } from '../controllers/referralController';
-import { validateJobUrlRequest, validateClearCacheRequest, validateJobContentRequest } from '../utils/validators';
+import { getMatchScore } from '../controllers/matchController';
+import { refineReferral } from '../controllers/referralHistoryController';
+import { generateReferralBatch, getReferralBatch } from '../controllers/referralBatchController';
+import { validateJobUrlRequest, validateClearCacheRequest, validateJobContentRequest, validateMatchScoreRequest, validateMessageOptions, validateRefineRequest, validateBatchRequest, validatePublicJobUrl } from '../utils/validators';
 import { validateUrlStatus } from '../controllers/urlController';
 import { protect } from '../middleware/authMiddleware';
 
 const router = Router();
 
-router.post('/validate-job-url', protect, validateJobUrlRequest, validateUrlStatus);
-router.post('/generate-referral', protect, validateJobUrlRequest, generateReferral);
-router.post('/generate-referral/result', protect, validateJobUrlRequest, getGeneratedReferral);
+router.post('/validate-job-url', protect, validateJobUrlRequest, validatePublicJobUrl, validateUrlStatus);
+router.post('/generate-referral', protect, validateJobUrlRequest, validatePublicJobUrl, validateMessageOptions, generateReferral);
+router.post('/generate-referral/result', protect, validateJobUrlRequest, validateMessageOptions, getGeneratedReferral);
+router.post('/generate-referral/batch', protect, validateBatchRequest, validateMessageOptions, generateReferralBatch);
+router.get('/generate-referral/batch/:batchId', protect, getReferralBatch);
+router.get('/generate-referral/:jobId/events', protect, streamReferralProgress);
+router.post('/generate-referral/stream', protect, validateJobUrlRequest, validatePublicJobUrl, validateMessageOptions, streamReferralFromUrl);
 router.post('/clear-cache', protect, validateClearCacheRequest, clearReferralCache);
 
-router.post('/generate-referral/content', protect, validateJobContentRequest, processRawJobContent);
+router.post('/generate-referral/content', protect, validateJobContentRequest, validateMessageOptions, processRawJobContent);
+router.post('/generate-referral/content/stream', protect, validateJobContentRequest, validateMessageOptions, streamReferralFromContent);
+
+router.post('/match-score', protect, validateMatchScoreRequest, getMatchScore);
+
+router.post('/referrals/:id/refine', protect, validateRefineRequest, refineReferral);
 
 export default router;
\ No newline at end of file
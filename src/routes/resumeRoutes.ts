@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { protect } from '../middleware/authMiddleware';
+import { handleResumeUpload } from '../middleware/uploadMiddleware';
+import {
+  uploadResume,
+  getResume,
+  deleteResume
+} from '../controllers/resumeController';
+
+const router = Router();
+
+router.use(protect);
+
+router.route('/resume')
+  .get(getResume)
+  .post(handleResumeUpload, uploadResume)
+  .delete(deleteResume);
+
+export default router;
@@ -6,7 +6,9 @@ import {
   createTemplate,
   updateTemplate,
   deleteTemplate,
-  getDefaultTemplate
+  getDefaultTemplate,
+  getTemplateVariables,
+  previewTemplate
 } from '../controllers/templateController';
 
 const router = Router();
@@ -20,6 +22,9 @@ router.route('/templates')
 router.route('/templates/default')
   .get(getDefaultTemplate);
 
+router.get('/templates/variables', getTemplateVariables);
+router.post('/templates/preview', previewTemplate);
+
 router.route('/templates/:id')
   .get(getTemplateById)
   .put(updateTemplate)
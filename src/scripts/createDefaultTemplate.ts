@@ -13,9 +13,7 @@ Hey [RECIPIENT],
 I'm a skilled developer with expertise in {skills}, and I'm reaching out about the {jobTitle} role at {companyName} ([JOB POST LINK]). Given your connection to the company, I wanted to ask if you would consider helping me with a referral.
 
 Work that I am most proud of:
-- Developed a comprehensive dashboard application for performance monitoring
-- Built a user-friendly web application with modern frontend technologies
-- Contributed to open-source projects focused on developer productivity
+{highlights}
 
 Beyond professional experience, I've created several personal projects which demonstrate my abilities and passion for technology.
 
@@ -24,7 +22,7 @@ My resume and portfolio provide further details about my experience and skills.
 Your time and consideration would mean a lot to me. Would you be open to referring me for this position?
 
 Thank you,
-[YOUR NAME]
+{candidateName}
 `;
 
 async function createSystemDefaultTemplate() {
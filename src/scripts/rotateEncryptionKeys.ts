@@ -0,0 +1,118 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import mongoose from 'mongoose';
+import Credential from '../models/credentialModel';
+import User from '../models/userModel';
+import { logger } from '../utils/logger';
+import { decryptSecret, encryptSecret, getCurrentKeyId, needsReEncryption } from '../utils/encryption';
+
+/**
+ * Re-encrypts every stored API key under the current master key (ENCRYPTION_KEY_ID)
+ *
+ * Rotation without downtime:
+ * 1. Add the new key to ENCRYPTION_KEYS, keep the old one, and point ENCRYPTION_KEY_ID at the new key
+ * 2. Deploy; new keys are written with the new master key and old ones still decrypt
+ * 3. Run this script (npm run rotate-encryption-keys, add -- --dry-run to only count)
+ * 4. Remove the old key from ENCRYPTION_KEYS once the script reports no failures
+ *
+ * Each update only applies if the ciphertext is unchanged, so keys written concurrently are never overwritten.
+ */
+async function rotateEncryptionKeys() {
+  const dryRun = process.argv.includes('--dry-run');
+  const stats = { checked: 0, rotated: 0, skipped: 0, failed: 0 };
+
+  try {
+    const mongoURI = process.env.MONGODB_URI;
+    if (!mongoURI) {
+      throw new Error('MONGODB_URI environment variable is not defined');
+    }
+
+    const keyId = getCurrentKeyId();
+
+    await mongoose.connect(mongoURI);
+    logger.info('Connected to MongoDB Atlas successfully');
+    logger.info(`Re-encrypting stored API keys under key "${keyId}"${dryRun ? ' (dry run)' : ''}`);
+
+    const credentials = Credential.find().select('+encryptedKey +iv').cursor();
+
+    for await (const credential of credentials) {
+      stats.checked++;
+
+      if (!needsReEncryption(credential.encryptedKey)) {
+        stats.skipped++;
+        continue;
+      }
+
+      try {
+        const apiKey = decryptSecret(credential.encryptedKey, credential.iv);
+
+        if (!dryRun) {
+          const result = await Credential.updateOne(
+            { _id: credential._id, encryptedKey: credential.encryptedKey },
+            { $set: { encryptedKey: encryptSecret(apiKey) }, $unset: { iv: '' } }
+          );
+
+          if (result.modifiedCount === 0) {
+            stats.skipped++;
+            continue;
+          }
+        }
+
+        stats.rotated++;
+      } catch (error) {
+        stats.failed++;
+        logger.error(`Failed to re-encrypt credential ${credential._id}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    // Keys still stored on user documents from before the key vault
+    const users = User.find({ encryptedGeminiApiKey: { $exists: true } })
+      .select('+encryptedGeminiApiKey +iv')
+      .cursor();
+
+    for await (const user of users) {
+      stats.checked++;
+
+      if (!user.encryptedGeminiApiKey || !needsReEncryption(user.encryptedGeminiApiKey)) {
+        stats.skipped++;
+        continue;
+      }
+
+      try {
+        const apiKey = decryptSecret(user.encryptedGeminiApiKey, user.iv);
+
+        if (!dryRun) {
+          const result = await User.updateOne(
+            { _id: user._id, encryptedGeminiApiKey: user.encryptedGeminiApiKey },
+            { $set: { encryptedGeminiApiKey: encryptSecret(apiKey) }, $unset: { iv: '' } }
+          );
+
+          if (result.modifiedCount === 0) {
+            stats.skipped++;
+            continue;
+          }
+        }
+
+        stats.rotated++;
+      } catch (error) {
+        stats.failed++;
+        logger.error(`Failed to re-encrypt legacy key of user ${user._id}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    logger.info(`Checked ${stats.checked} keys: ${stats.rotated} ${dryRun ? 'to re-encrypt' : 're-encrypted'}, ${stats.skipped} up to date, ${stats.failed} failed`);
+
+    await mongoose.connection.close();
+    logger.info('Database connection closed');
+
+    if (stats.failed > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    logger.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+rotateEncryptionKeys();
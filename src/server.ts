@@ -4,17 +4,27 @@ dotenv.config();
 import app from './app';
 import { logger } from './utils/logger';
 import { connectToDatabase } from './config/database';
+import { getSupportedSites } from './adapters/adapterRegistry';
+import { startJobWorker } from './services/jobQueueService';
+import { isEncryptionConfigured } from './utils/encryption';
+import { getCacheBackend } from './cache/cacheRegistry';
 
 const PORT = process.env.PORT || 3000;
 
 // Connect to MongoDB
 connectToDatabase()
   .then(() => {
-    logger.info(`JobRefMe Backend (HireJobs.in Support)`);
+    logger.info(`JobRefMe Backend (Supported sites: ${getSupportedSites().join(', ')})`);
     logger.info(`Environment: ${process.env.NODE_ENV}`);
     logger.info(`GEMINI_API_KEY is ${process.env.GEMINI_API_KEY ? 'set' : 'not set'}`);
     logger.info(`MongoDB is connected`);
     logger.info(`Google OAuth is ${process.env.GOOGLE_CLIENT_ID ? 'configured' : 'not configured'}`);
+    logger.info(`Cache backend: ${getCacheBackend()}`);
+    if (!isEncryptionConfigured()) {
+      logger.error('API key encryption is not configured. Set ENCRYPTION_KEY or ENCRYPTION_KEYS to store user API keys.');
+    }
+
+    startJobWorker();
 
     app.listen(PORT, () => {
       logger.info(`Server running on port ${PORT}`);
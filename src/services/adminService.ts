@@ -0,0 +1,165 @@
+import mongoose from 'mongoose';
+import User from '../models/userModel';
+import Referral from '../models/referralModel';
+import ReferralJob from '../models/referralJobModel';
+import Outreach from '../models/outreachModel';
+import Contact from '../models/contactModel';
+import Template from '../models/templateModel';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Users who signed in within this many days count as active
+const ACTIVE_USER_DAYS = 30;
+const TOP_USERS_LIMIT = 10;
+
+export interface UsageStats {
+  users: {
+    total: number;
+    active: number;
+    newLast30Days: number;
+    disabled: number;
+    admins: number;
+  };
+  referrals: {
+    total: number;
+    last24Hours: number;
+    last7Days: number;
+    last30Days: number;
+    /** Referrals of the last 30 days by channel; "default" when no channel was requested */
+    byChannel: Record<string, number>;
+    /** Referrals of the last 30 days by model */
+    byModel: Record<string, number>;
+  };
+  /** Referral generation jobs currently in the queue, by status */
+  jobs: Record<string, number>;
+  outreach: {
+    total: number;
+    byStatus: Record<string, number>;
+  };
+  /** Users with the most referrals in the last 30 days */
+  topUsers: Array<{ userId: string; email?: string; referrals: number }>;
+}
+
+export interface UserUsage {
+  referrals: number;
+  referralsLast30Days: number;
+  lastReferralAt?: Date;
+  outreach: number;
+  contacts: number;
+  templates: number;
+}
+
+/**
+ * Count documents grouped by a field, e.g. referrals by channel
+ */
+async function countBy<T>(model: mongoose.Model<T>, field: string, match: Record<string, unknown> = {}): Promise<Record<string, number>> {
+  const groups: Array<{ _id: string | null; count: number }> = await model.aggregate([
+    { $match: match },
+    { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+    { $sort: { count: -1 } }
+  ]);
+
+  return Object.fromEntries(groups.map(group => [group._id ?? 'default', group.count]));
+}
+
+/**
+ * Collect usage statistics across all users for the admin dashboard
+ */
+export async function getUsageStats(now = new Date()): Promise<UsageStats> {
+  const since = (days: number) => new Date(now.getTime() - days * DAY_MS);
+  const last30Days = { createdAt: { $gte: since(30) } };
+
+  const [
+    totalUsers,
+    activeUsers,
+    newUsers,
+    disabledUsers,
+    admins,
+    totalReferrals,
+    referrals24Hours,
+    referrals7Days,
+    referrals30Days,
+    byChannel,
+    byModel,
+    jobs,
+    totalOutreach,
+    outreachByStatus,
+    topUsers
+  ] = await Promise.all([
+    User.countDocuments(),
+    User.countDocuments({ lastLogin: { $gte: since(ACTIVE_USER_DAYS) } }),
+    User.countDocuments(last30Days),
+    User.countDocuments({ disabled: true }),
+    User.countDocuments({ role: 'admin' }),
+    Referral.countDocuments(),
+    Referral.countDocuments({ createdAt: { $gte: since(1) } }),
+    Referral.countDocuments({ createdAt: { $gte: since(7) } }),
+    Referral.countDocuments(last30Days),
+    countBy(Referral, 'channel', last30Days),
+    countBy(Referral, 'modelName', last30Days),
+    countBy(ReferralJob, 'status'),
+    Outreach.countDocuments(),
+    countBy(Outreach, 'status'),
+    Referral.aggregate<{ _id: mongoose.Types.ObjectId; count: number }>([
+      { $match: last30Days },
+      { $group: { _id: '$userId', count: { $sum: 1 } } },
+      { $sort: { count: -1 } },
+      { $limit: TOP_USERS_LIMIT }
+    ])
+  ]);
+
+  const topUserEmails = new Map(
+    (await User.find({ _id: { $in: topUsers.map(user => user._id) } }).select('email'))
+      .map(user => [String(user._id), user.email])
+  );
+
+  return {
+    users: {
+      total: totalUsers,
+      active: activeUsers,
+      newLast30Days: newUsers,
+      disabled: disabledUsers,
+      admins
+    },
+    referrals: {
+      total: totalReferrals,
+      last24Hours: referrals24Hours,
+      last7Days: referrals7Days,
+      last30Days: referrals30Days,
+      byChannel,
+      byModel
+    },
+    jobs,
+    outreach: {
+      total: totalOutreach,
+      byStatus: outreachByStatus
+    },
+    topUsers: topUsers.map(user => ({
+      userId: String(user._id),
+      email: topUserEmails.get(String(user._id)),
+      referrals: user.count
+    }))
+  };
+}
+
+/**
+ * Summarize what a single user has stored and generated
+ */
+export async function getUserUsage(userId: string, now = new Date()): Promise<UserUsage> {
+  const [referrals, referralsLast30Days, lastReferral, outreach, contacts, templates] = await Promise.all([
+    Referral.countDocuments({ userId }),
+    Referral.countDocuments({ userId, createdAt: { $gte: new Date(now.getTime() - 30 * DAY_MS) } }),
+    Referral.findOne({ userId }).sort({ createdAt: -1 }).select('createdAt'),
+    Outreach.countDocuments({ userId }),
+    Contact.countDocuments({ userId }),
+    Template.countDocuments({ userId })
+  ]);
+
+  return {
+    referrals,
+    referralsLast30Days,
+    lastReferralAt: lastReferral?.createdAt,
+    outreach,
+    contacts,
+    templates
+  };
+}
@@ -1,213 +1,669 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { logger } from '../utils/logger';
-import NodeCache from 'node-cache';
+import { createCacheStore } from '../cache/cacheRegistry';
 import User from '../models/userModel';
 import Template from '../models/templateModel';
 import mongoose from 'mongoose';
-import { JobData } from '../types/types';
+import { ApplicationStatus, FollowUpContext, FollowUpOptions, FollowUpType, JobData, JobPosting, GeneratedReferral, LlmProvider, LlmGenerationOptions, MessageChannel, MessageLength, MessageOptions, MessageTone, ParsedJobData, ReferralDraft, ReferralGenerationOptions, GeneratedDraft, TemplateVariable } from '../types/types';
+import { formatJobDetailsForPrompt, formatJobLocation, normalizeJobPosting } from '../utils/jobNormalizer';
+import { CHANNEL_SPECS, fitsChannel, formatReferralDraft, toReferralDraft, truncateToChannel } from '../utils/messageChannels';
+import { getVariableDefaults, renderTemplate, TemplateValues } from '../utils/templateEngine';
+import { createLlmProvider } from '../providers/providerRegistry';
+import { getActiveApiKey } from './credentialService';
+import { getCandidateContext } from './candidateProfileService';
+import { LlmProviderError } from '../utils/errorHandler';
+import { createContentFingerprint, createHashFromContent } from '../utils/contentHash';
+import { getJobCacheKey } from '../cache/cacheKeys';
 
 const CACHE_TTL = parseInt(process.env.CACHE_TTL || '3600', 10);
-const defaultApiKey = process.env.GEMINI_API_KEY || '';
 
-const messageCache = new NodeCache({
-  stdTTL: CACHE_TTL,
-  checkperiod: 120,
-  useClones: false
-});
+const REFERRAL_GENERATION_OPTIONS: LlmGenerationOptions = {
+  temperature: 0.5,
+  topK: 40,
+  topP: 0.95,
+  maxOutputTokens: 500,
+};
+
+export const MAX_MESSAGE_VARIANTS = 5;
+
+const TONE_INSTRUCTIONS: Record<MessageTone, string> = {
+  formal: 'Use a formal, polished tone suited to a senior employee the candidate has never met.',
+  friendly: 'Use a warm, conversational tone while staying professional.',
+  concise: 'Be direct: short sentences, no filler, and every sentence must earn its place.'
+};
+
+const LENGTH_TARGETS: Record<MessageLength, { words: string; maxOutputTokens: number }> = {
+  short: { words: 'under 80 words', maxOutputTokens: 300 },
+  medium: { words: '100-150 words', maxOutputTokens: 500 },
+  long: { words: '180-250 words', maxOutputTokens: 800 }
+};
+
+// Times a draft over the channel's character limit is sent back to be shortened before it is truncated
+const MAX_LENGTH_RETRIES = 2;
+
+// Later drafts get a higher temperature and a different opening so they read differently
+const VARIANT_TEMPERATURE_STEP = 0.15;
+const VARIANT_ANGLES = [
+  '',
+  'Open with a specific project or achievement of the candidate that fits the role.',
+  'Open with why the candidate is drawn to the company or its product.',
+  'Open with the skills the job asks for that the candidate has used the most.',
+  'Open with what the candidate would bring to the team in their first months.'
+];
+
+// Lower than generation so the parts the user did not ask to change stay put
+const REFINEMENT_OPTIONS: LlmGenerationOptions = {
+  temperature: 0.4,
+  topK: 40,
+  topP: 0.95,
+  maxOutputTokens: 800,
+};
+
+const FOLLOW_UP_OPTIONS: LlmGenerationOptions = {
+  temperature: 0.5,
+  topK: 40,
+  topP: 0.95,
+  maxOutputTokens: 400,
+};
+
+const FOLLOW_UP_TASKS: Record<FollowUpType, string> = {
+  follow_up: 'Write a polite follow-up to the referral request below, which has had no reply. Remind them of the request without repeating it in full, make it easy for them to say no, and do not sound impatient or make them feel guilty.',
+  thank_you: 'They have referred the candidate for the job. Write a sincere thank-you note that mentions the role, says what the candidate will do next and offers to return the favour. Do not ask for anything else.',
+  status_update: 'They referred the candidate for the job. Write a short update on where the application stands, thank them again for the referral and do not ask for anything else.'
+};
+
+const STATUS_DESCRIPTIONS: Record<ApplicationStatus, string> = {
+  applied: 'the application has been submitted and the candidate is waiting to hear back',
+  interviewing: 'the candidate is interviewing for the role',
+  offer: 'the candidate has received an offer',
+  hired: 'the candidate has accepted the offer and is joining the company',
+  rejected: 'the company decided not to move forward; stay positive and ask to keep in touch'
+};
+
+const EXTRACTION_OPTIONS: LlmGenerationOptions = {
+  temperature: 0.2,
+  topK: 40,
+  topP: 0.95,
+  maxOutputTokens: 1024,
+};
+
+const messageCache = createCacheStore('messages', CACHE_TTL);
 
-const clientCache = new Map<string, GoogleGenerativeAI>();
-
-if (defaultApiKey) {
-  try {
-    const client = new GoogleGenerativeAI(defaultApiKey);
-    clientCache.set(defaultApiKey, client);
-    logger.info('Default Gemini API client initialized');
-  } catch (error) {
-    logger.error('Failed to initialize default Gemini API client', error);
-  }
+/**
+ * Generate a cache key from the job, the template version and model that write the message, the candidate profile
+ * and resume version, the requested tone, length and number of variants and the job data itself
+ */
+function generateCacheKey(
+  userId: string | undefined,
+  jobId: string,
+  generationScope: string,
+  jobHash: string,
+  profileVersion = 'none',
+  style = 'default'
+): string {
+  return getJobCacheKey(userId, jobId, 'message', generationScope, profileVersion, style, jobHash);
 }
 
 /**
- * Generate a cache key from job data
+ * Identify the template version and model that write a message, e.g. "<templateId>@<version>:gemini/gemini-1.5-flash"
+ * Editing the template or switching models changes it, so stale messages are not served from cache
  */
-function generateCacheKey(userId: string | undefined, jobTitle: string, companyName: string, descriptionHash: string): string {
-  return userId 
-    ? `user:${userId}:${jobTitle.toLowerCase().trim()}:${companyName.toLowerCase().trim()}:${descriptionHash}`
-    : `${jobTitle.toLowerCase().trim()}:${companyName.toLowerCase().trim()}:${descriptionHash}`;
+function getGenerationScope(template: ActiveTemplate, provider: LlmProvider): string {
+  const templateKey = template.id ? `${template.id}@${template.version}` : 'builtin';
+  return `${templateKey}:${provider.name}/${provider.model}`;
 }
 
 /**
- * Simple hash function for text
+ * Get the generation scope for a user's next message, for callers that cache whole results
+ * @throws Error if no LLM provider is available
  */
-function hashString(text: string): string {
-  let hash = 0;
-  if (text.length === 0) return hash.toString();
-
-  for (let i = 0; i < text.length; i++) {
-    const char = text.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
-  }
+export async function getGenerationCacheScope(userId?: string): Promise<string> {
+  const [template, provider] = await Promise.all([
+    getActiveTemplate(userId),
+    resolveLlmProvider(userId)
+  ]);
 
-  return hash.toString();
+  return getGenerationScope(template, provider);
 }
 
 /**
- * Initialize or retrieve a cached Gemini API client with the given API key
- * @param apiKey The API key to use
- * @returns GoogleGenerativeAI client
- * @throws Error if initialization fails or API key is missing
+ * Number of drafts to generate, limited to 1-MAX_MESSAGE_VARIANTS
  */
-function initGeminiClient(apiKey: string): GoogleGenerativeAI {
-  if (!apiKey) {
-    throw new Error('Gemini API key is missing or invalid');
-  }
+function getVariantCount(options: MessageOptions): number {
+  return Math.min(Math.max(Math.floor(options.variants || 1), 1), MAX_MESSAGE_VARIANTS);
+}
 
-  if (clientCache.has(apiKey)) {
-    return clientCache.get(apiKey)!;
-  }
+/**
+ * Describe the requested channel, tone, length and number of variants for cache keys, e.g. "email.formal.short.3"
+ * @returns An empty string when only the defaults were requested
+ */
+export function getMessageStyleKey(options: MessageOptions): string {
+  const variants = getVariantCount(options);
 
-  try {
-    const client = new GoogleGenerativeAI(apiKey);
-    clientCache.set(apiKey, client);
-    return client;
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    throw new Error(`Failed to initialize Gemini API client: ${errorMessage}`);
+  if (!options.channel && !options.tone && !options.length && variants === 1) {
+    return '';
   }
+
+  return `${options.channel || 'default'}.${options.tone || 'default'}.${options.length || 'default'}.${variants}`;
 }
 
 /**
- * Get user's API key or fallback to default
- * @param userId User ID to retrieve API key for
- * @returns API key as string or null if neither user nor default key is available
+ * Resolve the LLM provider selected by the user, falling back to Gemini
+ * The user's active key for the provider takes precedence over the server credentials
+ * @param userId User ID to load provider settings for
+ * @throws Error if the selected provider needs an API key and none is available
  */
-async function getUserApiKey(userId: string | undefined): Promise<string | null> {
-  // If no user ID is provided, use default key
+async function resolveLlmProvider(userId: string | undefined): Promise<LlmProvider> {
   if (!userId) {
-    return defaultApiKey || null;
+    return createLlmProvider('gemini');
   }
-  
+
+  // Check if ID is valid MongoDB ObjectId
+  if (!mongoose.Types.ObjectId.isValid(userId)) {
+    logger.warn(`Invalid user ID format: ${userId}`);
+    return createLlmProvider('gemini');
+  }
+
+  let user;
   try {
-    // Check if ID is valid MongoDB ObjectId
-    if (!mongoose.Types.ObjectId.isValid(userId)) {
-      logger.warn(`Invalid user ID format: ${userId}`);
-      return defaultApiKey || null;
-    }
-    
-    const user = await User.findById(userId);
-    if (!user) {
-      logger.warn(`User not found for ID: ${userId}`);
-      return defaultApiKey || null;
-    }
-    
-    // Try to get user's API key
-    const userApiKey = await user.getGeminiApiKey();
-    
-    // If user has no key, fall back to default
-    return userApiKey || defaultApiKey || null;
+    user = await User.findById(userId);
   } catch (error) {
-    logger.error(`Error retrieving user API key: ${error instanceof Error ? error.message : String(error)}`);
-    return defaultApiKey || null;
+    logger.error(`Error retrieving user LLM settings: ${error instanceof Error ? error.message : String(error)}`);
   }
+
+  if (!user) {
+    logger.warn(`User not found for ID: ${userId}`);
+    return createLlmProvider('gemini');
+  }
+
+  const provider = user.llmSettings?.provider || 'gemini';
+  const apiKey = await getActiveApiKey(userId, provider);
+
+  return createLlmProvider(provider, {
+    apiKey: apiKey || undefined,
+    model: user.llmSettings?.model
+  });
 }
 
 /**
- * Generates a referral request message using Google Gemini API
+ * Generates a referral request message using the user's LLM provider
  * with caching to avoid redundant API calls
  * 
  * @param jobTitle The job title
  * @param companyName The company name
  * @param jobDescription The job description
  * @param userId Optional user ID to use their stored API key
- * @returns Generated referral message
+ * @param options Optional job URL, location and structured posting details, message tone, length
+ * and number of variants, and a progress callback
+ * @returns Generated referral drafts with the template and model used
  * @throws Error if generation fails
  */
 export async function generateReferralMessage(
   jobTitle: string,
   companyName: string,
   jobDescription: string,
-  userId?: string
-): Promise<string> {
-  const templateContent = await getActiveTemplate(userId);
+  userId?: string,
+  options: ReferralGenerationOptions = {}
+): Promise<GeneratedReferral> {
+  options.onProgress?.('generating', 'Writing your referral message');
+  
+  const generation = await prepareReferralGeneration(jobTitle, companyName, jobDescription, userId, options);
+  if ('cached' in generation) {
+    return generation.cached;
+  }
 
-  const descriptionPreview = jobDescription.slice(0, 1000);
-  const descriptionHash = hashString(descriptionPreview);
-  const cacheKey = generateCacheKey(userId, jobTitle, companyName, descriptionHash);
+  const { provider, prompts, template, values, cacheKey } = generation;
 
-  const cachedMessage = messageCache.get<string>(cacheKey);
-  if (cachedMessage) {
-    logger.info(`Cache hit for: ${jobTitle} at ${companyName}${userId ? ` (user: ${userId})` : ''}`);
-    return cachedMessage;
-  }
+  try {
+    const drafts = await Promise.all(prompts.map(async prompt => toChannelDraft(
+      await provider.generate(prompt.prompt, prompt.options),
+      prompt,
+      provider,
+      values,
+      options.channel
+    )));
 
-  logger.info(`Generating referral message for ${jobTitle} at ${companyName}${userId ? ` (user: ${userId})` : ''}`);
+    logger.info(`Successfully generated ${drafts.length} referral draft(s) using ${provider.name}/${provider.model}`);
 
-  const apiKey = await getUserApiKey(userId);
+    const generated = toGeneratedReferral(drafts, template, provider, options);
 
-  if (!apiKey) {
-    throw new Error('No Gemini API key available. Please add an API key in your account settings.');
+    await messageCache.set(cacheKey, generated);
+
+    return generated;
+  } catch (error) {
+    throw toGenerationError(error, provider);
   }
+}
 
-  const client = initGeminiClient(apiKey);
+/**
+ * Streaming variant of generateReferralMessage
+ * Passes raw text chunks to onChunk as the provider produces them, then applies the usual
+ * cleanup and caches the final drafts. Variants are written one after another, and a cached
+ * draft is passed as a single chunk. Drafts over the channel's limit are shortened after streaming,
+ * so the returned drafts can differ from the streamed text.
+ * 
+ * @param onChunk Callback receiving each generated text chunk and the index of the draft it belongs to
+ * @returns The cleaned referral drafts with the template and model used
+ * @throws Error if generation fails
+ */
+export async function generateReferralMessageStream(
+  jobTitle: string,
+  companyName: string,
+  jobDescription: string,
+  userId: string | undefined,
+  onChunk: (text: string, variant: number) => void,
+  options: ReferralGenerationOptions = {}
+): Promise<GeneratedReferral> {
+  const generation = await prepareReferralGeneration(jobTitle, companyName, jobDescription, userId, options);
+  if ('cached' in generation) {
+    generation.cached.variants.forEach((draft, index) => onChunk(formatReferralDraft(draft), index));
+    return generation.cached;
+  }
 
-  const prompt = createPrompt(jobTitle, companyName, jobDescription, templateContent);
-  const modelName = 'gemini-1.5-flash';
+  const { provider, prompts, template, values, cacheKey } = generation;
 
   try {
-    logger.info(`Using model: ${modelName} with ${userId ? 'user' : 'default'} API key`);
-
-    const model = client.getGenerativeModel({
-      model: modelName,
-      generationConfig: {
-        temperature: 0.5,
-        topK: 40,
-        topP: 0.95,
-        maxOutputTokens: 500,
-      },
-    });
+    const drafts: ReferralDraft[] = [];
+    for (const [index, prompt] of prompts.entries()) {
+      const text = await provider.generateStream(prompt.prompt, chunk => onChunk(chunk, index), prompt.options);
+      drafts.push(await toChannelDraft(text, prompt, provider, values, options.channel));
+    }
+
+    logger.info(`Successfully streamed ${drafts.length} referral draft(s) using ${provider.name}/${provider.model}`);
+
+    const generated = toGeneratedReferral(drafts, template, provider, options);
+
+    await messageCache.set(cacheKey, generated);
+
+    return generated;
+  } catch (error) {
+    throw toGenerationError(error, provider);
+  }
+}
 
-    const result = await model.generateContent(prompt);
-    const response = result.response;
-    const text = response.text();
+/**
+ * Revise a generated message following a free-form instruction such as "make it shorter"
+ * The candidate profile is included so instructions like "mention my Kafka experience" use real facts,
+ * and the revision keeps to the channel's format and character limit. Revisions are not cached.
+ *
+ * @param current The message to revise
+ * @param instruction The change the user asked for
+ * @param job Job the message is about
+ * @param userId Optional user ID to use their LLM provider, API key and candidate profile
+ * @param channel Channel the message is written for, if any
+ * @returns The revised message with the model used
+ * @throws Error if generation fails
+ */
+export async function refineReferralMessage(
+  current: ReferralDraft,
+  instruction: string,
+  job: JobData,
+  userId?: string,
+  channel?: MessageChannel
+): Promise<GeneratedDraft> {
+  const [provider, candidate] = await Promise.all([
+    resolveLlmProvider(userId),
+    getCandidateContext(userId, job.description)
+  ]);
+
+  logger.info(`Refining referral message for ${job.title} at ${job.company}${userId ? ` (user: ${userId})` : ''}`);
+
+  const values: TemplateValues = {
+    ...candidate.values,
+    jobTitle: job.title,
+    companyName: job.company
+  };
+  const prompt: DraftPrompt = {
+    prompt: createRefinementPrompt(job, current, instruction, candidate.prompt, channel),
+    options: {
+      ...REFINEMENT_OPTIONS,
+      maxOutputTokens: channel ? CHANNEL_SPECS[channel].maxOutputTokens : REFINEMENT_OPTIONS.maxOutputTokens
+    }
+  };
 
-    logger.info(`Successfully generated referral message using ${modelName}`);
+  try {
+    const text = await provider.generate(prompt.prompt, prompt.options);
+    const draft = await toChannelDraft(text, prompt, provider, values, channel);
 
-    let cleanedText = text.replace(/HireJobs/g, '')
-      .replace(/hirejobs/gi, '')
-      .replace(/as advertised on\s*\./, '')
-      .replace(/as posted on\s*\./, '')
-      .replace(/I hope this email finds you well\./g, '')
-      .replace(/I hope this message finds you well\./g, '')
-      .replace(/\n\n\n+/g, '\n\n')
-      .trim();
+    if (!draft.body) {
+      throw new Error('The model returned an empty message');
+    }
 
-    messageCache.set(cacheKey, cleanedText);
+    logger.info(`Successfully refined referral message using ${provider.name}/${provider.model}`);
 
-    return cleanedText;
+    return {
+      // The subject is kept unless the model rewrote it
+      subject: draft.subject || current.subject,
+      body: draft.body,
+      modelName: provider.model
+    };
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    logger.error(`Error with model ${modelName}: ${errorMessage}`);
-
-    if (errorMessage.includes('API key not valid')) {
-      throw new Error('The API key is not valid. Please check your API key settings and try again.');
-    } else if (errorMessage.includes('quota')) {
-      throw new Error('API quota exceeded. Please try again later or update your API key in settings.');
-    } else {
-      throw new Error(`Failed to generate referral message: ${errorMessage}`);
+    throw toGenerationError(error, provider, 'refine referral message');
+  }
+}
+
+/**
+ * Write a follow-up for a referral request that has had no reply
+ * @param context The stored referral and the job it is for
+ * @param userId Optional user ID to use their LLM provider and API key
+ * @param options Days since the request was sent and an optional note from the user
+ * @throws Error if generation fails
+ */
+export async function generateFollowUpMessage(
+  context: FollowUpContext,
+  userId?: string,
+  options: FollowUpOptions = {}
+): Promise<GeneratedDraft> {
+  const days = options.daysSinceSent ? `It has been ${options.daysSinceSent} day${options.daysSinceSent === 1 ? '' : 's'} since the request was sent.` : '';
+  return generateAfterReferral('follow_up', [FOLLOW_UP_TASKS.follow_up, days].filter(part => part).join(' '), context, userId, options.note);
+}
+
+/**
+ * Write a thank-you note to someone who gave the referral
+ * @param context The stored referral and the job it is for
+ * @param userId Optional user ID to use their LLM provider and API key
+ * @param options An optional note from the user, such as when the referral was submitted
+ * @throws Error if generation fails
+ */
+export async function generateThankYouMessage(
+  context: FollowUpContext,
+  userId?: string,
+  options: FollowUpOptions = {}
+): Promise<GeneratedDraft> {
+  return generateAfterReferral('thank_you', FOLLOW_UP_TASKS.thank_you, context, userId, options.note);
+}
+
+/**
+ * Write an update for the referrer on how the application is going
+ * @param context The stored referral and the job it is for
+ * @param userId Optional user ID to use their LLM provider and API key
+ * @param options Where the application stands and an optional note from the user
+ * @throws Error if generation fails
+ */
+export async function generateStatusUpdateMessage(
+  context: FollowUpContext,
+  userId?: string,
+  options: FollowUpOptions = {}
+): Promise<GeneratedDraft> {
+  const status = options.status ? ` Where it stands: ${STATUS_DESCRIPTIONS[options.status]}.` : '';
+  return generateAfterReferral('status_update', `${FOLLOW_UP_TASKS.status_update}${status}`, context, userId, options.note);
+}
+
+/**
+ * Write a message that follows up on a stored referral request, keeping to its channel
+ */
+async function generateAfterReferral(
+  type: FollowUpType,
+  task: string,
+  context: FollowUpContext,
+  userId: string | undefined,
+  note?: string
+): Promise<GeneratedDraft> {
+  const provider = await resolveLlmProvider(userId);
+  const { job, channel } = context;
+
+  logger.info(`Generating ${type} message for ${job.title} at ${job.company}${userId ? ` (user: ${userId})` : ''}`);
+
+  const values: TemplateValues = {
+    jobTitle: job.title,
+    companyName: job.company
+  };
+  const prompt: DraftPrompt = {
+    prompt: createFollowUpPrompt(task, context, note),
+    options: {
+      ...FOLLOW_UP_OPTIONS,
+      maxOutputTokens: channel ? CHANNEL_SPECS[channel].maxOutputTokens : FOLLOW_UP_OPTIONS.maxOutputTokens
     }
+  };
+
+  try {
+    const text = await provider.generate(prompt.prompt, prompt.options);
+    const draft = await toChannelDraft(text, prompt, provider, values, channel);
+
+    if (!draft.body) {
+      throw new Error('The model returned an empty message');
+    }
+
+    logger.info(`Successfully generated ${type} message using ${provider.name}/${provider.model}`);
+
+    return { ...draft, modelName: provider.model };
+  } catch (error) {
+    throw toGenerationError(error, provider, `generate ${type.replace('_', '-')} message`);
+  }
+}
+
+/**
+ * Resolve the template, cache key, LLM provider and one prompt per requested draft for a referral generation
+ * @returns The cached drafts on a cache hit, otherwise everything needed to call the model
+ */
+async function prepareReferralGeneration(
+  jobTitle: string,
+  companyName: string,
+  jobDescription: string,
+  userId: string | undefined,
+  options: ReferralGenerationOptions
+): Promise<
+  | { cached: GeneratedReferral }
+  | {
+    provider: LlmProvider;
+    prompts: DraftPrompt[];
+    template: ActiveTemplate;
+    values: TemplateValues;
+    cacheKey: string;
+  }
+> {
+  const [template, provider, candidate] = await Promise.all([
+    getActiveTemplate(userId),
+    resolveLlmProvider(userId),
+    getCandidateContext(userId, jobDescription)
+  ]);
+
+  const variantCount = getVariantCount(options);
+  const jobHash = createContentFingerprint(`${jobTitle}\n${companyName}\n${jobDescription}`);
+  // Editing the profile or resume changes the message, so it must not be served from cache
+  const cacheKey = generateCacheKey(
+    userId,
+    options.jobId || createHashFromContent(jobDescription),
+    getGenerationScope(template, provider),
+    jobHash,
+    candidate.version,
+    getMessageStyleKey(options) || undefined
+  );
+
+  const cachedMessage = await messageCache.get<GeneratedReferral>(cacheKey);
+  if (cachedMessage) {
+    logger.info(`Cache hit for: ${jobTitle} at ${companyName}${userId ? ` (user: ${userId})` : ''}`);
+    return { cached: cachedMessage };
+  }
+
+  logger.info(`Generating referral message for ${jobTitle} at ${companyName}${userId ? ` (user: ${userId})` : ''}`);
+  logger.info(`Using provider: ${provider.name} with model ${provider.model}`);
+
+  // Fill everything known up front so the model only writes what needs judgement, such as {skills}
+  const values: TemplateValues = {
+    ...getVariableDefaults(template.variables),
+    ...candidate.values,
+    jobTitle,
+    companyName,
+    jobUrl: options.jobUrl || options.posting?.sourceUrl,
+    location: options.location || formatJobLocation(options.posting?.location) || undefined
+  };
+  const draft = renderTemplate(template.content, values);
+
+  const jobDetails = options.posting ? formatJobDetailsForPrompt(options.posting) : '';
+  const prompt = createPrompt(jobTitle, companyName, jobDescription, jobDetails, draft.text, draft.unresolved, candidate.prompt, options);
+
+  const maxOutputTokens = options.length
+    ? LENGTH_TARGETS[options.length].maxOutputTokens
+    : options.channel ? CHANNEL_SPECS[options.channel].maxOutputTokens : REFERRAL_GENERATION_OPTIONS.maxOutputTokens;
+
+  const prompts = Array.from({ length: variantCount }, (_, index) => ({
+    prompt: VARIANT_ANGLES[index] ? `${prompt}\nDRAFT ANGLE: ${VARIANT_ANGLES[index]}\n` : prompt,
+    options: {
+      ...REFERRAL_GENERATION_OPTIONS,
+      temperature: Math.min((REFERRAL_GENERATION_OPTIONS.temperature || 0.5) + index * VARIANT_TEMPERATURE_STEP, 1),
+      maxOutputTokens
+    }
+  }));
+
+  return { provider, prompts, template, values, cacheKey };
+}
+
+interface DraftPrompt {
+  prompt: string;
+  options: LlmGenerationOptions;
+}
+
+/**
+ * Turn generated text into a draft shaped for the channel
+ * Drafts over the channel's character limit are sent back to the model to be shortened,
+ * and truncated if they are still too long
+ */
+async function toChannelDraft(
+  text: string,
+  prompt: DraftPrompt,
+  provider: LlmProvider,
+  values: TemplateValues,
+  channel?: MessageChannel
+): Promise<ReferralDraft> {
+  let draft = toReferralDraft(finalizeMessage(text, values), channel);
+
+  for (let attempt = 1; attempt <= MAX_LENGTH_RETRIES && channel && !fitsChannel(draft, channel); attempt++) {
+    const maxLength = CHANNEL_SPECS[channel].maxLength!;
+    logger.info(`Draft is ${draft.body.length} characters, over the ${maxLength} character limit for ${channel} (retry ${attempt}/${MAX_LENGTH_RETRIES})`);
+
+    const retryPrompt = `${prompt.prompt}
+YOUR PREVIOUS DRAFT WAS ${draft.body.length} CHARACTERS, OVER THE ${maxLength} CHARACTER LIMIT:
+${draft.body}
+
+Rewrite it in under ${Math.floor(maxLength * 0.9)} characters, keeping the referral ask.
+`;
+    draft = toReferralDraft(finalizeMessage(await provider.generate(retryPrompt, prompt.options), values), channel);
+  }
+
+  return fitsChannel(draft, channel) ? draft : truncateToChannel(draft, channel);
+}
+
+/**
+ * Collect the drafts into the generation result, dropping repeats
+ */
+function toGeneratedReferral(
+  drafts: ReferralDraft[],
+  template: ActiveTemplate,
+  provider: LlmProvider,
+  options: MessageOptions
+): GeneratedReferral {
+  const seen = new Set<string>();
+  const variants = drafts.filter(draft => {
+    const key = draft.body.toLowerCase().replace(/\s+/g, ' ');
+    if (!draft.body || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return {
+    message: variants[0]?.body || '',
+    subject: variants[0]?.subject,
+    variants,
+    channel: options.channel,
+    tone: options.tone,
+    length: options.length,
+    templateId: template.id,
+    templateName: template.name,
+    modelName: provider.model
+  };
+}
+
+/**
+ * Clean up a generated message and substitute any placeholders the model left in place
+ * Unknown recipient and candidate details become bracketed placeholders for the user to fill
+ */
+function finalizeMessage(text: string, values: TemplateValues): string {
+  return renderTemplate(cleanReferralText(text), values, true).text;
+}
+
+/**
+ * Remove job board mentions and filler phrases from a generated message
+ */
+function cleanReferralText(text: string): string {
+  return text.replace(/HireJobs/g, '')
+    .replace(/hirejobs/gi, '')
+    .replace(/as advertised on\s*\./, '')
+    .replace(/as posted on\s*\./, '')
+    .replace(/I hope this email finds you well\./g, '')
+    .replace(/I hope this message finds you well\./g, '')
+    .replace(/\n\n\n+/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Map an LLM provider error onto a user-facing error
+ */
+function toGenerationError(error: unknown, provider: LlmProvider, action = 'generate referral message'): Error {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  logger.error(`Error with ${provider.name} model ${provider.model}: ${errorMessage}`);
+
+  if (error instanceof LlmProviderError && error.code === 'invalid_api_key') {
+    return new Error('The API key is not valid. Please check your API key settings and try again.');
+  } else if (error instanceof LlmProviderError && error.code === 'quota_exceeded') {
+    return new Error('API quota exceeded. Please try again later or update your API key in settings.');
+  } else {
+    return new Error(`Failed to ${action}: ${errorMessage}`);
   }
 }
 
 /**
  * Creates the AI prompt from the template
+ * @param jobDetails Structured details of the posting such as location and experience, may be empty
+ * @param template Template with the known values already substituted
+ * @param unresolved Placeholders still present in the template
+ * @param candidateProfile Facts about the candidate relevant to the job, empty when the user has no profile or resume
+ * @param style Requested channel, tone and length, if any
  */
 function createPrompt(
   jobTitle: string,
   companyName: string,
   jobDescription: string,
-  template: string
+  jobDetails: string,
+  template: string,
+  unresolved: string[],
+  candidateProfile: string,
+  style: MessageOptions
 ): string {
+  let fillSkills = 'The job details have already been filled into the template.';
+  if (unresolved.includes('skills')) {
+    fillSkills = candidateProfile
+      ? 'Replace {skills} with up to 3 skills from the candidate profile that the job description asks for.'
+      : 'Replace {skills} with 3 of the most relevant skills from the job description.';
+  }
+
+  const profileSection = candidateProfile
+    ? `
+CANDIDATE PROFILE:
+---
+${candidateProfile}
+---
+`
+    : '';
+
+  const additionalInstructions: string[] = [];
+  if (candidateProfile) {
+    additionalInstructions.push(
+      'Base every statement about the candidate on the candidate profile and connect their experience to the job\'s requirements. If the template lists generic achievements, replace them with the most relevant projects or experience from the profile.',
+      'Never invent experience, employers, projects or numbers that are not in the candidate profile.'
+    );
+  }
+  if (style.channel) {
+    additionalInstructions.push(`${CHANNEL_SPECS[style.channel].instructions} This format takes precedence over the template's structure; keep the template's intent and key facts.`);
+  }
+  if (style.tone) {
+    additionalInstructions.push(TONE_INSTRUCTIONS[style.tone]);
+  }
+  // Notes and direct messages have a size of their own
+  if (style.length && !(style.channel && CHANNEL_SPECS[style.channel].shortForm)) {
+    additionalInstructions.push(`Keep the message to ${LENGTH_TARGETS[style.length].words}, shortening or expanding the template's sentences as needed.`);
+  }
+  const extraInstructions = additionalInstructions.map((instruction, index) => `\n${index + 7}. ${instruction}`).join('');
+
   return `
 You are tasked with creating a professional and personalized referral request message.
 
@@ -215,29 +671,150 @@ JOB POSTING DETAILS:
 ---
 Company: ${companyName}
 Job Title: ${jobTitle}
-Job Description:
+${jobDetails ? `${jobDetails}\n` : ''}Job Description:
 ${jobDescription}
 ---
-
+${profileSection}
 TEMPLATE:
 ${template}
 
 INSTRUCTIONS:
 1. Analyze the job description and identify key skills or qualifications needed for this position.
 2. Create a professionally-worded message following the provided template.
-3. Replace {jobTitle} with "${jobTitle}", {companyName} with "${companyName}", and {skills} with 3 of the most relevant skills from the job description.
-4. Keep the structure and format of the template, only replacing the placeholder variables.
+3. ${fillSkills}
+4. Keep the structure and format of the template. Leave every other placeholder in curly braces (such as {recipientName}) or square brackets (such as [RECIPIENT]) exactly as written.
 5. DO NOT mention "HireJobs" or any job board website in your message.
-6. Keep any existing formatting and structure from the template.
+6. Keep any existing formatting and structure from the template.${extraInstructions}
 `;
 }
 
+/**
+ * Creates the AI prompt for revising a message
+ * @param current The message to revise
+ * @param instruction The change the user asked for
+ * @param candidateProfile Facts about the candidate relevant to the job, empty when the user has no profile or resume
+ * @param channel Channel the message is written for, if any
+ */
+function createRefinementPrompt(
+  job: JobData,
+  current: ReferralDraft,
+  instruction: string,
+  candidateProfile: string,
+  channel?: MessageChannel
+): string {
+  const profileSection = candidateProfile
+    ? `
+CANDIDATE PROFILE:
+---
+${candidateProfile}
+---
+`
+    : '';
+
+  const factsInstruction = candidateProfile
+    ? 'Never invent experience, employers, projects or numbers that are not in the candidate profile or the current message. If the change needs a detail you do not have, add a placeholder in square brackets such as [YOUR KAFKA PROJECT].'
+    : 'Never invent experience, employers, projects or numbers. If the change needs a detail you do not have, add a placeholder in square brackets such as [YOUR KAFKA PROJECT].';
+
+  const channelInstruction = channel
+    ? `\n6. ${CHANNEL_SPECS[channel].instructions}`
+    : '';
+
+  return `
+You are revising a referral request message that a job candidate has already written.
+
+JOB POSTING DETAILS:
+---
+Company: ${job.company}
+Job Title: ${job.title}
+Job Description:
+${job.description}
+---
+${profileSection}
+CURRENT MESSAGE:
+---
+${formatReferralDraft(current)}
+---
+
+REQUESTED CHANGE:
+${instruction}
+
+INSTRUCTIONS:
+1. Apply the requested change to the current message.
+2. Keep everything the change does not ask about as close to the current message as possible.
+3. ${factsInstruction}
+4. Leave placeholders in curly braces or square brackets exactly as written unless the change fills them in.
+5. Return only the revised message, without any notes about what changed.${channelInstruction}
+`;
+}
+
+/**
+ * Creates the AI prompt for a message sent after a referral request
+ * @param task What the message has to do
+ * @param context The stored referral and the job it is for
+ * @param note Anything else the message should mention, in the user's words
+ */
+function createFollowUpPrompt(task: string, context: FollowUpContext, note?: string): string {
+  const { job, jobDetails, original, channel, tone } = context;
+  const details = jobDetails ? formatJobDetailsForPrompt({ ...jobDetails, ...job, skills: jobDetails.skills || [] }) : '';
+
+  const noteSection = note
+    ? `
+NOTE FROM THE CANDIDATE:
+${note}
+`
+    : '';
+
+  const additionalInstructions = [
+    channel
+      ? CHANNEL_SPECS[channel].instructions
+      : 'Keep the message under 120 words and write it in the same format as the original request.',
+    ...(channel && CHANNEL_SPECS[channel].hasSubject && original.subject
+      ? [`Reply in the same thread: use "Re: ${original.subject}" as the subject.`]
+      : []),
+    ...(tone ? [TONE_INSTRUCTIONS[tone]] : [])
+  ];
+  const extraInstructions = additionalInstructions.map((instruction, index) => `\n${index + 5}. ${instruction}`).join('');
+
+  return `
+You are writing a message for a job candidate who asked an employee at ${job.company} for a referral.
+
+JOB POSTING DETAILS:
+---
+Company: ${job.company}
+Job Title: ${job.title}
+${details ? `${details}\n` : ''}---
+
+ORIGINAL REFERRAL REQUEST:
+---
+${formatReferralDraft(original)}
+---
+${noteSection}
+TASK:
+${task}
+
+INSTRUCTIONS:
+1. Write to the same person the original request was addressed to, keeping their name or placeholder exactly as written.
+2. Match the greeting, sign-off and name used in the original request.
+3. Never invent details about the candidate, the application or the referrer. If the message needs a detail you do not have, add a placeholder in square brackets such as [INTERVIEW DATE].
+4. Return only the message, without any notes about it.${extraInstructions}
+`;
+}
+
+interface ActiveTemplate {
+  id?: string;
+  /** Changes whenever the template is edited */
+  version?: string;
+  name: string;
+  content: string;
+  variables: TemplateVariable[];
+}
+
 /**
  * Retrieves the active template for the given user ID
  * @param userId Optional user ID
- * @returns Template content as string
+ * @returns Template content with its ID, name and custom variables (no ID for the built-in fallback)
  */
-async function getActiveTemplate(userId?: string): Promise<string> {
+async function getActiveTemplate(userId?: string): Promise<ActiveTemplate> {
   let template;
   if (userId && mongoose.Types.ObjectId.isValid(userId)) {
     template = await Template.findOne({
@@ -253,7 +830,10 @@ async function getActiveTemplate(userId?: string): Promise<string> {
   }
 
   if (!template) {
-    return `
+    return {
+      name: 'Built-in Template',
+      variables: [],
+      content: `
 Applying for {jobTitle} at {companyName}
 
 Hey [RECIPIENT],
@@ -261,9 +841,7 @@ Hey [RECIPIENT],
 I'm a skilled developer with expertise in {skills}, and I'm reaching out about the {jobTitle} role at {companyName} ([JOB POST LINK]). Given your connection to the company, I wanted to ask if you would consider helping me with a referral.
 
 Work that I am most proud of:
-- Developed a comprehensive dashboard application for performance monitoring
-- Built a user-friendly web application with modern frontend technologies
-- Contributed to open-source projects focused on developer productivity
+{highlights}
 
 Beyond professional experience, I've created several personal projects which demonstrate my abilities and passion for technology.
 
@@ -272,64 +850,52 @@ My resume and portfolio provide further details about my experience and skills.
 Your time and consideration would mean a lot to me. Would you be open to referring me for this position?
 
 Thank you,
-[YOUR NAME]
-    `;
+{candidateName}
+    `
+    };
   }
   
-  return template.content;
+  return {
+    id: String(template._id),
+    version: String(template.updatedAt.getTime()),
+    name: template.name,
+    content: template.content,
+    variables: template.variables || []
+  };
 }
 
 
 /**
- * Extracts structured job details from raw job posting text using Gemini AI
+ * Extracts structured job details from raw job posting text using the user's LLM provider
  * 
  * @param jobContent Raw job posting text
  * @param userId Optional user ID to use their stored API key
- * @returns JobData object with extracted title, company, and description
+ * @returns Normalized job posting with the extracted title, company, description and details
  * @throws Error if extraction fails
  */
 export async function extractJobDetailsFromContent(
   jobContent: string,
   userId?: string
-): Promise<JobData> {
+): Promise<JobPosting> {
   logger.info(`Extracting job details from raw content${userId ? ` (user: ${userId})` : ''}`);
   
-  const contentPreview = jobContent.slice(0, 1000);
-  const contentHash = hashString(contentPreview);
-  const cacheKey = `extract:${userId || 'anon'}:${contentHash}`;
+  // Keyed by the content's job ID, so it is invalidated with the messages written from it
+  const cacheKey = getJobCacheKey(userId, createHashFromContent(jobContent), 'extract');
   
-  const cachedResult = messageCache.get<JobData>(cacheKey);
+  const cachedResult = await messageCache.get<JobPosting>(cacheKey);
   if (cachedResult) {
     logger.info(`Cache hit for job content extraction`);
     return cachedResult;
   }
   
-  const apiKey = await getUserApiKey(userId);
-  
-  if (!apiKey) {
-    throw new Error('No Gemini API key available. Please add an API key in your account settings.');
-  }
-  
-  const client = initGeminiClient(apiKey);
+  const provider = await resolveLlmProvider(userId);
   
   const prompt = createExtractionPrompt(jobContent);
-  const modelName = 'gemini-1.5-flash';
   
   try {
-    logger.info(`Using model: ${modelName} for job detail extraction`);
-    
-    const model = client.getGenerativeModel({
-      model: modelName,
-      generationConfig: {
-        temperature: 0.2,
-        topK: 40,
-        topP: 0.95,
-        maxOutputTokens: 1024,
-      },
-    });
+    logger.info(`Using provider: ${provider.name} with model ${provider.model} for job detail extraction`);
     
-    const result = await model.generateContent(prompt);
-    const text = result.response.text();
+    const text = await provider.generate(prompt, EXTRACTION_OPTIONS);
     
     try {
       const parsedResult = parseAIResponse(text);
@@ -346,13 +912,13 @@ export async function extractJobDetailsFromContent(
         throw new Error('Could not extract sufficient job description');
       }
       
-      const jobData: JobData = {
+      const jobData = normalizeJobPosting({
+        ...parsedResult,
         title: parsedResult.title.replace(/hirejobs/gi, '').trim(),
-        company: parsedResult.company.replace(/hirejobs/gi, '').trim(),
-        description: parsedResult.description
-      };
+        company: parsedResult.company.replace(/hirejobs/gi, '').trim()
+      });
       
-      messageCache.set(cacheKey, jobData);
+      await messageCache.set(cacheKey, jobData);
       
       logger.info(`Successfully extracted job details: ${jobData.title} at ${jobData.company}`);
       return jobData;
@@ -361,16 +927,7 @@ export async function extractJobDetailsFromContent(
       throw new Error('Failed to extract structured job data from content');
     }
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    logger.error(`Error with model ${modelName} during extraction: ${errorMessage}`);
-    
-    if (errorMessage.includes('API key not valid')) {
-      throw new Error('The API key is not valid. Please check your API key settings and try again.');
-    } else if (errorMessage.includes('quota')) {
-      throw new Error('API quota exceeded. Please try again later or update your API key in settings.');
-    } else {
-      throw new Error(`Failed to extract job details: ${errorMessage}`);
-    }
+    throw toGenerationError(error, provider, 'extract job details');
   }
 }
 
@@ -388,17 +945,25 @@ ${jobContent}
 
 INSTRUCTIONS:
 1. Extract the job title, company name, and a comprehensive job description from the provided content.
-2. Format your response as a structured JSON object with keys: "title", "company", and "description".
+2. Format your response as a structured JSON object with the keys shown below.
 3. For the description, include all important details from the job posting, including responsibilities, requirements, qualifications, benefits, etc.
 4. Ensure the description is comprehensive and well-structured with proper paragraphs.
 5. Remove any references to job boards like "HireJobs" from all fields.
 6. Make sure to capture the skills, requirements, and responsibilities accurately.
+7. Copy location, salary, experience, employment type and dates as written in the posting. Use null for anything the posting does not state; never guess.
 
 RESPONSE FORMAT:
 {
   "title": "The extracted job title",
   "company": "The company name",
-  "description": "A comprehensive, well-structured description that includes all important details from the job posting"
+  "description": "A comprehensive, well-structured description that includes all important details from the job posting",
+  "location": "Job location, including Remote or Hybrid if stated, e.g. \"Bengaluru, India (Hybrid)\"",
+  "salary": "Salary as written, e.g. \"12-18 LPA\" or \"$120,000 - $150,000 per year\"",
+  "experience": "Required experience as written, e.g. \"3-5 years\"",
+  "employmentType": "Full-time, Part-time, Contract, Temporary, Internship or Freelance",
+  "skills": ["Up to 15 key skills or technologies the job asks for"],
+  "postedDate": "Date the job was posted, e.g. \"2024-05-01\"",
+  "validThrough": "Application deadline, e.g. \"2024-06-30\""
 }
 
 Only provide the JSON object as your response, nothing else before or after.
@@ -408,7 +973,7 @@ Only provide the JSON object as your response, nothing else before or after.
 /**
  * Parses the AI response to extract structured job data
  */
-function parseAIResponse(aiResponse: string): JobData {
+function parseAIResponse(aiResponse: string): ParsedJobData {
   const jsonStr = aiResponse
     .replace(/^```json/i, '')
     .replace(/```$/i, '')
@@ -416,11 +981,22 @@ function parseAIResponse(aiResponse: string): JobData {
   
   try {
     const parsed = JSON.parse(jsonStr);
+    const optionalText = (value: unknown): string | undefined =>
+      typeof value === 'string' && value.trim() && value.trim().toLowerCase() !== 'null' ? value.trim() : undefined;
     
     return {
       title: parsed.title || '',
       company: parsed.company || '',
-      description: parsed.description || ''
+      description: parsed.description || '',
+      location: optionalText(parsed.location),
+      salary: optionalText(parsed.salary),
+      experience: optionalText(parsed.experience),
+      jobType: optionalText(parsed.employmentType),
+      postedDate: optionalText(parsed.postedDate),
+      validThrough: optionalText(parsed.validThrough),
+      skills: Array.isArray(parsed.skills)
+        ? parsed.skills.filter((skill: unknown): skill is string => typeof skill === 'string' && skill.trim() !== '')
+        : undefined
     };
   } catch (error) {
     logger.error(`JSON parsing error: ${error instanceof Error ? error.message : String(error)}`);
@@ -0,0 +1,102 @@
+import { logger } from '../utils/logger';
+import { getCacheStores } from '../cache/cacheRegistry';
+import { getJobCachePrefix, getUserCachePrefix, parseCacheKey } from '../cache/cacheKeys';
+import { getSourceJobId, removeFinishedReferralJobs, removeReferralJob, removeTemplateReferralJobs } from './jobQueueService';
+
+export interface UserCacheEntry {
+  /** Cache the entry is in: referrals, messages or url-validation */
+  cache: string;
+  /** What the entry holds, e.g. result, message, extract or url */
+  kind: string;
+  jobId?: string;
+  /** Key without the user prefix */
+  key: string;
+  storedAt?: Date;
+  expiresAt?: Date;
+  ageSeconds?: number;
+  ttlSeconds?: number;
+}
+
+/**
+ * Delete the entries whose key starts with prefix and matches the filter, in every cache
+ * @returns Number of removed entries
+ */
+async function deleteCacheEntries(prefix: string, filter: (key: string) => boolean = () => true): Promise<number> {
+  const counts = await Promise.all(getCacheStores().map(async store => {
+    const keys = (await store.entries(prefix)).map(entry => entry.key).filter(filter);
+    return keys.length > 0 ? store.del(keys) : 0;
+  }));
+
+  return counts.reduce((total, count) => total + count, 0);
+}
+
+/**
+ * List everything cached for a user, newest first
+ */
+export async function listUserCacheEntries(userId: string): Promise<UserCacheEntry[]> {
+  const prefix = getUserCachePrefix(userId);
+  const now = Date.now();
+
+  const entries = await Promise.all(getCacheStores().map(async store => (await store.entries(prefix)).map(entry => ({
+    cache: store.namespace,
+    ...parseCacheKey(entry.key),
+    key: entry.key.slice(prefix.length),
+    storedAt: entry.storedAt ? new Date(entry.storedAt) : undefined,
+    expiresAt: entry.expiresAt ? new Date(entry.expiresAt) : undefined,
+    ageSeconds: entry.storedAt ? Math.floor((now - entry.storedAt) / 1000) : undefined,
+    ttlSeconds: entry.expiresAt ? Math.max(Math.ceil((entry.expiresAt - now) / 1000), 0) : undefined
+  }))));
+
+  return entries
+    .flat()
+    .sort((a, b) => (b.storedAt?.getTime() || 0) - (a.storedAt?.getTime() || 0));
+}
+
+/**
+ * Remove everything cached for one of a user's jobs: its extracted details, messages, results and queued result
+ * @param jobId Job posting ID, content hash or queue job ID; options in a queue job ID are ignored
+ * @returns Number of removed entries
+ */
+export async function invalidateUserJobCache(userId: string, jobId: string): Promise<number> {
+  const sourceJobId = getSourceJobId(jobId);
+  const removed = await deleteCacheEntries(getJobCachePrefix(userId, sourceJobId));
+  const removedJob = await removeReferralJob(sourceJobId, userId);
+
+  logger.info(`Invalidated cache for job ${sourceJobId} (user: ${userId}, ${removed} entries)`);
+  return removed + (removedJob ? 1 : 0);
+}
+
+/**
+ * Remove a user's messages and finished queue jobs written with a template
+ * @returns Number of removed entries
+ */
+export async function invalidateUserTemplateCache(userId: string, templateId: string): Promise<number> {
+  const removed = await deleteCacheEntries(getUserCachePrefix(userId), key => key.includes(`:${templateId}@`));
+  const removedJobs = await removeTemplateReferralJobs(userId, templateId);
+
+  logger.info(`Invalidated cache for template ${templateId} (user: ${userId}, ${removed} entries)`);
+  return removed + removedJobs;
+}
+
+/**
+ * Remove everything cached for a user, including their finished queue jobs
+ * @returns Number of removed entries
+ */
+export async function clearUserCache(userId: string): Promise<number> {
+  const removed = await deleteCacheEntries(getUserCachePrefix(userId));
+  const removedJobs = await removeFinishedReferralJobs(userId);
+
+  logger.info(`Cleared cache for user ${userId} (${removed} entries, ${removedJobs} finished jobs)`);
+  return removed + removedJobs;
+}
+
+/**
+ * Remove every entry in every cache and all finished queue jobs, for all users
+ * @returns Number of removed entries
+ */
+export async function flushAllCaches(): Promise<number> {
+  const counts = await Promise.all(getCacheStores().map(store => store.clear()));
+  const removedJobs = await removeFinishedReferralJobs();
+
+  return counts.reduce((total, count) => total + count, 0) + removedJobs;
+}
@@ -0,0 +1,270 @@
+import mongoose from 'mongoose';
+import CandidateProfile, { ICandidateProfile } from '../models/candidateProfileModel';
+import { CandidateProfileData, CandidateProject, ParsedResume } from '../types/types';
+import { TemplateValues } from '../utils/templateEngine';
+import { extractSkills, matchSkills, mentionsTerm, normalizeSkill } from '../utils/skillMatcher';
+import { estimateYearsOfExperience, formatResumeForPrompt, getResume, selectRelevantResumeItems } from './resumeService';
+
+/**
+ * What the generator knows about the candidate for one job
+ */
+export interface CandidateContext {
+  /** Template values such as {candidateName} and {highlights} */
+  values: TemplateValues;
+  /** Candidate facts for the prompt; empty when the user has neither a profile nor a resume */
+  prompt: string;
+  /** Skills from the profile, the resume and its projects */
+  skills: string[];
+  yearsOfExperience?: number;
+  /** Changes whenever the profile or resume changes; undefined when there is neither */
+  version?: string;
+}
+
+const MAX_HIGHLIGHTED_PROJECTS = 3;
+const MAX_PROFILE_SKILLS = 50;
+const MAX_PROFILE_PROJECTS = 10;
+const MAX_TEMPLATE_SKILLS = 3;
+
+/**
+ * Get a user's candidate profile
+ * @returns The profile or null if the user has not created one
+ */
+export async function getCandidateProfile(userId: string): Promise<ICandidateProfile | null> {
+  if (!mongoose.Types.ObjectId.isValid(userId)) {
+    return null;
+  }
+
+  return CandidateProfile.findOne({ userId });
+}
+
+/**
+ * Create or replace a user's candidate profile
+ */
+export async function saveCandidateProfile(userId: string, data: CandidateProfileData): Promise<ICandidateProfile> {
+  const profile = await CandidateProfile.findOne({ userId }) || new CandidateProfile({ userId });
+
+  // Assigning undefined removes fields left out of the new profile
+  profile.name = data.name;
+  profile.currentRole = data.currentRole;
+  profile.currentCompany = data.currentCompany;
+  profile.yearsOfExperience = data.yearsOfExperience;
+  profile.skills = data.skills;
+  profile.projects = data.projects;
+  profile.links = data.links;
+
+  return profile.save();
+}
+
+/**
+ * Fill a user's candidate profile from a parsed resume
+ * Creates the profile if needed; existing values are kept and only missing ones are added
+ * @returns True if the profile was created or changed
+ */
+export async function fillProfileFromResume(userId: string, resume: ParsedResume): Promise<boolean> {
+  const existing = await getCandidateProfile(userId);
+  const profile: CandidateProfileData = existing || { skills: [], projects: [], links: [] };
+  const position = resume.experience[0];
+  const isCurrent = Boolean(position?.endDate && /present|current|now|till date|ongoing/i.test(position.endDate));
+
+  const knownSkills = new Set(profile.skills.map(skill => skill.toLowerCase()));
+  const newSkills = resume.skills.filter(skill => !knownSkills.has(skill.toLowerCase()));
+
+  const updated: CandidateProfileData = {
+    name: profile.name || resume.name,
+    currentRole: profile.currentRole || (isCurrent ? position.title.slice(0, 100) : undefined),
+    currentCompany: profile.currentCompany || (isCurrent ? position.company?.slice(0, 100) : undefined),
+    yearsOfExperience: profile.yearsOfExperience ?? estimateYearsOfExperience(resume.experience),
+    skills: [...profile.skills, ...newSkills].slice(0, MAX_PROFILE_SKILLS),
+    projects: profile.projects.length > 0 ? profile.projects : resume.projects.slice(0, MAX_PROFILE_PROJECTS),
+    links: profile.links
+  };
+
+  const changed = !existing
+    || updated.name !== profile.name
+    || updated.currentRole !== profile.currentRole
+    || updated.currentCompany !== profile.currentCompany
+    || updated.yearsOfExperience !== profile.yearsOfExperience
+    || updated.skills.length !== profile.skills.length
+    || updated.projects.length !== profile.projects.length;
+
+  if (changed) {
+    await saveCandidateProfile(userId, updated);
+  }
+
+  return changed;
+}
+
+/**
+ * Delete a user's candidate profile
+ * @returns True if a profile was deleted
+ */
+export async function deleteCandidateProfile(userId: string): Promise<boolean> {
+  const result = await CandidateProfile.deleteOne({ userId });
+  return result.deletedCount > 0;
+}
+
+/**
+ * Get the candidate's skills that the job description asks for, in the candidate's order
+ */
+export function getMatchingSkills(profile: CandidateProfileData, jobDescription: string): string[] {
+  return profile.skills.filter(skill => mentionsTerm(jobDescription, skill));
+}
+
+/**
+ * Pick the projects that best match a job
+ * Projects are ranked by how many of their technologies and matching skills the job mentions;
+ * ties keep the order the user chose.
+ */
+export function selectRelevantProjects(
+  profile: CandidateProfileData,
+  jobDescription: string,
+  limit = MAX_HIGHLIGHTED_PROJECTS
+): CandidateProject[] {
+  const matchingSkills = getMatchingSkills(profile, jobDescription);
+
+  const score = (project: CandidateProject): number => {
+    const technologies = project.technologies.filter(technology => mentionsTerm(jobDescription, technology)).length;
+    const skills = matchingSkills.filter(skill => mentionsTerm(`${project.name} ${project.description}`, skill)).length;
+    return technologies * 2 + skills;
+  };
+
+  return profile.projects
+    .map((project, index) => ({ project, index, score: score(project) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, limit)
+    .map(entry => entry.project);
+}
+
+/**
+ * Format projects as the bullet list used for the {highlights} placeholder
+ */
+export function formatHighlights(projects: CandidateProject[]): string {
+  return projects
+    .map(project => `- ${project.name}: ${project.description}${project.url ? ` (${project.url})` : ''}`)
+    .join('\n');
+}
+
+/**
+ * Get the template values a candidate profile provides for a job
+ */
+export function getProfileTemplateValues(profile: CandidateProfileData, jobDescription: string): TemplateValues {
+  return {
+    candidateName: profile.name,
+    highlights: formatHighlights(selectRelevantProjects(profile, jobDescription))
+  };
+}
+
+/**
+ * Describe the candidate for the referral prompt, listing only what is relevant to the job
+ */
+export function formatProfileForPrompt(profile: CandidateProfileData, jobDescription: string): string {
+  const lines: string[] = [];
+
+  if (profile.name) {
+    lines.push(`Name: ${profile.name}`);
+  }
+
+  if (profile.currentRole) {
+    lines.push(`Current role: ${profile.currentRole}${profile.currentCompany ? ` at ${profile.currentCompany}` : ''}`);
+  }
+
+  if (profile.yearsOfExperience !== undefined) {
+    lines.push(`Years of experience: ${profile.yearsOfExperience}`);
+  }
+
+  const matchingSkills = getMatchingSkills(profile, jobDescription);
+  if (matchingSkills.length > 0) {
+    lines.push(`Skills relevant to this job: ${matchingSkills.join(', ')}`);
+  }
+
+  const otherSkills = profile.skills.filter(skill => !matchingSkills.includes(skill));
+  if (otherSkills.length > 0) {
+    lines.push(`Other skills: ${otherSkills.join(', ')}`);
+  }
+
+  const projects = selectRelevantProjects(profile, jobDescription);
+  if (projects.length > 0) {
+    lines.push('Most relevant projects:');
+    for (const project of projects) {
+      const technologies = project.technologies.length > 0 ? ` [${project.technologies.join(', ')}]` : '';
+      lines.push(`- ${project.name}: ${project.description}${technologies}`);
+    }
+  }
+
+  if (profile.links.length > 0) {
+    lines.push(`Links: ${profile.links.map(link => `${link.label}: ${link.url}`).join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Gather what the user's candidate profile and resume say that is relevant to a job
+ * Profile projects take precedence for {highlights}; resume bullet points are used when the profile has none.
+ * {skills} is filled with the candidate's skills the job asks for most.
+ */
+export async function getCandidateContext(userId: string | undefined, jobDescription: string): Promise<CandidateContext> {
+  if (!userId) {
+    return { values: {}, prompt: '', skills: [] };
+  }
+
+  const [profile, resume] = await Promise.all([
+    getCandidateProfile(userId),
+    getResume(userId)
+  ]);
+
+  if (!profile && !resume) {
+    return { values: {}, prompt: '', skills: [] };
+  }
+
+  const skills = getCandidateSkills(profile, resume);
+  const values: TemplateValues = profile ? getProfileTemplateValues(profile, jobDescription) : {};
+
+  const { matched } = matchSkills(extractSkills(jobDescription, skills), skills);
+  if (matched.length > 0) {
+    values.skills = matched.slice(0, MAX_TEMPLATE_SKILLS);
+  }
+
+  if (resume) {
+    values.candidateName = values.candidateName || resume.name;
+
+    if (!values.highlights) {
+      values.highlights = selectRelevantResumeItems(resume, jobDescription)
+        .map(item => `- ${item}`)
+        .join('\n');
+    }
+  }
+
+  const prompt = [
+    profile ? formatProfileForPrompt(profile, jobDescription) : '',
+    resume ? formatResumeForPrompt(resume, jobDescription) : ''
+  ].filter(section => section).join('\n');
+
+  return {
+    values,
+    prompt,
+    skills,
+    yearsOfExperience: profile?.yearsOfExperience ?? (resume ? estimateYearsOfExperience(resume.experience) : undefined),
+    version: `${profile?.updatedAt.getTime() || 0}-${resume?.updatedAt.getTime() || 0}`
+  };
+}
+
+/**
+ * Combine the skills listed in the profile, the resume and the resume's projects, without duplicates
+ */
+function getCandidateSkills(profile: CandidateProfileData | null, resume: ParsedResume | null): string[] {
+  const skills = new Map<string, string>();
+
+  for (const skill of [
+    ...(profile?.skills || []),
+    ...(resume?.skills || []),
+    ...(resume?.projects.flatMap(project => project.technologies) || [])
+  ]) {
+    const name = normalizeSkill(skill);
+    if (name && !skills.has(name.toLowerCase())) {
+      skills.set(name.toLowerCase(), name);
+    }
+  }
+
+  return [...skills.values()];
+}
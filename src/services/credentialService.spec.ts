@@ -0,0 +1,162 @@
+import mongoose from 'mongoose';
+import Credential from '../models/credentialModel';
+import { activateCredential, addCredential } from './credentialService';
+
+jest.mock('../models/credentialModel', () => ({
+  __esModule: true,
+  default: {
+    create: jest.fn(),
+    distinct: jest.fn(),
+    exists: jest.fn(),
+    findOne: jest.fn(),
+    updateMany: jest.fn(),
+    updateOne: jest.fn()
+  }
+}));
+
+jest.mock('../models/userModel', () => ({
+  __esModule: true,
+  default: {
+    findOne: jest.fn(() => ({ select: jest.fn().mockResolvedValue(null) }))
+  }
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+interface StoredCredential {
+  _id: mongoose.Types.ObjectId;
+  userId: string;
+  provider: string;
+  label: string;
+  isActive: boolean;
+}
+
+const userId = new mongoose.Types.ObjectId().toString();
+const credentialModel = jest.mocked(Credential);
+
+/**
+ * Build the error MongoDB raises when a write breaks a unique index
+ */
+function duplicateKeyError(keyPattern: Record<string, number>): mongoose.mongo.MongoServerError {
+  const error = new mongoose.mongo.MongoServerError({ message: 'E11000 duplicate key error' });
+  error.code = 11000;
+  error.keyPattern = keyPattern;
+  return error;
+}
+
+/**
+ * Back the mocked model with an in-memory collection that enforces the unique label and active key indexes
+ */
+function useCredentialStore(): StoredCredential[] {
+  const store: StoredCredential[] = [];
+  const matches = (filter: Record<string, unknown>) => (credential: StoredCredential) =>
+    Object.entries(filter).every(([key, value]) => String(credential[key as keyof StoredCredential]) === String(value));
+
+  credentialModel.distinct.mockImplementation(((field: keyof StoredCredential, filter: Record<string, unknown>) =>
+    Promise.resolve(store.filter(matches(filter)).map(credential => credential[field]))) as never);
+  credentialModel.exists.mockImplementation(((filter: Record<string, unknown>) =>
+    Promise.resolve(store.some(matches(filter)) ? { _id: 'found' } : null)) as never);
+  credentialModel.updateMany.mockImplementation(((filter: Record<string, unknown>, update: { $set: Partial<StoredCredential> }) => {
+    store.filter(matches(filter)).forEach(credential => Object.assign(credential, update.$set));
+    return Promise.resolve({});
+  }) as never);
+  credentialModel.updateOne.mockImplementation(((filter: Record<string, unknown>, update: { $set: Partial<StoredCredential> }) => {
+    const credential = store.find(matches(filter))!;
+    if (update.$set.isActive && store.some(other => other !== credential && other.provider === credential.provider && other.isActive)) {
+      return Promise.reject(duplicateKeyError({ userId: 1, provider: 1 }));
+    }
+    Object.assign(credential, update.$set);
+    return Promise.resolve({});
+  }) as never);
+  credentialModel.create.mockImplementation(((fields: StoredCredential) => {
+    if (store.some(matches({ userId: fields.userId, provider: fields.provider, label: fields.label }))) {
+      return Promise.reject(duplicateKeyError({ userId: 1, provider: 1, label: 1 }));
+    }
+    const credential = { ...fields, _id: new mongoose.Types.ObjectId(), isActive: false };
+    store.push(credential);
+    return Promise.resolve(credential);
+  }) as never);
+  credentialModel.findOne.mockImplementation(((filter: Record<string, unknown>) =>
+    Promise.resolve(store.find(matches(filter)) || null)) as never);
+
+  return store;
+}
+
+describe('credentialService', () => {
+  const savedKey = process.env.ENCRYPTION_KEY;
+
+  beforeAll(() => {
+    process.env.ENCRYPTION_KEY = 'test-secret';
+  });
+
+  afterAll(() => {
+    process.env.ENCRYPTION_KEY = savedKey;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('addCredential', () => {
+    it('numbers the default labels of unlabelled keys for the same provider', async () => {
+      const store = useCredentialStore();
+
+      await addCredential(userId, { provider: 'openai', apiKey: 'sk-first-key-0123456789' });
+      await addCredential(userId, { provider: 'openai', apiKey: 'sk-second-key-0123456789' });
+      await addCredential(userId, { provider: 'openai', apiKey: 'sk-third-key-0123456789', label: 'Work' });
+      await addCredential(userId, { provider: 'openai', apiKey: 'sk-fourth-key-0123456789' });
+
+      expect(store.map(credential => credential.label)).toEqual(['OpenAI key', 'OpenAI key 2', 'Work', 'OpenAI key 3']);
+      expect(store.map(credential => credential.isActive)).toEqual([true, false, false, false]);
+    });
+
+    it('picks another default label when a concurrent request took the same one', async () => {
+      const store = useCredentialStore();
+      credentialModel.distinct.mockResolvedValueOnce([] as never);
+      store.push({ _id: new mongoose.Types.ObjectId(), userId, provider: 'openai', label: 'OpenAI key', isActive: true });
+
+      const credential = await addCredential(userId, { provider: 'openai', apiKey: 'sk-second-key-0123456789' });
+
+      expect(credential.label).toBe('OpenAI key 2');
+      expect(credentialModel.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('reports a duplicate label the user chose', async () => {
+      useCredentialStore();
+
+      await addCredential(userId, { provider: 'openai', apiKey: 'sk-first-key-0123456789', label: 'Work' });
+
+      await expect(addCredential(userId, { provider: 'openai', apiKey: 'sk-second-key-0123456789', label: 'Work' }))
+        .rejects.toMatchObject({ code: 11000 });
+      expect(credentialModel.create).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('activateCredential', () => {
+    it('makes the credential the only active key for its provider', async () => {
+      const store = useCredentialStore();
+      await addCredential(userId, { provider: 'openai', apiKey: 'sk-first-key-0123456789' });
+      const second = await addCredential(userId, { provider: 'openai', apiKey: 'sk-second-key-0123456789' });
+
+      const activated = await activateCredential(userId, String(second._id));
+
+      expect(activated?.isActive).toBe(true);
+      expect(store.map(credential => credential.isActive)).toEqual([false, true]);
+    });
+
+    it('retries when a concurrent activation takes the active slot', async () => {
+      const store = useCredentialStore();
+      await addCredential(userId, { provider: 'openai', apiKey: 'sk-first-key-0123456789' });
+      const second = await addCredential(userId, { provider: 'openai', apiKey: 'sk-second-key-0123456789' });
+      credentialModel.updateMany.mockClear();
+      credentialModel.updateOne.mockRejectedValueOnce(duplicateKeyError({ userId: 1, provider: 1 }) as never);
+
+      await activateCredential(userId, String(second._id));
+
+      expect(credentialModel.updateMany).toHaveBeenCalledTimes(2);
+      expect(store.map(credential => credential.isActive)).toEqual([false, true]);
+    });
+  });
+});
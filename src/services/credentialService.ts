@@ -0,0 +1,399 @@
+import mongoose from 'mongoose';
+import { logger } from '../utils/logger';
+import Credential, { ICredential } from '../models/credentialModel';
+import User from '../models/userModel';
+import { encryptSecret, decryptSecret, needsReEncryption } from '../utils/encryption';
+import { LlmProviderError, isDuplicateKeyError } from '../utils/errorHandler';
+import { LlmProviderName } from '../types/types';
+import { createLlmProvider, getProviderLabel, verifyLlmProvider } from '../providers/providerRegistry';
+
+// Concurrent requests can take the same default label or active slot; the write is retried this many times
+const MAX_WRITE_ATTEMPTS = 3;
+
+export interface NewCredential {
+  provider: LlmProviderName;
+  apiKey: string;
+  label?: string;
+  activate?: boolean;
+  verified?: boolean;
+}
+
+export interface CredentialVerification {
+  valid: boolean;
+  message: string;
+}
+
+/**
+ * Mask an API key for display, keeping only a few characters at each end
+ */
+export function maskApiKey(apiKey: string): string {
+  if (apiKey.length < 12) {
+    return `****${apiKey.slice(-2)}`;
+  }
+
+  return `${apiKey.slice(0, 4)}...${apiKey.slice(-4)}`;
+}
+
+/**
+ * Shape a credential for API responses; the key itself is never included
+ */
+export function toCredentialResponse(credential: ICredential) {
+  return {
+    id: String(credential._id),
+    provider: credential.provider,
+    label: credential.label,
+    keyPreview: credential.keyPreview,
+    isActive: credential.isActive,
+    status: credential.status,
+    lastVerifiedAt: credential.lastVerifiedAt || null,
+    lastUsedAt: credential.lastUsedAt || null,
+    createdAt: credential.createdAt,
+    updatedAt: credential.updatedAt
+  };
+}
+
+/**
+ * List a user's stored credentials, newest first
+ */
+export async function listCredentials(userId: string, provider?: LlmProviderName): Promise<ICredential[]> {
+  await migrateLegacyGeminiKey(userId);
+
+  const filter: Record<string, unknown> = { userId };
+  if (provider) {
+    filter.provider = provider;
+  }
+
+  return Credential.find(filter).sort({ provider: 1, createdAt: -1 });
+}
+
+/**
+ * Get one of a user's credentials
+ * @returns The credential or null if it does not exist or belongs to another user
+ */
+export async function getCredential(userId: string, credentialId: string): Promise<ICredential | null> {
+  if (!mongoose.Types.ObjectId.isValid(credentialId)) {
+    return null;
+  }
+
+  return Credential.findOne({ _id: credentialId, userId });
+}
+
+/**
+ * Pick an unused default label for a new credential, e.g. "OpenAI key" and then "OpenAI key 2"
+ */
+async function getDefaultLabel(userId: string, provider: LlmProviderName): Promise<string> {
+  const baseLabel = `${getProviderLabel(provider)} key`;
+  const labels = new Set<string>(await Credential.distinct('label', { userId, provider }));
+
+  let label = baseLabel;
+  for (let suffix = 2; labels.has(label); suffix++) {
+    label = `${baseLabel} ${suffix}`;
+  }
+
+  return label;
+}
+
+/**
+ * Store a new encrypted credential
+ * Unlabelled credentials get a numbered default label. The credential becomes active when requested
+ * or when the user has no active key for the provider yet
+ */
+export async function addCredential(userId: string, input: NewCredential): Promise<ICredential> {
+  await migrateLegacyGeminiKey(userId);
+
+  const encryptedKey = encryptSecret(input.apiKey);
+  const hasActive = await Credential.exists({ userId, provider: input.provider, isActive: true });
+  let credential: ICredential | undefined;
+
+  for (let attempt = 1; !credential; attempt++) {
+    try {
+      credential = await Credential.create({
+        userId,
+        provider: input.provider,
+        label: input.label || await getDefaultLabel(userId, input.provider),
+        encryptedKey,
+        keyPreview: maskApiKey(input.apiKey),
+        status: input.verified ? 'valid' : 'unverified',
+        lastVerifiedAt: input.verified ? new Date() : undefined
+      });
+    } catch (error) {
+      // A concurrent request may have taken the same default label
+      if (input.label || !isDuplicateKeyError(error, 'label') || attempt >= MAX_WRITE_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+
+  if (input.activate || !hasActive) {
+    return (await activateCredential(userId, String(credential._id))) || credential;
+  }
+
+  return credential;
+}
+
+/**
+ * Replace the key of the user's active credential for a provider, creating one if needed
+ */
+export async function saveActiveApiKey(userId: string, provider: LlmProviderName, apiKey: string, verified = false): Promise<ICredential> {
+  await migrateLegacyGeminiKey(userId);
+
+  const credential = await Credential.findOneAndUpdate(
+    { userId, provider, isActive: true },
+    {
+      $set: {
+        encryptedKey: encryptSecret(apiKey),
+        keyPreview: maskApiKey(apiKey),
+        status: verified ? 'valid' : 'unverified',
+        ...(verified ? { lastVerifiedAt: new Date() } : {})
+      },
+      $unset: { iv: '' }
+    },
+    { new: true }
+  );
+
+  return credential || addCredential(userId, { provider, apiKey, activate: true, verified });
+}
+
+/**
+ * Rename a credential
+ * @returns The updated credential or null if it was not found
+ */
+export async function renameCredential(userId: string, credentialId: string, label: string): Promise<ICredential | null> {
+  if (!mongoose.Types.ObjectId.isValid(credentialId)) {
+    return null;
+  }
+
+  return Credential.findOneAndUpdate(
+    { _id: credentialId, userId },
+    { $set: { label } },
+    { new: true, runValidators: true }
+  );
+}
+
+/**
+ * Make a credential the active one for its provider
+ * @returns The activated credential or null if it was not found
+ */
+export async function activateCredential(userId: string, credentialId: string): Promise<ICredential | null> {
+  const credential = await getCredential(userId, credentialId);
+
+  if (!credential) {
+    return null;
+  }
+
+  if (credential.isActive) {
+    return credential;
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    await Credential.updateMany(
+      { userId, provider: credential.provider, isActive: true },
+      { $set: { isActive: false } }
+    );
+
+    try {
+      await Credential.updateOne({ _id: credential._id }, { $set: { isActive: true } });
+      credential.isActive = true;
+      break;
+    } catch (error) {
+      // A concurrent activation took the active slot between the two writes; activate over it
+      if (!isDuplicateKeyError(error) || attempt >= MAX_WRITE_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+
+  logger.info(`Activated ${credential.provider} credential ${credential._id} for user: ${userId}`);
+  return credential;
+}
+
+/**
+ * Delete a credential; when it was active, the newest remaining key of the provider takes over
+ * @returns The deleted credential or null if it was not found
+ */
+export async function removeCredential(userId: string, credentialId: string): Promise<ICredential | null> {
+  if (!mongoose.Types.ObjectId.isValid(credentialId)) {
+    return null;
+  }
+
+  const credential = await Credential.findOneAndDelete({ _id: credentialId, userId });
+
+  if (credential?.isActive) {
+    const replacement = await Credential.findOne({ userId, provider: credential.provider }).sort({ createdAt: -1 });
+
+    if (replacement) {
+      replacement.isActive = true;
+      await replacement.save();
+    }
+  }
+
+  return credential;
+}
+
+/**
+ * Delete the user's active credential for a provider
+ * @returns True if a credential was deleted
+ */
+export async function removeActiveCredential(userId: string, provider: LlmProviderName): Promise<boolean> {
+  await migrateLegacyGeminiKey(userId);
+
+  const credential = await Credential.findOne({ userId, provider, isActive: true });
+  if (!credential) {
+    return false;
+  }
+
+  return Boolean(await removeCredential(userId, String(credential._id)));
+}
+
+/**
+ * Get the user's active credential for a provider
+ * @returns The credential or null if the user has no active key for the provider
+ */
+export async function getActiveCredential(userId: string, provider: LlmProviderName): Promise<ICredential | null> {
+  await migrateLegacyGeminiKey(userId);
+
+  return Credential.findOne({ userId, provider, isActive: true });
+}
+
+/**
+ * Get the decrypted key of the user's active credential for a provider and record its use
+ * @returns The API key or null if the user has no usable key
+ */
+export async function getActiveApiKey(userId: string, provider: LlmProviderName): Promise<string | null> {
+  if (!mongoose.Types.ObjectId.isValid(userId)) {
+    return null;
+  }
+
+  await migrateLegacyGeminiKey(userId);
+
+  const credential = await Credential.findOne({ userId, provider, isActive: true }).select('+encryptedKey +iv');
+  if (!credential) {
+    return null;
+  }
+
+  const apiKey = decryptCredential(credential);
+
+  if (apiKey) {
+    Credential.updateOne({ _id: credential._id }, { $set: { lastUsedAt: new Date() } }).catch(error => {
+      logger.warn(`Failed to record credential use: ${error instanceof Error ? error.message : String(error)}`);
+    });
+
+    if (needsReEncryption(credential.encryptedKey)) {
+      reEncryptCredential(credential, apiKey).catch(error => {
+        logger.warn(`Failed to re-encrypt credential ${credential._id}: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }
+  }
+
+  return apiKey;
+}
+
+/**
+ * Verify a stored credential against its provider and record the outcome
+ * @returns The verification result or null if the credential was not found
+ */
+export async function verifyCredential(userId: string, credentialId: string): Promise<{ credential: ICredential; verification: CredentialVerification } | null> {
+  if (!mongoose.Types.ObjectId.isValid(credentialId)) {
+    return null;
+  }
+
+  const credential = await Credential.findOne({ _id: credentialId, userId }).select('+encryptedKey +iv');
+  if (!credential) {
+    return null;
+  }
+
+  const label = getProviderLabel(credential.provider);
+  const apiKey = decryptCredential(credential);
+  let verification: CredentialVerification;
+
+  if (!apiKey) {
+    verification = { valid: false, message: `${label} API key could not be decrypted` };
+  } else {
+    try {
+      await verifyLlmProvider(createLlmProvider(credential.provider, { apiKey }));
+      verification = { valid: true, message: `${label} API key is valid` };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`${label} API key validation failed: ${errorMessage}`);
+
+      verification = {
+        valid: false,
+        message: error instanceof LlmProviderError && error.code !== 'invalid_api_key'
+          ? `Could not verify ${label} API key. Please try again later.`
+          : `${label} API key is invalid or has expired`
+      };
+    }
+  }
+
+  credential.status = verification.valid ? 'valid' : 'invalid';
+  credential.lastVerifiedAt = new Date();
+  await credential.save();
+
+  return { credential, verification };
+}
+
+/**
+ * Decrypt a credential loaded with its encrypted fields
+ */
+function decryptCredential(credential: ICredential): string | null {
+  try {
+    return decryptSecret(credential.encryptedKey, credential.iv);
+  } catch (error) {
+    logger.error(`Error decrypting credential ${credential._id}: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * Re-encrypt a credential under the current master key
+ * The update only applies if the stored ciphertext has not changed in the meantime
+ * @returns True if the credential was updated
+ */
+export async function reEncryptCredential(credential: ICredential, apiKey: string): Promise<boolean> {
+  const result = await Credential.updateOne(
+    { _id: credential._id, encryptedKey: credential.encryptedKey },
+    { $set: { encryptedKey: encryptSecret(apiKey) }, $unset: { iv: '' } }
+  );
+
+  return result.modifiedCount > 0;
+}
+
+/**
+ * Move the single Gemini key stored on the user document into the credential vault
+ * Runs lazily the first time the vault is used for a user
+ */
+async function migrateLegacyGeminiKey(userId: string): Promise<void> {
+  const user = await User.findOne({
+    _id: userId,
+    encryptedGeminiApiKey: { $exists: true }
+  }).select('+encryptedGeminiApiKey +iv');
+
+  if (!user?.encryptedGeminiApiKey) {
+    return;
+  }
+
+  try {
+    const apiKey = decryptSecret(user.encryptedGeminiApiKey, user.iv);
+    const hasActive = await Credential.exists({ userId, provider: 'gemini', isActive: true });
+
+    await Credential.create({
+      userId,
+      provider: 'gemini',
+      label: 'Gemini API key',
+      encryptedKey: encryptSecret(apiKey),
+      keyPreview: maskApiKey(apiKey),
+      isActive: !hasActive
+    });
+
+    logger.info(`Migrated legacy Gemini API key to the credential vault for user: ${userId}`);
+  } catch (error) {
+    // A concurrent request may have migrated the key already. Otherwise the legacy key is kept, so it
+    // can still be migrated once the right LEGACY_ENCRYPTION_KEY is configured
+    if (!isDuplicateKeyError(error)) {
+      logger.error(`Failed to migrate legacy Gemini API key for user ${userId}, keeping it: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+  }
+
+  await User.updateOne({ _id: userId }, { $unset: { encryptedGeminiApiKey: '', iv: '' } });
+}
@@ -0,0 +1,573 @@
+import os from 'os';
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { BlockedUrlError, JobExtractionError, LlmProviderError, isDuplicateKeyError } from '../utils/errorHandler';
+import ReferralJob, { IReferralJob } from '../models/referralJobModel';
+import { scrapeJobPosting } from './crawlerService';
+import { extractJobDetailsFromContent, generateReferralMessage, getMessageStyleKey } from './aiService';
+import { recordReferral } from './referralHistoryService';
+import { normalizeTitleAndCompany } from '../utils/parser';
+import { getJobDetails } from '../utils/jobNormalizer';
+import { publishProgress, ReferralProgressEvent } from './progressService';
+import { JobPosting, MessageOptions, ReferralStage } from '../types/types';
+
+const WORKER_CONCURRENCY = Math.max(parseInt(process.env.CRAWLER_PARALLEL_JOBS || '1', 10) || 1, 1);
+const LEASE_DURATION_MS = parseInt(process.env.JOB_LEASE_MS || '180000', 10);
+const MAX_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS || '3', 10);
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000', 10);
+const RETRY_BASE_DELAY_MS = 5000;
+const SUCCESS_RETENTION_MS = parseInt(process.env.CACHE_TTL || '3600', 10) * 1000;
+const FAILURE_RETENTION_MS = 300 * 1000;
+// Separates the source job ID from the message options in queue job IDs, e.g. "hirejobs_abc123~formal.short.3"
+const JOB_OPTIONS_SEPARATOR = '~';
+
+const workerId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+
+let activeJobs = 0;
+let pollTimer: NodeJS.Timeout | null = null;
+let pumping = false;
+
+export type FinishedReferralJob = Pick<IReferralJob, 'jobId' | 'userId' | 'status' | 'result' | 'error'>;
+
+const finishedJobListeners: ((job: FinishedReferralJob) => Promise<void>)[] = [];
+
+export interface EnqueueReferralJobInput {
+  /** Queue job ID from getReferralJobId */
+  jobId: string;
+  /** Either the job URL to scrape or the raw job content */
+  jobUrl?: string;
+  jobContent?: string;
+  userId?: string;
+  options?: MessageOptions;
+  /** Scope from getGenerationCacheScope; finished jobs with another scope are generated again */
+  generationScope: string;
+}
+
+/**
+ * Get the queue job ID for a job posting and message options
+ * Requests for the same posting with other options are separate jobs with their own results
+ */
+export function getReferralJobId(sourceJobId: string, options: MessageOptions = {}): string {
+  const style = getMessageStyleKey(options);
+  return style ? `${sourceJobId}${JOB_OPTIONS_SEPARATOR}${style}` : sourceJobId;
+}
+
+/**
+ * Get the job posting's ID from a queue job ID
+ */
+export function getSourceJobId(jobId: string): string {
+  return jobId.split(JOB_OPTIONS_SEPARATOR)[0];
+}
+
+/**
+ * Queue a referral generation job, or return the existing job for the same user and job ID
+ * Finished jobs whose retention has lapsed, or that were generated with another template version or model,
+ * are reset and queued again
+ */
+export async function enqueueReferralJob(input: EnqueueReferralJobInput): Promise<IReferralJob> {
+  const now = new Date();
+  // An explicit null keeps anonymous jobs from matching other users' jobs
+  const filter = { userId: input.userId ?? null, jobId: input.jobId };
+
+  let job: IReferralJob;
+  try {
+    job = await ReferralJob.findOneAndUpdate(
+      filter,
+      {
+        $setOnInsert: {
+          jobUrl: input.jobUrl,
+          jobContent: input.jobContent,
+          options: input.options || {},
+          generationScope: input.generationScope,
+          status: 'queued',
+          stage: 'queued',
+          stageMessage: 'Waiting for a worker',
+          attempts: 0,
+          maxAttempts: MAX_ATTEMPTS,
+          runAt: now
+        }
+      },
+      { upsert: true, new: true }
+    );
+  } catch (error) {
+    // A concurrent request for the same job inserted it first
+    const existing = isDuplicateKeyError(error) ? await ReferralJob.findOne(filter) : null;
+    if (!existing) {
+      throw error;
+    }
+    job = existing;
+  }
+
+  // TTL removal runs about once a minute, so expired results may still be present
+  const expired = !!job.expiresAt && job.expiresAt <= now;
+  const stale = isFinishedJob(job) && job.generationScope !== input.generationScope;
+
+  if (expired || stale) {
+    const requeued = await ReferralJob.findOneAndUpdate(
+      {
+        _id: job._id,
+        $or: [
+          { expiresAt: { $lte: now } },
+          { status: { $in: ['succeeded', 'failed'] }, generationScope: { $ne: input.generationScope } }
+        ]
+      },
+      {
+        $set: {
+          jobUrl: input.jobUrl,
+          jobContent: input.jobContent,
+          generationScope: input.generationScope,
+          status: 'queued',
+          stage: 'queued',
+          stageMessage: 'Waiting for a worker',
+          attempts: 0,
+          runAt: now
+        },
+        $unset: { result: '', error: '', expiresAt: '', leaseExpiresAt: '', workerId: '', startedAt: '', completedAt: '' }
+      },
+      { new: true }
+    );
+
+    if (requeued) {
+      logger.info(`Re-queued ${expired ? 'expired' : 'outdated'} referral job ${input.jobId}`);
+      triggerWorker();
+      return requeued;
+    }
+  }
+
+  if (job.status === 'queued') {
+    triggerWorker();
+  }
+
+  return job;
+}
+
+/**
+ * Register a callback for jobs that finish on this instance, successfully or after their final attempt
+ * Jobs failed for an expired lease on the final attempt are not reported
+ */
+export function onReferralJobFinished(listener: (job: FinishedReferralJob) => Promise<void>): void {
+  finishedJobListeners.push(listener);
+}
+
+/**
+ * Run the finished job callbacks; their failures are logged and never affect the job
+ */
+function notifyJobFinished(job: FinishedReferralJob): void {
+  for (const listener of finishedJobListeners) {
+    listener(job).catch(error => {
+      logger.warn(`Failed to handle finished job ${job.jobId}: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }
+}
+
+/**
+ * Whether a job has finished, successfully or not
+ */
+export function isFinishedJob(job: IReferralJob): boolean {
+  return job.status === 'succeeded' || job.status === 'failed';
+}
+
+/**
+ * Get the referral job for a user and job ID
+ */
+export async function getReferralJob(jobId: string, userId?: string): Promise<IReferralJob | null> {
+  return ReferralJob.findOne({ userId: userId ?? null, jobId });
+}
+
+/**
+ * Get a user's referral jobs by job ID
+ */
+export async function getReferralJobs(jobIds: string[], userId?: string): Promise<IReferralJob[]> {
+  return ReferralJob.find({ userId: userId ?? null, jobId: { $in: jobIds } });
+}
+
+/**
+ * Remove a job posting's referral jobs, for all message options, so the next submission starts from scratch
+ * Running jobs are left alone so their worker can finish cleanly
+ * @returns Whether a job was removed
+ */
+export async function removeReferralJob(jobId: string, userId?: string): Promise<boolean> {
+  const sourceJobId = getSourceJobId(jobId);
+  const result = await ReferralJob.deleteMany({
+    userId: userId ?? null,
+    jobId: { $in: [sourceJobId, new RegExp(`^${escapeRegex(sourceJobId)}${JOB_OPTIONS_SEPARATOR}`)] },
+    status: { $ne: 'running' }
+  });
+  return result.deletedCount > 0;
+}
+
+/**
+ * Remove finished referral jobs, only the user's own when a user ID is given
+ * @returns Number of removed jobs
+ */
+export async function removeFinishedReferralJobs(userId?: string): Promise<number> {
+  const result = await ReferralJob.deleteMany({
+    ...(userId ? { userId } : {}),
+    status: { $in: ['succeeded', 'failed'] }
+  });
+  return result.deletedCount;
+}
+
+/**
+ * Remove a user's finished referral jobs whose result was written with a template, in any of its versions
+ * @returns Number of removed jobs
+ */
+export async function removeTemplateReferralJobs(userId: string, templateId: string): Promise<number> {
+  const result = await ReferralJob.deleteMany({
+    userId,
+    generationScope: new RegExp(`^${escapeRegex(templateId)}@`),
+    status: { $in: ['succeeded', 'failed'] }
+  });
+  return result.deletedCount;
+}
+
+/**
+ * Escape text for use inside a regular expression
+ */
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build the progress event that describes a job's current state
+ */
+export function toProgressEvent(job: IReferralJob): ReferralProgressEvent {
+  const event: ReferralProgressEvent = {
+    jobId: job.jobId,
+    stage: job.stage,
+    message: job.stageMessage || '',
+    timestamp: (job.updatedAt || new Date()).getTime(),
+    attempts: job.attempts
+  };
+
+  if (job.status === 'succeeded' && job.result) {
+    event.stage = 'completed';
+    event.result = {
+      jobTitle: job.result.jobTitle,
+      companyName: job.result.companyName,
+      referralMessage: job.result.referralMessage,
+      subject: job.result.subject,
+      variants: job.result.variants,
+      channel: job.result.channel,
+      referralId: job.result.referralId,
+      jobDetails: job.result.jobDetails
+    };
+  } else if (job.status === 'failed') {
+    event.stage = 'failed';
+    event.error = job.error;
+  }
+
+  return event;
+}
+
+/**
+ * Start polling the queue for work
+ * Jobs left running by a crashed worker are picked up again once their lease expires
+ */
+export function startJobWorker(): void {
+  if (pollTimer) {
+    return;
+  }
+
+  logger.info(`Referral job worker ${workerId} started (concurrency: ${WORKER_CONCURRENCY})`);
+
+  pollTimer = setInterval(() => {
+    triggerWorker();
+  }, POLL_INTERVAL_MS);
+  pollTimer.unref();
+
+  triggerWorker();
+}
+
+/**
+ * Stop polling the queue. Jobs already running are allowed to finish
+ */
+export function stopJobWorker(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+    logger.info(`Referral job worker ${workerId} stopped`);
+  }
+}
+
+/**
+ * Claim and start as many jobs as there are free worker slots
+ */
+function triggerWorker(): void {
+  if (!pollTimer || pumping) {
+    return;
+  }
+
+  pumping = true;
+
+  (async () => {
+    try {
+      await failExhaustedJobs();
+
+      while (activeJobs < WORKER_CONCURRENCY) {
+        const job = await claimNextJob();
+        if (!job) {
+          break;
+        }
+
+        activeJobs++;
+        runJob(job).finally(() => {
+          activeJobs--;
+          triggerWorker();
+        });
+      }
+    } catch (error) {
+      logger.error(`Job worker error: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      pumping = false;
+    }
+  })();
+}
+
+/**
+ * Atomically lease the next due job, including jobs whose previous lease has expired
+ */
+async function claimNextJob(): Promise<IReferralJob | null> {
+  const now = new Date();
+
+  return ReferralJob.findOneAndUpdate(
+    {
+      $or: [
+        { status: 'queued', runAt: { $lte: now } },
+        { status: 'running', leaseExpiresAt: { $lte: now } }
+      ],
+      $expr: { $lt: ['$attempts', '$maxAttempts'] }
+    },
+    {
+      $set: {
+        status: 'running',
+        workerId,
+        startedAt: now,
+        leaseExpiresAt: new Date(now.getTime() + LEASE_DURATION_MS)
+      },
+      $inc: { attempts: 1 }
+    },
+    { sort: { runAt: 1 }, new: true }
+  );
+}
+
+/**
+ * Mark jobs as failed when their lease expired on the final attempt
+ */
+async function failExhaustedJobs(): Promise<void> {
+  const now = new Date();
+
+  const result = await ReferralJob.updateMany(
+    {
+      status: 'running',
+      leaseExpiresAt: { $lte: now },
+      $expr: { $gte: ['$attempts', '$maxAttempts'] }
+    },
+    {
+      $set: {
+        status: 'failed',
+        stage: 'failed',
+        stageMessage: 'Processing did not complete',
+        error: 'Processing did not complete. Please try again.',
+        completedAt: now,
+        expiresAt: new Date(now.getTime() + FAILURE_RETENTION_MS)
+      },
+      $unset: { leaseExpiresAt: '', workerId: '' }
+    }
+  );
+
+  if (result.modifiedCount > 0) {
+    logger.warn(`Marked ${result.modifiedCount} stalled referral job(s) as failed`);
+  }
+}
+
+/**
+ * Run a leased job, keeping the lease alive while it is in progress
+ */
+async function runJob(job: IReferralJob): Promise<void> {
+  const startTime = Date.now();
+  const userId = job.userId ? String(job.userId) : undefined;
+
+  logger.info(`Running referral job ${job.jobId} (attempt ${job.attempts}/${job.maxAttempts})${userId ? ` (user: ${userId})` : ''}`);
+
+  const heartbeat = setInterval(() => {
+    ReferralJob.updateOne(
+      { _id: job._id, workerId, status: 'running' },
+      { $set: { leaseExpiresAt: new Date(Date.now() + LEASE_DURATION_MS) } }
+    ).catch(error => {
+      logger.warn(`Failed to extend lease for job ${job.jobId}: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }, Math.floor(LEASE_DURATION_MS / 3));
+
+  const reportProgress = (stage: ReferralStage, message: string) => {
+    publishProgress(String(job._id), {
+      jobId: job.jobId,
+      stage,
+      message,
+      timestamp: Date.now(),
+      attempts: job.attempts
+    });
+
+    ReferralJob.updateOne(
+      { _id: job._id, workerId, status: 'running' },
+      { $set: { stage, stageMessage: message } }
+    ).catch(error => {
+      logger.warn(`Failed to store progress for job ${job.jobId}: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  };
+
+  try {
+    let jobData: JobPosting;
+    if (job.jobUrl) {
+      jobData = await scrapeJobPosting(job.jobUrl, reportProgress);
+      reportProgress('extracting', 'Extracting job details');
+    } else {
+      reportProgress('extracting', 'Extracting job details');
+      jobData = await extractJobDetailsFromContent(job.jobContent || '', userId);
+    }
+
+    const { jobTitle, companyName } = normalizeTitleAndCompany(jobData.title, jobData.company);
+
+    const generated = await generateReferralMessage(
+      jobTitle,
+      companyName,
+      jobData.description,
+      userId,
+      {
+        jobId: getSourceJobId(job.jobId),
+        jobUrl: job.jobUrl,
+        posting: jobData,
+        channel: job.options?.channel,
+        tone: job.options?.tone,
+        length: job.options?.length,
+        variants: job.options?.variants,
+        onProgress: reportProgress
+      }
+    );
+    const jobDetails = getJobDetails(jobData);
+
+    const referralId = await recordReferral({
+      userId,
+      sourceType: job.jobUrl ? 'url' : 'content',
+      sourceUrl: job.jobUrl,
+      contentHash: job.jobUrl ? undefined : getSourceJobId(job.jobId),
+      jobId: getSourceJobId(job.jobId),
+      jobTitle,
+      companyName,
+      jobDescription: jobData.description,
+      jobDetails,
+      generated
+    });
+
+    const now = new Date();
+    const result = {
+      jobTitle,
+      companyName,
+      referralMessage: generated.message,
+      subject: generated.subject,
+      variants: generated.variants,
+      channel: generated.channel,
+      referralId,
+      jobDetails
+    };
+    const { matchedCount } = await ReferralJob.updateOne(
+      { _id: job._id, workerId },
+      {
+        $set: {
+          status: 'succeeded',
+          stage: 'completed',
+          stageMessage: 'Referral message ready',
+          result,
+          completedAt: now,
+          expiresAt: new Date(now.getTime() + SUCCESS_RETENTION_MS)
+        },
+        $unset: { leaseExpiresAt: '', workerId: '', error: '' }
+      }
+    );
+
+    publishProgress(String(job._id), {
+      jobId: job.jobId,
+      stage: 'completed',
+      message: 'Referral message ready',
+      timestamp: Date.now(),
+      attempts: job.attempts,
+      result
+    });
+
+    if (matchedCount > 0) {
+      notifyJobFinished({ jobId: job.jobId, userId: job.userId, status: 'succeeded', result });
+    }
+
+    logger.info(`Referral generation for ${job.jobId} completed in ${Date.now() - startTime}ms`);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const willRetry = job.attempts < job.maxAttempts && isRetryableError(error);
+    const now = new Date();
+
+    logger.error(`Referral job ${job.jobId} failed on attempt ${job.attempts}: ${errorMessage}${willRetry ? ' (will retry)' : ''}`);
+
+    const failureStage: ReferralStage = willRetry ? 'queued' : 'failed';
+    const failureMessage = willRetry ? 'Retrying after an error' : 'Referral generation failed';
+
+    const recorded = await ReferralJob.updateOne(
+      { _id: job._id, workerId },
+      willRetry
+        ? {
+          $set: {
+            status: 'queued',
+            stage: failureStage,
+            stageMessage: failureMessage,
+            error: errorMessage,
+            runAt: new Date(now.getTime() + RETRY_BASE_DELAY_MS * Math.pow(2, job.attempts - 1))
+          },
+          $unset: { leaseExpiresAt: '', workerId: '' }
+        }
+        : {
+          $set: {
+            status: 'failed',
+            stage: failureStage,
+            stageMessage: failureMessage,
+            error: errorMessage,
+            completedAt: now,
+            expiresAt: new Date(now.getTime() + FAILURE_RETENTION_MS)
+          },
+          $unset: { leaseExpiresAt: '', workerId: '' }
+        }
+    ).catch(updateError => {
+      logger.error(`Failed to record failure for job ${job.jobId}: ${updateError instanceof Error ? updateError.message : String(updateError)}`);
+      return null;
+    });
+
+    publishProgress(String(job._id), {
+      jobId: job.jobId,
+      stage: failureStage,
+      message: failureMessage,
+      timestamp: Date.now(),
+      attempts: job.attempts,
+      error: willRetry ? undefined : errorMessage
+    });
+
+    if (!willRetry && recorded && recorded.matchedCount > 0) {
+      notifyJobFinished({ jobId: job.jobId, userId: job.userId, status: 'failed', error: errorMessage });
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Errors that will not succeed on retry: pages without a usable job posting, URLs that may not be fetched,
+ * and missing or rejected credentials
+ */
+function isRetryableError(error: unknown): boolean {
+  if (error instanceof JobExtractionError || error instanceof BlockedUrlError) {
+    return false;
+  }
+
+  if (error instanceof LlmProviderError && error.code === 'invalid_api_key') {
+    return false;
+  }
+
+  const errorMessage = error instanceof Error ? error.message : '';
+  return !errorMessage.includes('API key') && !errorMessage.includes('unsupported job URL');
+}
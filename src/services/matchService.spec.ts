@@ -0,0 +1,61 @@
+import { detectSeniorityLevel, scoreJobMatch } from './matchService';
+
+describe('detectSeniorityLevel', () => {
+  it.each([
+    ['Summer Intern', 'intern'],
+    ['SDE 1', 'junior'],
+    ['Software Engineer', 'mid'],
+    ['Sr. Developer', 'senior'],
+    ['Staff Engineer', 'lead']
+  ])('reads "%s" as %s', (title, level) => {
+    expect(detectSeniorityLevel(title)).toBe(level);
+  });
+});
+
+describe('scoreJobMatch', () => {
+  const job = {
+    title: 'Senior Backend Engineer',
+    company: 'Acme',
+    description: 'Build services with Node.js, MongoDB and Kubernetes. 5+ years of experience.',
+    skills: ['Docker'],
+    experience: { min: 5 }
+  };
+
+  it('combines skill coverage with seniority fit', () => {
+    expect(scoreJobMatch(job, { skills: ['nodejs', 'MongoDB', 'Docker'], yearsOfExperience: 6 })).toEqual({
+      score: 80,
+      verdict: 'strong',
+      jobSkills: ['Node.js', 'MongoDB', 'Kubernetes', 'Docker'],
+      matchedSkills: ['Node.js', 'MongoDB', 'Docker'],
+      missingSkills: ['Kubernetes'],
+      seniority: { level: 'senior', requiredYears: { min: 5 }, candidateYears: 6, fit: 'match' }
+    });
+  });
+
+  it('does not count common words in the description as missing skills', () => {
+    const match = scoreJobMatch(
+      { ...job, description: 'Own every node of the pipeline and keep guard rails in place. 5+ years.' },
+      { skills: ['Docker'], yearsOfExperience: 5 }
+    );
+
+    expect(match.jobSkills).toEqual(['Docker']);
+    expect(match.missingSkills).toEqual([]);
+  });
+
+  it('marks candidates with too little experience as under the level', () => {
+    const match = scoreJobMatch(job, { skills: ['Node.js'], yearsOfExperience: 2 });
+
+    expect(match.seniority.fit).toBe('under');
+    expect(match.verdict).toBe('weak');
+  });
+
+  it('falls back to the level from the title when the posting states no years', () => {
+    const match = scoreJobMatch(
+      { title: 'Intern', company: 'Acme', description: 'Help the team.', skills: [] },
+      { skills: ['Python'], yearsOfExperience: 12 }
+    );
+
+    expect(match.seniority).toEqual({ level: 'intern', requiredYears: null, candidateYears: 12, fit: 'over' });
+    expect(match.score).toBe(52);
+  });
+});
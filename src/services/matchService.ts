@@ -0,0 +1,132 @@
+import { ExperienceRange, JobPosting } from '../types/types';
+import { extractSkills, matchSkills } from '../utils/skillMatcher';
+import { getCandidateContext } from './candidateProfileService';
+
+export type SeniorityLevel = 'intern' | 'junior' | 'mid' | 'senior' | 'lead';
+
+/**
+ * How the candidate's experience compares to what the job expects
+ * - under: noticeably less experience than asked for
+ * - over: well beyond the role's level
+ * - unknown: the candidate's experience is not known
+ */
+export type SeniorityFit = 'under' | 'match' | 'over' | 'unknown';
+
+export interface JobMatchScore {
+  /** 0-100 */
+  score: number;
+  verdict: 'strong' | 'moderate' | 'weak';
+  jobSkills: string[];
+  matchedSkills: string[];
+  missingSkills: string[];
+  seniority: {
+    level: SeniorityLevel;
+    requiredYears: ExperienceRange | null;
+    candidateYears: number | null;
+    fit: SeniorityFit;
+  };
+}
+
+export interface CandidateSummary {
+  skills: string[];
+  yearsOfExperience?: number;
+}
+
+// Typical experience for each level, used when the posting does not state years
+const LEVEL_YEARS: Record<SeniorityLevel, ExperienceRange> = {
+  intern: { min: 0, max: 1 },
+  junior: { min: 0, max: 2 },
+  mid: { min: 2, max: 5 },
+  senior: { min: 5, max: 10 },
+  lead: { min: 8 }
+};
+
+const SENIORITY_SCORES: Record<SeniorityFit, number> = {
+  match: 1,
+  over: 0.6,
+  unknown: 0.5,
+  under: 0.3
+};
+
+const SKILL_WEIGHT = 0.8;
+const SENIORITY_WEIGHT = 0.2;
+// Years below the minimum that still count as a match
+const UNDER_TOLERANCE_YEARS = 1;
+// Years above the maximum before the candidate counts as overqualified
+const OVER_TOLERANCE_YEARS = 3;
+
+/**
+ * Work out the seniority level of a job from its title
+ */
+export function detectSeniorityLevel(jobTitle: string): SeniorityLevel {
+  const title = jobTitle.toLowerCase();
+
+  if (/\b(intern|internship|trainee|apprentice)\b/.test(title)) return 'intern';
+  if (/\b(lead|principal|staff|architect|head|director|manager|vp)\b/.test(title)) return 'lead';
+  if (/\b(senior|sr\.?|sde[ -]?(iii|3)|engineer (iii|3))\b/.test(title)) return 'senior';
+  if (/\b(junior|jr\.?|entry[ -]level|graduate|fresher|associate|sde[ -]?(i|1))\b/.test(title)) return 'junior';
+
+  return 'mid';
+}
+
+/**
+ * Compare the candidate's years of experience with the expected range
+ */
+function assessSeniorityFit(candidateYears: number | undefined, expected: ExperienceRange): SeniorityFit {
+  if (candidateYears === undefined) return 'unknown';
+  if (candidateYears < expected.min - UNDER_TOLERANCE_YEARS) return 'under';
+  if (expected.max !== undefined && candidateYears > expected.max + OVER_TOLERANCE_YEARS) return 'over';
+
+  return 'match';
+}
+
+/**
+ * Score how well a candidate fits a job
+ * Skill coverage accounts for 80% of the score and seniority fit for 20%
+ */
+export function scoreJobMatch(job: JobPosting, candidate: CandidateSummary): JobMatchScore {
+  // Skills listed on the posting count even when the description does not repeat them
+  const mentioned = extractSkills(`${job.title}\n${job.description}`, candidate.skills);
+  const mentionedKeys = new Set(mentioned.map(skill => skill.toLowerCase()));
+  const jobSkills = [...mentioned, ...job.skills.filter(skill => !mentionedKeys.has(skill.toLowerCase()))];
+  const { matched, missing } = matchSkills(jobSkills, candidate.skills);
+
+  const level = detectSeniorityLevel(job.title);
+  const requiredYears = job.experience || null;
+  const fit = assessSeniorityFit(candidate.yearsOfExperience, requiredYears || LEVEL_YEARS[level]);
+
+  // Without recognisable skills in the posting, coverage is unknown rather than zero
+  const skillScore = jobSkills.length > 0 ? matched.length / jobSkills.length : 0.5;
+  const score = Math.round((skillScore * SKILL_WEIGHT + SENIORITY_SCORES[fit] * SENIORITY_WEIGHT) * 100);
+
+  return {
+    score,
+    verdict: score >= 70 ? 'strong' : score >= 45 ? 'moderate' : 'weak',
+    jobSkills,
+    matchedSkills: matched,
+    missingSkills: missing,
+    seniority: {
+      level,
+      requiredYears,
+      candidateYears: candidate.yearsOfExperience ?? null,
+      fit
+    }
+  };
+}
+
+/**
+ * Get the skills and experience of the user's candidate profile and resume
+ * Load it before fetching the job, so users without either are turned away before any scrape or model call
+ *
+ * @returns The candidate summary, or null if the user has neither a profile nor a resume
+ */
+export async function getCandidateSummary(userId: string): Promise<CandidateSummary | null> {
+  // The job description only picks prompt highlights, which scoring does not use
+  const candidate = await getCandidateContext(userId, '');
+
+  if (!candidate.version) {
+    return null;
+  }
+
+  return { skills: candidate.skills, yearsOfExperience: candidate.yearsOfExperience };
+}
@@ -0,0 +1,76 @@
+import mongoose from 'mongoose';
+import Outreach, { IOutreach } from '../models/outreachModel';
+import Contact from '../models/contactModel';
+import { OutreachStatus } from '../types/types';
+
+export const OUTREACH_STATUSES: OutreachStatus[] = ['drafted', 'sent', 'replied', 'referred', 'declined', 'interviewing'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Days after sending before the user is reminded to follow up
+const FOLLOW_UP_REMINDER_DAYS = parseInt(process.env.OUTREACH_FOLLOW_UP_DAYS || '7', 10);
+
+/**
+ * Move an outreach to a status and record the change in its history
+ * The first time it is marked sent, a follow-up reminder is added unless a reminder is already set;
+ * that reminder is dropped once the outreach moves on from sent
+ *
+ * @param note Optional note stored with the change
+ * @returns Whether the status changed
+ */
+export function applyOutreachStatus(outreach: IOutreach, status: OutreachStatus, note?: string, now = new Date()): boolean {
+  if (outreach.status === status && outreach.statusHistory.length > 0) {
+    return false;
+  }
+
+  outreach.status = status;
+  outreach.statusHistory.push({ status, changedAt: now, note });
+
+  if (status === 'sent' && !outreach.sentAt) {
+    outreach.sentAt = now;
+
+    if (!outreach.remindAt) {
+      outreach.remindAt = new Date(now.getTime() + FOLLOW_UP_REMINDER_DAYS * DAY_MS);
+      outreach.reminderNote = 'Follow up if there is no reply';
+      outreach.autoReminder = true;
+    }
+  } else if (status !== 'sent' && outreach.autoReminder) {
+    outreach.remindAt = undefined;
+    outreach.reminderNote = undefined;
+    outreach.autoReminder = false;
+  }
+
+  return true;
+}
+
+/**
+ * Find the user's outreach with a reminder due by the given time, overdue ones first
+ * Declined outreach needs no reminders and is left out
+ */
+export async function getDueReminders(userId: string, until: Date): Promise<IOutreach[]> {
+  return Outreach.find({
+    userId,
+    remindAt: { $lte: until },
+    status: { $ne: 'declined' }
+  })
+    .sort({ remindAt: 1 })
+    .populate('contactId', 'name company relationship linkedInUrl');
+}
+
+/**
+ * Delete a contact together with its outreach records
+ * @returns The number of outreach records removed, or null if the contact was not found
+ */
+export async function deleteContactWithOutreach(userId: string, contactId: string): Promise<number | null> {
+  if (!mongoose.Types.ObjectId.isValid(contactId)) {
+    return null;
+  }
+
+  const contact = await Contact.findOneAndDelete({ _id: contactId, userId });
+
+  if (!contact) {
+    return null;
+  }
+
+  const { deletedCount } = await Outreach.deleteMany({ userId, contactId: contact._id });
+  return deletedCount;
+}
@@ -0,0 +1,51 @@
+import { EventEmitter } from 'events';
+import { JobDetails, MessageChannel, ReferralDraft, ReferralStage } from '../types/types';
+
+export interface ReferralProgressEvent {
+  jobId: string;
+  stage: ReferralStage;
+  message: string;
+  timestamp: number;
+  attempts?: number;
+  result?: {
+    jobTitle: string;
+    companyName: string;
+    referralMessage: string;
+    subject?: string;
+    variants: ReferralDraft[];
+    channel?: MessageChannel;
+    referralId?: string;
+    jobDetails?: JobDetails;
+  };
+  error?: string;
+}
+
+const progressEmitter = new EventEmitter();
+// One listener per open SSE connection
+progressEmitter.setMaxListeners(0);
+
+/**
+ * Check whether a stage ends the progress stream
+ */
+export function isTerminalStage(stage: ReferralStage): boolean {
+  return stage === 'completed' || stage === 'failed';
+}
+
+/**
+ * Publish a progress event to local subscribers of a referral job
+ * @param key Unique key of the job (the queue document ID)
+ */
+export function publishProgress(key: string, event: ReferralProgressEvent): void {
+  progressEmitter.emit(key, event);
+}
+
+/**
+ * Subscribe to progress events of a referral job
+ * @returns Function that removes the subscription
+ */
+export function subscribeToProgress(key: string, listener: (event: ReferralProgressEvent) => void): () => void {
+  progressEmitter.on(key, listener);
+  return () => {
+    progressEmitter.off(key, listener);
+  };
+}
@@ -0,0 +1,149 @@
+import mongoose from 'mongoose';
+import ReferralBatch from '../models/referralBatchModel';
+import { enqueueReferralJob, FinishedReferralJob, getReferralJobs, onReferralJobFinished } from './jobQueueService';
+import { createReferralBatch, getReferralBatch } from './referralBatchService';
+
+jest.mock('../models/referralBatchModel', () => ({
+  __esModule: true,
+  default: {
+    create: jest.fn(),
+    findOne: jest.fn(),
+    updateMany: jest.fn()
+  }
+}));
+
+jest.mock('./jobQueueService', () => ({
+  enqueueReferralJob: jest.fn(),
+  getReferralJobId: (jobId: string, options: { channel?: string } = {}) => options.channel ? `${jobId}~${options.channel}` : jobId,
+  getReferralJobs: jest.fn(),
+  isFinishedJob: (job: { status: string }) => job.status === 'succeeded' || job.status === 'failed',
+  onReferralJobFinished: jest.fn()
+}));
+
+jest.mock('./aiService', () => ({
+  getGenerationCacheScope: jest.fn().mockResolvedValue('default')
+}));
+
+jest.mock('../adapters/adapterRegistry', () => ({
+  resolveJobId: (jobUrl: string) => `job_${new URL(jobUrl).pathname.split('/').pop()}`
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const userId = new mongoose.Types.ObjectId().toString();
+const batchModel = jest.mocked(ReferralBatch);
+const result = { jobTitle: 'Backend Engineer', companyName: 'Acme', referralMessage: 'Hi!', variants: [] };
+// Registered when the service is loaded, before any test clears the mocks
+const syncBatchItems = jest.mocked(onReferralJobFinished).mock.calls[0][0];
+
+describe('referralBatchService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    batchModel.create.mockImplementation(((fields: object) => Promise.resolve({ _id: 'batch', ...fields })) as never);
+    batchModel.updateMany.mockResolvedValue({ modifiedCount: 1 } as never);
+  });
+
+  describe('createReferralBatch', () => {
+    it('queues one job per distinct job and options', async () => {
+      jest.mocked(enqueueReferralJob).mockResolvedValue({ status: 'queued', stage: 'queued', stageMessage: 'Waiting for a worker' } as never);
+
+      const batch = await createReferralBatch(userId, [
+        { jobUrl: 'https://example.com/jobs/1' },
+        { jobUrl: 'https://example.com/jobs/2' },
+        { jobUrl: 'https://example.com/jobs/1?utm_source=mail' },
+        { jobContent: 'Acme is hiring a Backend Engineer' }
+      ], { channel: 'email' });
+
+      expect(jest.mocked(enqueueReferralJob).mock.calls.map(([input]) => input.jobId))
+        .toEqual(['job_1~email', 'job_2~email', expect.stringMatching(/^content_\w+~email$/)]);
+      expect(jest.mocked(enqueueReferralJob)).toHaveBeenCalledWith(expect.objectContaining({
+        jobContent: 'Acme is hiring a Backend Engineer',
+        jobUrl: undefined,
+        userId,
+        generationScope: 'default'
+      }));
+      expect(batch.status).toBeUndefined();
+      expect(batch.items.map(item => [item.queueJobId, item.status])).toEqual([
+        ['job_1~email', 'queued'],
+        ['job_2~email', 'queued'],
+        ['job_1~email', 'queued'],
+        [expect.stringMatching(/^content_/), 'queued']
+      ]);
+    });
+
+    it('fills in items whose job already finished', async () => {
+      jest.mocked(enqueueReferralJob)
+        .mockResolvedValueOnce({ status: 'succeeded', result } as never)
+        .mockResolvedValueOnce({ status: 'failed', error: 'Page not found' } as never);
+
+      const batch = await createReferralBatch(userId, [{ jobUrl: 'https://example.com/jobs/1' }, { jobUrl: 'https://example.com/jobs/2' }]);
+
+      expect(batch.items).toEqual([
+        expect.objectContaining({ status: 'succeeded', stage: 'completed', result }),
+        expect.objectContaining({ status: 'failed', stage: 'failed', error: 'Page not found' })
+      ]);
+      expect(batch.status).toBe('completed');
+      expect(batch.expiresAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('getReferralBatch', () => {
+    it('shows live progress, stores finished jobs and fails items whose job is gone', async () => {
+      const batch = {
+        status: 'running',
+        items: [
+          { queueJobId: 'job_1', status: 'queued', stage: 'queued' },
+          { queueJobId: 'job_2', status: 'running', stage: 'fetching' },
+          { queueJobId: 'job_3', status: 'queued', stage: 'queued' }
+        ],
+        save: jest.fn()
+      };
+      batchModel.findOne.mockResolvedValue(batch as never);
+      jest.mocked(getReferralJobs).mockResolvedValue([
+        { jobId: 'job_1', status: 'running', stage: 'generating', stageMessage: 'Writing message' },
+        { jobId: 'job_2', status: 'succeeded', result }
+      ] as never);
+
+      await getReferralBatch('batch', userId);
+
+      expect(jest.mocked(getReferralJobs)).toHaveBeenCalledWith(['job_1', 'job_2', 'job_3'], userId);
+      expect(batch.items.map(item => [item.status, item.stage])).toEqual([
+        ['running', 'generating'],
+        ['succeeded', 'completed'],
+        ['failed', 'failed']
+      ]);
+      expect(batch.status).toBe('running');
+      expect(batch.save).toHaveBeenCalled();
+    });
+
+    it('leaves finished batches alone', async () => {
+      batchModel.findOne.mockResolvedValue({ status: 'completed', items: [] } as never);
+
+      await getReferralBatch('batch', userId);
+
+      expect(jest.mocked(getReferralJobs)).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('finished jobs', () => {
+    it('store their outcome on waiting items and complete batches with nothing left', async () => {
+      const job = { jobId: 'job_1', userId: new mongoose.Types.ObjectId(userId), status: 'failed', error: 'Page not found' };
+
+      await syncBatchItems(job as FinishedReferralJob);
+
+      const [filter, update, options] = batchModel.updateMany.mock.calls[0];
+      expect(filter).toMatchObject({ userId: job.userId, status: 'running' });
+      expect(update).toMatchObject({ $set: { 'items.$[item].status': 'failed', 'items.$[item].error': 'Page not found' } });
+      expect(options).toEqual({ arrayFilters: [{ 'item.queueJobId': 'job_1', 'item.status': { $in: ['queued', 'running'] } }] });
+      expect(batchModel.updateMany.mock.calls[1][1]).toMatchObject({ $set: { status: 'completed' } });
+    });
+
+    it('skip anonymous jobs', async () => {
+      await syncBatchItems({ jobId: 'job_1', status: 'succeeded', result } as FinishedReferralJob);
+
+      expect(batchModel.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
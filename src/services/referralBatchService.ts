@@ -0,0 +1,194 @@
+import { logger } from '../utils/logger';
+import ReferralBatch, { IReferralBatch, IReferralBatchItem } from '../models/referralBatchModel';
+import { IReferralJob } from '../models/referralJobModel';
+import {
+  enqueueReferralJob,
+  FinishedReferralJob,
+  getReferralJobId,
+  getReferralJobs,
+  isFinishedJob,
+  onReferralJobFinished
+} from './jobQueueService';
+import { getGenerationCacheScope } from './aiService';
+import { resolveJobId } from '../adapters/adapterRegistry';
+import { createHashFromContent } from '../utils/contentHash';
+import { MessageOptions } from '../types/types';
+
+export const MAX_BATCH_ITEMS = Math.max(parseInt(process.env.BATCH_MAX_ITEMS || '20', 10) || 20, 1);
+const BATCH_RETENTION_MS = 24 * 60 * 60 * 1000;
+const UNFINISHED_STATUSES: IReferralBatchItem['status'][] = ['queued', 'running'];
+
+export interface ReferralBatchInput {
+  jobUrl?: string;
+  jobContent?: string;
+}
+
+// Jobs can finish on any instance, so each one updates the batches waiting for it
+onReferralJobFinished(syncBatchItems);
+
+/**
+ * Start generating referral messages for several job URLs and raw job contents
+ * Every item is queued as a referral job, so items survive restarts and are retried like single requests;
+ * items for the same job share one queue job
+ *
+ * @param items Each item has either a jobUrl or a jobContent
+ * @param options Message options applied to every item
+ * @returns The new batch, with items whose job already finished filled in
+ */
+export async function createReferralBatch(userId: string, items: ReferralBatchInput[], options: MessageOptions = {}): Promise<IReferralBatch> {
+  const generationScope = await getGenerationCacheScope(userId);
+  const jobs = new Map<string, IReferralJob>();
+
+  const batchItems = [];
+  for (const item of items) {
+    const sourceType: IReferralBatchItem['sourceType'] = item.jobUrl ? 'url' : 'content';
+    const jobId = item.jobUrl ? resolveJobId(item.jobUrl) : createHashFromContent(item.jobContent || '');
+    const queueJobId = getReferralJobId(jobId, options);
+
+    let job = jobs.get(queueJobId);
+    if (!job) {
+      job = await enqueueReferralJob({
+        jobId: queueJobId,
+        jobUrl: item.jobUrl,
+        jobContent: item.jobUrl ? undefined : item.jobContent,
+        userId,
+        options,
+        generationScope
+      });
+      jobs.set(queueJobId, job);
+    }
+
+    batchItems.push({ sourceType, jobUrl: item.jobUrl, jobId, queueJobId, ...toItemState(job) });
+  }
+
+  const finished = batchItems.every(item => !UNFINISHED_STATUSES.includes(item.status));
+  const now = new Date();
+  const batch = await ReferralBatch.create({
+    userId,
+    options,
+    items: batchItems,
+    ...(finished ? { status: 'completed', completedAt: now, expiresAt: new Date(now.getTime() + BATCH_RETENTION_MS) } : {})
+  });
+
+  logger.info(`Created referral batch ${batch._id} with ${items.length} item(s) for ${jobs.size} job(s) (user: ${userId})`);
+
+  return batch;
+}
+
+/**
+ * Get one of the user's batches, with the current progress of its unfinished items
+ * Items whose queue job has finished are stored; items whose job no longer exists are marked as failed
+ */
+export async function getReferralBatch(batchId: string, userId: string): Promise<IReferralBatch | null> {
+  const batch = await ReferralBatch.findOne({ _id: batchId, userId });
+
+  if (!batch || batch.status !== 'running') {
+    return batch;
+  }
+
+  const unfinished = batch.items.filter(item => UNFINISHED_STATUSES.includes(item.status));
+  const jobs = await getReferralJobs([...new Set(unfinished.map(item => item.queueJobId))], userId);
+  const jobsById = new Map(jobs.map(job => [job.jobId, job]));
+
+  let changed = false;
+  for (const item of unfinished) {
+    const job = jobsById.get(item.queueJobId);
+    // Progress is only shown; finished states are written back so they outlive the queue job
+    if (!job) {
+      Object.assign(item, {
+        status: 'failed',
+        stage: 'failed',
+        stageMessage: 'Referral generation failed',
+        error: 'Processing did not complete. Please try again.',
+        completedAt: new Date()
+      });
+      changed = true;
+    } else {
+      Object.assign(item, toItemState(job));
+      changed = changed || isFinishedJob(job);
+    }
+  }
+
+  if (batch.items.every(item => !UNFINISHED_STATUSES.includes(item.status))) {
+    const now = new Date();
+    batch.status = 'completed';
+    batch.completedAt = now;
+    batch.expiresAt = new Date(now.getTime() + BATCH_RETENTION_MS);
+    changed = true;
+  }
+
+  if (changed) {
+    await batch.save();
+  }
+
+  return batch;
+}
+
+/**
+ * Count a batch's items by status
+ */
+export function countBatchItems(batch: IReferralBatch): Record<IReferralBatchItem['status'], number> {
+  const counts = { queued: 0, running: 0, succeeded: 0, failed: 0 };
+  for (const item of batch.items) {
+    counts[item.status]++;
+  }
+  return counts;
+}
+
+/**
+ * Describe a queue job's state as batch item fields
+ */
+function toItemState(job: Pick<IReferralJob, 'status' | 'result' | 'error'> & Partial<IReferralJob>): Partial<IReferralBatchItem> & Pick<IReferralBatchItem, 'status'> {
+  if (job.status === 'succeeded') {
+    return {
+      status: 'succeeded',
+      stage: 'completed',
+      stageMessage: 'Referral message ready',
+      result: job.result,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt || new Date()
+    };
+  }
+
+  if (job.status === 'failed') {
+    return {
+      status: 'failed',
+      stage: 'failed',
+      stageMessage: 'Referral generation failed',
+      error: job.error,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt || new Date()
+    };
+  }
+
+  return { status: job.status, stage: job.stage || 'queued', stageMessage: job.stageMessage, startedAt: job.startedAt };
+}
+
+/**
+ * Store a finished job's outcome on the user's batch items waiting for it, and complete batches with nothing left to do
+ */
+async function syncBatchItems(job: FinishedReferralJob): Promise<void> {
+  if (!job.userId) {
+    return;
+  }
+
+  const state = toItemState(job);
+  const update = Object.fromEntries(Object.entries(state).map(([field, value]) => [`items.$[item].${field}`, value]));
+  const waiting = { queueJobId: job.jobId, status: { $in: UNFINISHED_STATUSES } };
+
+  const { modifiedCount } = await ReferralBatch.updateMany(
+    { userId: job.userId, status: 'running', items: { $elemMatch: waiting } },
+    { $set: update },
+    { arrayFilters: [{ 'item.queueJobId': waiting.queueJobId, 'item.status': waiting.status }] }
+  );
+
+  if (modifiedCount === 0) {
+    return;
+  }
+
+  const now = new Date();
+  await ReferralBatch.updateMany(
+    { userId: job.userId, status: 'running', 'items.status': { $nin: UNFINISHED_STATUSES } },
+    { $set: { status: 'completed', completedAt: now, expiresAt: new Date(now.getTime() + BATCH_RETENTION_MS) } }
+  );
+}
@@ -0,0 +1,67 @@
+import mongoose from 'mongoose';
+import { logger } from '../utils/logger';
+import Referral from '../models/referralModel';
+import { GeneratedReferral, JobDetails } from '../types/types';
+
+export interface ReferralHistoryEntry {
+  userId?: string;
+  sourceType: 'url' | 'content';
+  sourceUrl?: string;
+  contentHash?: string;
+  jobId: string;
+  jobTitle: string;
+  companyName: string;
+  jobDescription: string;
+  jobDetails?: JobDetails;
+  generated: GeneratedReferral;
+}
+
+/**
+ * Stores a successfully generated referral in the user's history
+ * A message served from cache, e.g. when a job is run again, is the same message and reuses its history entry
+ * History is best-effort: failures are logged and never fail the generation itself
+ * 
+ * @returns The ID of the stored referral, or undefined if it was not stored
+ */
+export async function recordReferral(entry: ReferralHistoryEntry): Promise<string | undefined> {
+  if (!entry.userId || !mongoose.Types.ObjectId.isValid(entry.userId)) {
+    return undefined;
+  }
+  
+  try {
+    const referral = await Referral.findOneAndUpdate(
+      {
+        userId: entry.userId,
+        jobId: entry.jobId,
+        message: entry.generated.message,
+        parentReferralId: { $exists: false }
+      },
+      {
+        $setOnInsert: {
+          sourceType: entry.sourceType,
+          sourceUrl: entry.sourceUrl,
+          contentHash: entry.contentHash,
+          jobTitle: entry.jobTitle,
+          companyName: entry.companyName,
+          jobDescription: entry.jobDescription,
+          jobDetails: entry.jobDetails,
+          templateId: entry.generated.templateId,
+          templateName: entry.generated.templateName,
+          modelName: entry.generated.modelName,
+          subject: entry.generated.subject,
+          variants: entry.generated.variants,
+          channel: entry.generated.channel,
+          tone: entry.generated.tone,
+          length: entry.generated.length
+        }
+      },
+      { upsert: true, new: true }
+    );
+    
+    logger.info(`Stored referral ${referral._id} for job ID: ${entry.jobId} (user: ${entry.userId})`);
+    return String(referral._id);
+  } catch (error) {
+    logger.error(`Failed to store referral history for job ID ${entry.jobId}: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+}
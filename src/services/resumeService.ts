@@ -0,0 +1,145 @@
+import mongoose from 'mongoose';
+import Resume, { IResume } from '../models/resumeModel';
+import { ParsedResume, ResumeExperience } from '../types/types';
+import { ResumeFileType } from '../utils/resumeParser';
+import { mentionsTerm } from '../utils/skillMatcher';
+
+export interface ResumeUpload {
+  fileName: string;
+  fileType: ResumeFileType;
+  fileSize: number;
+  text: string;
+}
+
+const MAX_PROMPT_ITEMS = 5;
+
+/**
+ * Get a user's parsed resume
+ * @returns The resume or null if the user has not uploaded one
+ */
+export async function getResume(userId: string): Promise<IResume | null> {
+  if (!mongoose.Types.ObjectId.isValid(userId)) {
+    return null;
+  }
+
+  return Resume.findOne({ userId });
+}
+
+/**
+ * Store a parsed resume, replacing the user's previous one
+ */
+export async function saveResume(userId: string, upload: ResumeUpload, parsed: ParsedResume): Promise<IResume> {
+  const resume = await Resume.findOne({ userId }) || new Resume({ userId });
+
+  resume.fileName = upload.fileName;
+  resume.fileType = upload.fileType;
+  resume.fileSize = upload.fileSize;
+  resume.text = upload.text;
+  resume.name = parsed.name;
+  resume.email = parsed.email;
+  resume.summary = parsed.summary;
+  resume.skills = parsed.skills;
+  resume.experience = parsed.experience;
+  resume.projects = parsed.projects;
+  resume.education = parsed.education;
+
+  return resume.save();
+}
+
+/**
+ * Delete a user's resume
+ * @returns True if a resume was deleted
+ */
+export async function deleteResume(userId: string): Promise<boolean> {
+  const result = await Resume.deleteOne({ userId });
+  return result.deletedCount > 0;
+}
+
+/**
+ * Estimate years of experience from the earliest start date to the latest end date
+ * @returns Whole years, or undefined if the positions have no recognisable years
+ */
+export function estimateYearsOfExperience(experience: ResumeExperience[]): number | undefined {
+  const currentYear = new Date().getFullYear();
+  const toYear = (date?: string): number | undefined => {
+    if (!date) return undefined;
+    if (/present|current|now|till date|ongoing/i.test(date)) return currentYear;
+
+    const year = date.match(/\d{4}/)?.[0] || date.match(/'(\d{2})$/)?.[1];
+    if (!year) return undefined;
+
+    return year.length === 2 ? 2000 + parseInt(year, 10) : parseInt(year, 10);
+  };
+
+  const starts = experience.map(position => toYear(position.startDate)).filter((year): year is number => year !== undefined);
+  const ends = experience.map(position => toYear(position.endDate)).filter((year): year is number => year !== undefined);
+
+  if (starts.length === 0) {
+    return undefined;
+  }
+
+  const years = Math.max(...ends, ...starts) - Math.min(...starts);
+  return Math.min(Math.max(years, 0), 60);
+}
+
+/**
+ * Pick the resume bullet points and projects that best match a job
+ * Items are ranked by how many of the resume's skills they share with the job description;
+ * ties keep resume order, so recent positions come first.
+ *
+ * @returns Formatted items such as "Built a job queue (Software Engineer at Acme)"
+ */
+export function selectRelevantResumeItems(resume: ParsedResume, jobDescription: string, limit = 3): string[] {
+  const terms = [...new Set([
+    ...resume.skills,
+    ...resume.projects.flatMap(project => project.technologies)
+  ])].filter(term => mentionsTerm(jobDescription, term));
+
+  const items = [
+    ...resume.experience.flatMap(position => position.highlights.map(highlight => ({
+      text: highlight,
+      context: position.company ? `${position.title} at ${position.company}` : position.title,
+      technologies: [] as string[]
+    }))),
+    ...resume.projects.map(project => ({
+      text: `${project.name}: ${project.description}`,
+      context: '',
+      technologies: project.technologies
+    }))
+  ];
+
+  return items
+    .map((item, index) => ({
+      item,
+      index,
+      score: terms.filter(term => mentionsTerm(item.text, term) || item.technologies.includes(term)).length
+    }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, limit)
+    .map(({ item }) => item.context ? `${item.text} (${item.context})` : item.text);
+}
+
+/**
+ * Describe the resume for the referral prompt, listing only what is relevant to the job
+ */
+export function formatResumeForPrompt(resume: ParsedResume, jobDescription: string): string {
+  const lines: string[] = [];
+
+  const position = resume.experience[0];
+  if (position) {
+    lines.push(`Most recent position: ${position.title}${position.company ? ` at ${position.company}` : ''}`);
+  }
+
+  const items = selectRelevantResumeItems(resume, jobDescription, MAX_PROMPT_ITEMS);
+  if (items.length > 0) {
+    lines.push('Most relevant resume experience:');
+    lines.push(...items.map(item => `- ${item}`));
+  }
+
+  const degree = resume.education[0];
+  if (degree) {
+    lines.push(`Education: ${[degree.degree, degree.institution].filter(Boolean).join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
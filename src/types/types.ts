@@ -1,3 +1,5 @@
+import type { Page } from 'playwright';
+
 /**
  * Job data extracted from a job posting
  */
@@ -7,6 +9,399 @@ export interface JobData {
   description: string;
 }
 
+/**
+ * Job data produced by the HTML parsers, including optional details as shown on the page
+ */
+export interface ParsedJobData extends JobData {
+  location?: string;
+  salary?: string;
+  jobType?: string;
+  /** Experience requirement, e.g. "3-5 years" */
+  experience?: string;
+  postedDate?: string;
+  validThrough?: string;
+  skills?: string[];
+}
+
+/**
+ * Employment types, following schema.org JobPosting employmentType
+ */
+export type EmploymentType = 'full_time' | 'part_time' | 'contract' | 'temporary' | 'internship' | 'freelance';
+
+/**
+ * Where a job is based
+ */
+export interface JobLocation {
+  /** Location as shown on the posting */
+  raw: string;
+  city?: string;
+  region?: string;
+  country?: string;
+  remote: boolean;
+  hybrid: boolean;
+}
+
+export type SalaryPeriod = 'hour' | 'day' | 'week' | 'month' | 'year';
+
+/**
+ * Compensation range in whole currency units, e.g. "12-18 LPA" is 1200000-1800000 INR per year
+ */
+export interface SalaryRange {
+  min?: number;
+  max?: number;
+  /** ISO 4217 code, when the posting states or implies one */
+  currency?: string;
+  period: SalaryPeriod;
+  /** Salary as shown on the posting */
+  raw: string;
+}
+
+/**
+ * Years of experience a job asks for; max is absent for open ranges like "5+ years"
+ */
+export interface ExperienceRange {
+  min: number;
+  max?: number;
+}
+
+/**
+ * Normalized job posting used across the crawler, AI extraction and API responses
+ */
+export interface JobPosting extends JobData {
+  location?: JobLocation;
+  salary?: SalaryRange;
+  experience?: ExperienceRange;
+  employmentType?: EmploymentType;
+  skills: string[];
+  /** ISO 8601 timestamps */
+  postedAt?: string;
+  expiresAt?: string;
+  sourceUrl?: string;
+}
+
+/**
+ * Structured details of a posting returned alongside generated messages and stored in history
+ */
+export type JobDetails = Omit<JobPosting, 'title' | 'company' | 'description'>;
+
+/**
+ * How an adapter's pages should be fetched
+ * - browser: render with Playwright (needed for client-side rendered boards)
+ * - direct: plain HTTP fetch of the server-rendered HTML
+ */
+export type JobFetchStrategy = 'browser' | 'direct';
+
+/**
+ * A job board integration. Each adapter knows which URLs it handles,
+ * how to derive a stable job ID from them, how the page should be fetched
+ * and how to turn the fetched HTML into job data.
+ */
+export interface JobSourceAdapter {
+  /** Short identifier, also used to namespace job IDs */
+  name: string;
+  /** Hostnames advertised as supported */
+  hosts: string[];
+  fetchStrategy: JobFetchStrategy;
+  /** CSS selector to wait for before extracting when rendering in a browser */
+  waitForSelector?: string;
+  matchesUrl(url: string): boolean;
+  extractJobId(url: string): string;
+  /** Optional canonical URL to fetch instead of the one submitted (e.g. a search page deep link) */
+  getFetchUrl?(url: string): string;
+  parseHtml(html: string, url?: string): Promise<ParsedJobData>;
+  /** Optional richer extraction from the live page when rendering in a browser */
+  extractFromPage?(page: Page, url: string): Promise<ParsedJobData>;
+}
+
+/**
+ * Result of referral message generation
+ */
+export interface GeneratedReferral {
+  /** Body of the first draft, kept for clients that show a single message */
+  message: string;
+  /** Subject of the first draft, for channels with a subject line */
+  subject?: string;
+  /** Distinct drafts, the first one first; may hold fewer than requested if the model repeated itself */
+  variants: ReferralDraft[];
+  channel?: MessageChannel;
+  tone?: MessageTone;
+  length?: MessageLength;
+  templateId?: string;
+  templateName: string;
+  modelName: string;
+}
+
+/**
+ * A single message written from a stored referral, such as a refinement or a follow-up
+ */
+export interface GeneratedDraft extends ReferralDraft {
+  modelName: string;
+}
+
+/**
+ * Value types of template variables
+ */
+export type TemplateVariableType = 'string' | 'number' | 'url' | 'list';
+
+/**
+ * A placeholder a template may use, e.g. {portfolioUrl}
+ */
+export interface TemplateVariable {
+  name: string;
+  type: TemplateVariableType;
+  description?: string;
+  defaultValue?: string;
+}
+
+/**
+ * A project or achievement the candidate wants to highlight
+ */
+export interface CandidateProject {
+  name: string;
+  description: string;
+  technologies: string[];
+  url?: string;
+}
+
+/**
+ * A link shown to referrers, e.g. a portfolio or GitHub profile
+ */
+export interface CandidateLink {
+  label: string;
+  url: string;
+}
+
+/**
+ * Facts about the user that referral messages can draw on
+ */
+export interface CandidateProfileData {
+  name?: string;
+  currentRole?: string;
+  currentCompany?: string;
+  yearsOfExperience?: number;
+  skills: string[];
+  projects: CandidateProject[];
+  links: CandidateLink[];
+}
+
+/**
+ * A position listed in the experience section of a resume
+ */
+export interface ResumeExperience {
+  title: string;
+  company?: string;
+  startDate?: string;
+  endDate?: string;
+  highlights: string[];
+}
+
+/**
+ * An entry in the education section of a resume
+ */
+export interface ResumeEducation {
+  institution?: string;
+  degree?: string;
+  graduationYear?: number;
+}
+
+/**
+ * Sections extracted from an uploaded resume
+ */
+export interface ParsedResume {
+  name?: string;
+  email?: string;
+  summary?: string;
+  skills: string[];
+  experience: ResumeExperience[];
+  projects: CandidateProject[];
+  education: ResumeEducation[];
+}
+
+/**
+ * Supported LLM backends
+ */
+export type LlmProviderName = 'gemini' | 'openai' | 'anthropic' | 'ollama';
+
+/**
+ * Sampling options passed to an LLM provider
+ * Providers ignore options their API does not support
+ */
+export interface LlmGenerationOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+  topP?: number;
+  topK?: number;
+}
+
+/**
+ * Connection settings for an LLM provider
+ */
+export interface LlmProviderConfig {
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string;
+}
+
+/**
+ * A text generation backend bound to one API key and model
+ */
+export interface LlmProvider {
+  name: LlmProviderName;
+  model: string;
+  generate(prompt: string, options?: LlmGenerationOptions): Promise<string>;
+  /**
+   * Generate text, passing each chunk to onChunk as it arrives
+   * @returns The complete generated text
+   */
+  generateStream(prompt: string, onChunk: (text: string) => void, options?: LlmGenerationOptions): Promise<string>;
+}
+
+export type CacheBackendName = 'memory' | 'redis' | 'mongo';
+
+export interface CacheEntryInfo {
+  key: string;
+  /** When the entry was written, in milliseconds since the epoch */
+  storedAt?: number;
+  /** When the entry expires, in milliseconds since the epoch */
+  expiresAt?: number;
+}
+
+/**
+ * A key-value cache for one namespace, such as generated messages or URL checks
+ * Values must be JSON serializable; shared backends return a copy rather than the stored object
+ */
+export interface CacheStore {
+  backend: CacheBackendName;
+  namespace: string;
+  get<T>(key: string): Promise<T | undefined>;
+  /**
+   * Store a value, replacing any existing one
+   * @param ttlSeconds Time to live, defaults to the store's TTL
+   */
+  set<T>(key: string, value: T, ttlSeconds?: number): Promise<void>;
+  /**
+   * @returns The number of entries removed
+   */
+  del(keys: string | string[]): Promise<number>;
+  /**
+   * List the entries in the namespace, optionally only those whose key starts with prefix
+   */
+  entries(prefix?: string): Promise<CacheEntryInfo[]>;
+  /**
+   * Remove every entry in the namespace
+   * @returns The number of entries removed
+   */
+  clear(): Promise<number>;
+}
+
+/**
+ * Stages reported while a referral is being generated
+ */
+export type ReferralStage = 'queued' | 'fetching' | 'parsing' | 'extracting' | 'generating' | 'completed' | 'failed';
+
+/**
+ * Callback used by the crawler and AI services to report progress
+ */
+export type ProgressCallback = (stage: ReferralStage, message: string) => void;
+
+/**
+ * Where a referral message will be sent, which decides its shape
+ * - email: separate subject and body
+ * - linkedin_note: connection request note, at most 300 characters
+ * - inmail: LinkedIn InMail with a subject
+ * - short_dm: a few sentences for WhatsApp or chat
+ */
+export type MessageChannel = 'email' | 'linkedin_note' | 'inmail' | 'short_dm';
+
+/**
+ * One generated referral message
+ */
+export interface ReferralDraft {
+  subject?: string;
+  body: string;
+}
+
+/**
+ * Writing styles a referral message can be asked for
+ */
+export type MessageTone = 'formal' | 'friendly' | 'concise';
+
+/**
+ * Target lengths of a referral message
+ */
+export type MessageLength = 'short' | 'medium' | 'long';
+
+/**
+ * How referral messages should be written; without a channel, tone or length the template's own shape and style are kept
+ */
+export interface MessageOptions {
+  channel?: MessageChannel;
+  tone?: MessageTone;
+  length?: MessageLength;
+  /** Number of distinct drafts to generate, 1-5 */
+  variants?: number;
+}
+
+/**
+ * Optional inputs for referral message generation
+ */
+export interface ReferralGenerationOptions extends MessageOptions {
+  /** Job posting ID or content hash; the message is cached with the job's other entries */
+  jobId?: string;
+  jobUrl?: string;
+  location?: string;
+  /** Structured details of the posting, shown to the model and used for {location} and {jobUrl} */
+  posting?: JobPosting;
+  onProgress?: ProgressCallback;
+}
+
+/**
+ * Messages sent after a referral request
+ * - follow_up: a nudge when the referral request got no reply
+ * - thank_you: thanks once the referral has been given
+ * - status_update: tells the referrer how the application is going
+ */
+export type FollowUpType = 'follow_up' | 'thank_you' | 'status_update';
+
+export type ApplicationStatus = 'applied' | 'interviewing' | 'offer' | 'hired' | 'rejected';
+
+/**
+ * The stored referral a follow-up message is written from
+ */
+export interface FollowUpContext {
+  job: JobData;
+  jobDetails?: JobDetails;
+  /** The referral request the follow-up refers back to */
+  original: ReferralDraft;
+  channel?: MessageChannel;
+  tone?: MessageTone;
+}
+
+/**
+ * Optional inputs for follow-up messages
+ */
+export interface FollowUpOptions {
+  /** Days since the referral request was sent, for follow-ups */
+  daysSinceSent?: number;
+  /** Where the application stands, for status updates */
+  status?: ApplicationStatus;
+  /** Anything else the message should mention, in the user's words */
+  note?: string;
+}
+
+/**
+ * How the user knows a contact they ask for referrals
+ */
+export type ContactRelationship = 'colleague' | 'former_colleague' | 'alumni' | 'friend' | 'recruiter' | 'hiring_manager' | 'other';
+
+/**
+ * Where a referral request to a contact stands
+ * - drafted: written but not sent yet
+ * - replied: the contact answered but has not referred the user yet
+ * - interviewing: the user is interviewing after the referral
+ */
+export type OutreachStatus = 'drafted' | 'sent' | 'replied' | 'referred' | 'declined' | 'interviewing';
+
 /**
 * Request payload for referral generation
 */
@@ -20,8 +415,15 @@ export interface ReferralRequest {
 */
 export interface ReferralResponse {
   success: boolean;
+  /** Body of the first draft */
   referralMessage?: string;
+  /** Subject of the first draft, for the email and inmail channels */
+  subject?: string;
+  channel?: MessageChannel;
+  variants?: ReferralDraft[];
+  referralId?: string;
   jobTitle?: string;
   companyName?: string;
+  jobDetails?: JobDetails;
   error?: string;
 }
\ No newline at end of file
@@ -0,0 +1,42 @@
+import crypto from 'crypto';
+
+// 128 bits of SHA-256 keeps IDs short while making accidental collisions practically impossible
+const FINGERPRINT_LENGTH = 32;
+
+// Whole lines that differ between copies of the same posting, such as page chrome and relative dates
+const BOILERPLATE_LINE_PATTERNS: RegExp[] = [
+  /^(apply( now| for this job)?|easy apply|save( job)?|share( this job)?|report( this)? job|show (more|less)|see more|back to (jobs|search))$/,
+  /^(posted|reposted|updated)\b.*\bago$/,
+  /^\d+\+?\s*(applicants?|applications?|views?)\b/,
+  /^(sign in|log in|join now)\b/,
+  /\b(we use cookies|cookie (policy|settings|preferences)|accept (all )?cookies)\b/,
+  /^(©|\(c\)|copyright\b)|\ball rights reserved\b/
+];
+
+/**
+ * Normalize posting text so copies that differ only in case, whitespace or page boilerplate compare equal
+ */
+export function normalizeContent(content: string): string {
+  return content
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\u200B-\u200D\uFEFF]/g, '')
+    .split(/\r?\n/)
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line && !BOILERPLATE_LINE_PATTERNS.some(pattern => pattern.test(line)))
+    .join(' ');
+}
+
+/**
+ * Fingerprint the full normalized content with SHA-256
+ */
+export function createContentFingerprint(content: string): string {
+  return crypto.createHash('sha256').update(normalizeContent(content)).digest('hex').slice(0, FINGERPRINT_LENGTH);
+}
+
+/**
+ * Creates a job ID from raw job content for caching purposes
+ */
+export function createHashFromContent(content: string): string {
+  return `content_${createContentFingerprint(content)}`;
+}
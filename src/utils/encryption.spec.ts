@@ -0,0 +1,191 @@
+import crypto from 'crypto';
+import {
+  decryptSecret,
+  encryptSecret,
+  getCurrentKeyId,
+  getSecretKeyId,
+  isEncryptionConfigured,
+  needsReEncryption
+} from './encryption';
+
+const API_KEY = 'sk-test_0123456789abcdefghijklmnop';
+const ENV_NAMES = ['ENCRYPTION_KEY', 'ENCRYPTION_KEYS', 'ENCRYPTION_KEY_ID', 'LEGACY_ENCRYPTION_KEY'];
+
+/**
+ * Encrypt the way secrets were stored before GCM: AES-256-CTR under a SHA-256 of the secret
+ */
+function encryptLegacy(plainText: string, secret: string): { encrypted: string; iv: string } {
+  const iv = crypto.randomBytes(16);
+  const key = crypto.createHash('sha256').update(secret).digest();
+  const cipher = crypto.createCipheriv('aes-256-ctr', key, iv);
+
+  return {
+    encrypted: cipher.update(plainText, 'utf8', 'hex') + cipher.final('hex'),
+    iv: iv.toString('hex')
+  };
+}
+
+describe('encryption', () => {
+  const savedEnv: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    for (const name of ENV_NAMES) {
+      savedEnv[name] = process.env[name];
+      delete process.env[name];
+    }
+  });
+
+  afterEach(() => {
+    for (const name of ENV_NAMES) {
+      if (savedEnv[name] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = savedEnv[name];
+      }
+    }
+  });
+
+  describe('GCM secrets', () => {
+    it('round-trips a secret under ENCRYPTION_KEY as key "default"', () => {
+      process.env.ENCRYPTION_KEY = 'current-secret';
+
+      const payload = encryptSecret(API_KEY);
+
+      expect(payload).toMatch(/^gcm:default:[^:]+:[^:]+:[^:]+$/);
+      expect(payload).not.toContain(API_KEY);
+      expect(getSecretKeyId(payload)).toBe('default');
+      expect(decryptSecret(payload)).toBe(API_KEY);
+    });
+
+    it('uses a fresh IV for every encryption', () => {
+      process.env.ENCRYPTION_KEY = 'current-secret';
+
+      expect(encryptSecret(API_KEY)).not.toBe(encryptSecret(API_KEY));
+    });
+
+    it('rejects a tampered ciphertext', () => {
+      process.env.ENCRYPTION_KEY = 'current-secret';
+
+      const parts = encryptSecret(API_KEY).split(':');
+      const ciphertext = Buffer.from(parts[4], 'base64');
+      ciphertext[0] ^= 1;
+      parts[4] = ciphertext.toString('base64');
+
+      expect(() => decryptSecret(parts.join(':'))).toThrow();
+    });
+
+    it('rejects a ciphertext relabelled with another key ID', () => {
+      process.env.ENCRYPTION_KEYS = 'a:first-secret,b:first-secret';
+      process.env.ENCRYPTION_KEY_ID = 'a';
+
+      const relabelled = encryptSecret(API_KEY).replace(/^gcm:a:/, 'gcm:b:');
+
+      expect(() => decryptSecret(relabelled)).toThrow();
+    });
+
+    it('rejects a malformed payload', () => {
+      process.env.ENCRYPTION_KEY = 'current-secret';
+
+      expect(() => decryptSecret('gcm:default:abc')).toThrow('Malformed encrypted secret');
+    });
+
+    it('fails when the key a ciphertext names is no longer configured', () => {
+      process.env.ENCRYPTION_KEYS = 'old:old-secret';
+      const payload = encryptSecret(API_KEY);
+
+      process.env.ENCRYPTION_KEYS = 'new:new-secret';
+
+      expect(() => decryptSecret(payload)).toThrow('Encryption key "old" is not configured');
+    });
+  });
+
+  describe('key rotation', () => {
+    it('encrypts under ENCRYPTION_KEY_ID and still decrypts secrets under older keys', () => {
+      process.env.ENCRYPTION_KEYS = 'k1:first-secret';
+      const oldPayload = encryptSecret(API_KEY);
+
+      process.env.ENCRYPTION_KEYS = 'k1:first-secret,k2:second-secret';
+      process.env.ENCRYPTION_KEY_ID = 'k2';
+      const newPayload = encryptSecret(API_KEY);
+
+      expect(getCurrentKeyId()).toBe('k2');
+      expect(getSecretKeyId(oldPayload)).toBe('k1');
+      expect(getSecretKeyId(newPayload)).toBe('k2');
+      expect(decryptSecret(oldPayload)).toBe(API_KEY);
+      expect(decryptSecret(newPayload)).toBe(API_KEY);
+      expect(needsReEncryption(oldPayload)).toBe(true);
+      expect(needsReEncryption(newPayload)).toBe(false);
+    });
+
+    it('prefers ENCRYPTION_KEY over the first listed key when no key ID is set', () => {
+      process.env.ENCRYPTION_KEYS = 'k1:first-secret';
+      process.env.ENCRYPTION_KEY = 'current-secret';
+
+      expect(getCurrentKeyId()).toBe('default');
+    });
+
+    it('falls back to the first listed key', () => {
+      process.env.ENCRYPTION_KEYS = 'k1:first-secret, k2:second-secret';
+
+      expect(getCurrentKeyId()).toBe('k1');
+    });
+
+    it('refuses an ENCRYPTION_KEY_ID that is not configured', () => {
+      process.env.ENCRYPTION_KEYS = 'k1:first-secret';
+      process.env.ENCRYPTION_KEY_ID = 'k9';
+
+      expect(() => getCurrentKeyId()).toThrow('Encryption key "k9" is not configured in ENCRYPTION_KEYS');
+      expect(isEncryptionConfigured()).toBe(false);
+    });
+
+    it('reports when no key is configured', () => {
+      expect(isEncryptionConfigured()).toBe(false);
+      expect(() => encryptSecret(API_KEY)).toThrow('No encryption key configured');
+      expect(needsReEncryption('legacy-ciphertext')).toBe(false);
+    });
+
+    it('marks legacy ciphertexts for re-encryption', () => {
+      process.env.ENCRYPTION_KEY = 'current-secret';
+
+      expect(getSecretKeyId('0a1b2c')).toBeNull();
+      expect(needsReEncryption('0a1b2c')).toBe(true);
+    });
+  });
+
+  describe('legacy CTR secrets', () => {
+    it('decrypts a secret written with ENCRYPTION_KEY', () => {
+      process.env.ENCRYPTION_KEY = 'current-secret';
+      const { encrypted, iv } = encryptLegacy(API_KEY, 'current-secret');
+
+      expect(decryptSecret(encrypted, iv)).toBe(API_KEY);
+    });
+
+    it('decrypts a secret written with LEGACY_ENCRYPTION_KEY after the key changed', () => {
+      process.env.ENCRYPTION_KEY = 'current-secret';
+      process.env.LEGACY_ENCRYPTION_KEY = 'retired-secret';
+      const { encrypted, iv } = encryptLegacy(API_KEY, 'retired-secret');
+
+      expect(decryptSecret(encrypted, iv)).toBe(API_KEY);
+    });
+
+    it('decrypts a secret written with the development default key', () => {
+      process.env.ENCRYPTION_KEY = 'current-secret';
+      const { encrypted, iv } = encryptLegacy(API_KEY, 'default-encryption-key-for-development-only');
+
+      expect(decryptSecret(encrypted, iv)).toBe(API_KEY);
+    });
+
+    it('refuses to return garbage when no known key matches', () => {
+      process.env.ENCRYPTION_KEY = 'current-secret';
+      const { encrypted, iv } = encryptLegacy(API_KEY, 'unknown-secret');
+
+      expect(() => decryptSecret(encrypted, iv)).toThrow('Cannot decrypt legacy secret');
+    });
+
+    it('requires the IV', () => {
+      const { encrypted } = encryptLegacy(API_KEY, 'current-secret');
+
+      expect(() => decryptSecret(encrypted)).toThrow('Legacy encrypted secret is missing its IV');
+    });
+  });
+});
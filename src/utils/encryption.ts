@@ -0,0 +1,184 @@
+import crypto from 'crypto';
+
+/**
+ * Stored secrets are packed as `gcm:<keyId>:<iv>:<authTag>:<ciphertext>` (base64 parts)
+ * so each ciphertext names the master key it was encrypted with.
+ * Secrets written before GCM was introduced are hex AES-256-CTR ciphertexts with a separate hex IV.
+ */
+const GCM_PREFIX = 'gcm';
+const GCM_IV_BYTES = 12;
+const KEY_DERIVATION_SALT = 'jobrefme-api-keys';
+const DEFAULT_KEY_ID = 'default';
+// Secret the pre-GCM scheme fell back to when ENCRYPTION_KEY was unset; only used to read legacy secrets
+const LEGACY_DEVELOPMENT_KEY = 'default-encryption-key-for-development-only';
+// Legacy secrets are always API keys, so a wrong key shows up as a value that does not look like one
+const LEGACY_SECRET_PATTERN = /^[A-Za-z0-9_-]{20,}$/;
+
+const derivedKeys = new Map<string, Buffer>();
+
+/**
+ * Read the configured master keys
+ * ENCRYPTION_KEYS holds comma separated `<keyId>:<secret>` pairs; a lone ENCRYPTION_KEY is key `default`
+ */
+function getMasterKeys(): Map<string, string> {
+  const keys = new Map<string, string>();
+
+  for (const entry of (process.env.ENCRYPTION_KEYS || '').split(',')) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) continue;
+
+    const keyId = entry.slice(0, separator).trim();
+    const secret = entry.slice(separator + 1).trim();
+    if (keyId && secret) {
+      keys.set(keyId, secret);
+    }
+  }
+
+  if (process.env.ENCRYPTION_KEY && !keys.has(DEFAULT_KEY_ID)) {
+    keys.set(DEFAULT_KEY_ID, process.env.ENCRYPTION_KEY);
+  }
+
+  return keys;
+}
+
+/**
+ * Get the ID of the master key used for new ciphertexts
+ * @throws Error if no master key is configured or ENCRYPTION_KEY_ID names an unknown key
+ */
+export function getCurrentKeyId(): string {
+  const keys = getMasterKeys();
+  const keyId = process.env.ENCRYPTION_KEY_ID || (keys.has(DEFAULT_KEY_ID) ? DEFAULT_KEY_ID : keys.keys().next().value);
+
+  if (!keyId) {
+    throw new Error('No encryption key configured. Set ENCRYPTION_KEY or ENCRYPTION_KEYS.');
+  }
+
+  if (!keys.has(keyId)) {
+    throw new Error(`Encryption key "${keyId}" is not configured in ENCRYPTION_KEYS`);
+  }
+
+  return keyId;
+}
+
+/**
+ * Check whether secrets can be encrypted with the current configuration
+ */
+export function isEncryptionConfigured(): boolean {
+  try {
+    getCurrentKeyId();
+    return true;
+  } catch (_error) {
+    return false;
+  }
+}
+
+/**
+ * Derive the 32-byte AES key for a master key ID
+ * @throws Error if the key ID is not configured
+ */
+function getDerivedKey(keyId: string): Buffer {
+  const secret = getMasterKeys().get(keyId);
+
+  if (!secret) {
+    throw new Error(`Encryption key "${keyId}" is not configured`);
+  }
+
+  const cacheKey = `${keyId}:${secret}`;
+  if (!derivedKeys.has(cacheKey)) {
+    derivedKeys.set(cacheKey, crypto.scryptSync(secret, `${KEY_DERIVATION_SALT}:${keyId}`, 32));
+  }
+
+  return derivedKeys.get(cacheKey)!;
+}
+
+/**
+ * Encrypt a secret such as an API key for storage with AES-256-GCM under the current master key
+ * @throws Error if no master key is configured
+ */
+export function encryptSecret(plainText: string): string {
+  const keyId = getCurrentKeyId();
+  const iv = crypto.randomBytes(GCM_IV_BYTES);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getDerivedKey(keyId), iv);
+  // Bind the ciphertext to its key ID so it cannot be relabelled
+  cipher.setAAD(Buffer.from(keyId, 'utf8'));
+
+  const encrypted = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+
+  return [
+    GCM_PREFIX,
+    keyId,
+    iv.toString('base64'),
+    cipher.getAuthTag().toString('base64'),
+    encrypted.toString('base64')
+  ].join(':');
+}
+
+/**
+ * Decrypt a secret produced by encryptSecret, or a legacy AES-256-CTR secret with its IV
+ * @param payload The stored ciphertext
+ * @param legacyIv Hex IV stored next to legacy ciphertexts
+ * @throws Error if the master key is missing, the ciphertext fails authentication or a legacy ciphertext matches no known key
+ */
+export function decryptSecret(payload: string, legacyIv?: string): string {
+  if (!payload.startsWith(`${GCM_PREFIX}:`)) {
+    return decryptLegacySecret(payload, legacyIv);
+  }
+
+  const [, keyId, iv, authTag, encrypted] = payload.split(':');
+  if (!keyId || !iv || !authTag || encrypted === undefined) {
+    throw new Error('Malformed encrypted secret');
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getDerivedKey(keyId), Buffer.from(iv, 'base64'));
+  decipher.setAAD(Buffer.from(keyId, 'utf8'));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(encrypted, 'base64')),
+    decipher.final()
+  ]).toString('utf8');
+}
+
+/**
+ * Get the master key ID of a stored ciphertext
+ * @returns The key ID, or null for legacy ciphertexts
+ */
+export function getSecretKeyId(payload: string): string | null {
+  return payload.startsWith(`${GCM_PREFIX}:`) ? payload.split(':')[1] || null : null;
+}
+
+/**
+ * Check whether a stored ciphertext should be re-encrypted under the current master key
+ */
+export function needsReEncryption(payload: string): boolean {
+  return isEncryptionConfigured() && getSecretKeyId(payload) !== getCurrentKeyId();
+}
+
+/**
+ * Decrypt a secret written with the old unauthenticated AES-256-CTR scheme
+ * The old key was a SHA-256 of ENCRYPTION_KEY, or of a development default when it was unset. CTR has no
+ * integrity check, so LEGACY_ENCRYPTION_KEY, ENCRYPTION_KEY and the development default are tried in turn
+ * and the first result that looks like an API key wins
+ * @throws Error if no candidate key yields an API key
+ */
+function decryptLegacySecret(encrypted: string, iv?: string): string {
+  if (!iv) {
+    throw new Error('Legacy encrypted secret is missing its IV');
+  }
+
+  const candidates = new Set([process.env.LEGACY_ENCRYPTION_KEY, process.env.ENCRYPTION_KEY, LEGACY_DEVELOPMENT_KEY]);
+
+  for (const legacySecret of candidates) {
+    if (!legacySecret) continue;
+
+    const key = crypto.createHash('sha256').update(legacySecret).digest();
+    const decipher = crypto.createDecipheriv('aes-256-ctr', key, Buffer.from(iv, 'hex'));
+    const decrypted = decipher.update(encrypted, 'hex', 'utf8') + decipher.final('utf8');
+
+    if (LEGACY_SECRET_PATTERN.test(decrypted)) {
+      return decrypted;
+    }
+  }
+
+  throw new Error('Cannot decrypt legacy secret: set LEGACY_ENCRYPTION_KEY to the ENCRYPTION_KEY it was written with');
+}
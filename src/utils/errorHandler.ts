@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
 import { logger } from './logger';
 
 export class ApiError extends Error {
@@ -12,6 +13,55 @@ export class ApiError extends Error {
   }
 }
 
+export type LlmProviderErrorCode = 'invalid_api_key' | 'quota_exceeded' | 'request_failed';
+
+/**
+ * Error raised by an LLM provider, classified so callers can react the same way for every backend
+ */
+export class LlmProviderError extends Error {
+  code: LlmProviderErrorCode;
+  
+  constructor(code: LlmProviderErrorCode, message: string) {
+    super(message);
+    this.code = code;
+    this.name = this.constructor.name;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * Error raised when a job page was fetched but holds no usable job posting, so fetching it again will not help
+ */
+export class JobExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * Error raised when a URL points at a host the server must not reach, such as a private network or cloud metadata address
+ */
+export class BlockedUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * Check whether an error is a MongoDB duplicate key error, optionally on a unique index that includes the given field
+ */
+export function isDuplicateKeyError(error: unknown, field?: string): boolean {
+  if (!(error instanceof mongoose.mongo.MongoServerError) || error.code !== 11000) {
+    return false;
+  }
+
+  return !field || Boolean(error.keyPattern?.[field]);
+}
+
 export function errorHandler(
   err: Error | ApiError,
   _req: Request,
@@ -0,0 +1,240 @@
+import {
+  formatExperienceRange,
+  formatJobDetailsForPrompt,
+  formatJobLocation,
+  getJobDetails,
+  normalizeJobPosting,
+  parseEmploymentType,
+  parseExperienceRange,
+  parseJobDate,
+  parseLocation,
+  parseSalary
+} from './jobNormalizer';
+
+describe('parseSalary', () => {
+  it.each([
+    ['12-18 LPA', { min: 1200000, max: 1800000, currency: 'INR', period: 'year' }],
+    ['₹8L - ₹12L', { min: 800000, max: 1200000, currency: 'INR', period: 'year' }],
+    ['₹1.2 Cr', { min: 12000000, max: 12000000, currency: 'INR', period: 'year' }],
+    ['1200000-1800000 INR per YEAR', { min: 1200000, max: 1800000, currency: 'INR', period: 'year' }],
+    ['$120k–150k a year', { min: 120000, max: 150000, currency: 'USD', period: 'year' }],
+    ['$50-60k', { min: 50000, max: 60000, currency: 'USD', period: 'year' }],
+    ['£45,000 - £55,000 per annum', { min: 45000, max: 55000, currency: 'GBP', period: 'year' }],
+    ['€4.500 per month', { min: 4500, max: 4500, currency: 'EUR', period: 'month' }],
+    ['CA$90,000', { min: 90000, max: 90000, currency: 'CAD', period: 'year' }],
+    ['A$100k', { min: 100000, max: 100000, currency: 'AUD', period: 'year' }],
+    ['5000 - 3000 USD monthly', { min: 3000, max: 5000, currency: 'USD', period: 'month' }]
+  ])('parses "%s"', (raw, expected) => {
+    expect(parseSalary(raw)).toEqual({ ...expected, raw });
+  });
+
+  it('keeps open-ended ranges open', () => {
+    expect(parseSalary('Up to $50/hour')).toEqual({ max: 50, currency: 'USD', period: 'hour', raw: 'Up to $50/hour' });
+    expect(parseSalary('From €60,000')).toEqual({ min: 60000, currency: 'EUR', period: 'year', raw: 'From €60,000' });
+  });
+
+  it('leaves the currency unset when none is stated', () => {
+    expect(parseSalary('40000 - 50000')?.currency).toBeUndefined();
+  });
+
+  it('ignores text without amounts', () => {
+    expect(parseSalary('Not disclosed')).toBeUndefined();
+    expect(parseSalary('  ')).toBeUndefined();
+    expect(parseSalary()).toBeUndefined();
+  });
+});
+
+describe('parseExperienceRange', () => {
+  it.each([
+    ['3-5 years', { min: 3, max: 5 }],
+    ['2 to 4 yrs', { min: 2, max: 4 }],
+    ['0 - 2 Years', { min: 0, max: 2 }],
+    ['5+ years of experience', { min: 5 }],
+    ['Minimum 7 yrs', { min: 7 }],
+    ['Fresher', { min: 0, max: 1 }],
+    ['Entry-level role', { min: 0, max: 1 }]
+  ])('parses "%s"', (text, expected) => {
+    expect(parseExperienceRange(text)).toEqual(expected);
+  });
+
+  it('uses the first stated range', () => {
+    expect(parseExperienceRange('10 years of Java, 3+ years of Go')).toEqual({ min: 10 });
+  });
+
+  it('skips implausible and inverted ranges', () => {
+    expect(parseExperienceRange('8-3 years, ideally 4 years')).toEqual({ min: 4 });
+    expect(parseExperienceRange('Our company is 100 years old')).toBeNull();
+    expect(parseExperienceRange('2.5 years')).toBeNull();
+  });
+
+  it('returns null when no experience is stated', () => {
+    expect(parseExperienceRange('Build great products')).toBeNull();
+  });
+});
+
+describe('parseEmploymentType', () => {
+  it.each([
+    ['Fulltime', 'full_time'],
+    ['FULL_TIME', 'full_time'],
+    ['Permanent', 'full_time'],
+    ['Part-time', 'part_time'],
+    ['Contract to hire', 'contract'],
+    ['Summer Internship', 'internship'],
+    ['Temp', 'temporary'],
+    ['Freelance', 'freelance'],
+    ['Part-time, Full-time', 'part_time']
+  ])('maps "%s"', (raw, expected) => {
+    expect(parseEmploymentType(raw)).toBe(expected);
+  });
+
+  it('returns undefined for unknown types', () => {
+    expect(parseEmploymentType('Volunteer')).toBeUndefined();
+    expect(parseEmploymentType()).toBeUndefined();
+  });
+});
+
+describe('parseLocation', () => {
+  it('splits city, region and country', () => {
+    expect(parseLocation('Bengaluru, Karnataka, India')).toEqual({
+      raw: 'Bengaluru, Karnataka, India',
+      city: 'Bengaluru',
+      region: 'Karnataka',
+      country: 'India',
+      remote: false,
+      hybrid: false
+    });
+  });
+
+  it('reads two-letter codes as regions and longer names as countries', () => {
+    expect(parseLocation('Austin, TX')).toEqual({ raw: 'Austin, TX', city: 'Austin', region: 'TX', remote: false, hybrid: false });
+    expect(parseLocation('London, United Kingdom')).toEqual({
+      raw: 'London, United Kingdom',
+      city: 'London',
+      country: 'United Kingdom',
+      remote: false,
+      hybrid: false
+    });
+  });
+
+  it('detects remote and hybrid work', () => {
+    expect(parseLocation('San Francisco, CA • Hybrid')).toMatchObject({ city: 'San Francisco', region: 'CA', hybrid: true, remote: false });
+    expect(parseLocation('Hybrid - Berlin, Germany')).toMatchObject({ city: 'Berlin', country: 'Germany', hybrid: true });
+    expect(parseLocation('Work from home')).toEqual({ raw: 'Work from home', remote: true, hybrid: false });
+  });
+
+  it('reads the place named next to "Remote" as a country', () => {
+    expect(parseLocation('Remote (India)')).toEqual({ raw: 'Remote (India)', country: 'India', remote: true, hybrid: false });
+  });
+
+  it('uses the first of several locations', () => {
+    expect(parseLocation('Pune / Mumbai')).toMatchObject({ city: 'Pune' });
+    expect(parseLocation('New York, NY, USA; Remote')).toMatchObject({ city: 'New York', region: 'NY', country: 'USA', remote: true });
+  });
+
+  it('ignores blank locations', () => {
+    expect(parseLocation('  ')).toBeUndefined();
+    expect(parseLocation()).toBeUndefined();
+  });
+});
+
+describe('parseJobDate', () => {
+  const now = new Date('2024-06-10T12:00:00Z');
+
+  it.each([
+    ['2024-05-01', '2024-05-01T00:00:00.000Z'],
+    ['today', '2024-06-10T12:00:00.000Z'],
+    ['Yesterday', '2024-06-09T12:00:00.000Z'],
+    ['3 days ago', '2024-06-07T12:00:00.000Z'],
+    ['30+ days ago', '2024-05-11T12:00:00.000Z'],
+    ['2 weeks ago', '2024-05-27T12:00:00.000Z']
+  ])('parses "%s"', (raw, expected) => {
+    expect(parseJobDate(raw, now)).toBe(expected);
+  });
+
+  it('rejects dates without a year and unparseable text', () => {
+    expect(parseJobDate('May 1', now)).toBeUndefined();
+    expect(parseJobDate('garbage 2024x', now)).toBeUndefined();
+    expect(parseJobDate('', now)).toBeUndefined();
+  });
+});
+
+describe('normalizeJobPosting', () => {
+  const job = {
+    title: 'Backend Engineer',
+    company: 'Acme',
+    description: 'We need 4+ years building APIs with Node.js and MongoDB.',
+    location: 'Pune, India (Hybrid)',
+    salary: '20-30 LPA',
+    jobType: 'Full-time',
+    postedDate: '2024-05-01',
+    skills: ['TypeScript', 'typescript', 'A very long requirement sentence about distributed systems']
+  };
+
+  it('parses the free-text details into a posting', () => {
+    const posting = normalizeJobPosting(job, 'https://acme.com/jobs/1');
+
+    expect(posting).toEqual({
+      title: 'Backend Engineer',
+      company: 'Acme',
+      description: job.description,
+      skills: ['TypeScript', 'Node.js', 'MongoDB'],
+      location: { raw: 'Pune, India (Hybrid)', city: 'Pune', country: 'India', remote: false, hybrid: true },
+      salary: { min: 2000000, max: 3000000, currency: 'INR', period: 'year', raw: '20-30 LPA' },
+      experience: { min: 4 },
+      employmentType: 'full_time',
+      postedAt: '2024-05-01T00:00:00.000Z',
+      sourceUrl: 'https://acme.com/jobs/1'
+    });
+  });
+
+  it('prefers the stated experience over the description', () => {
+    expect(normalizeJobPosting({ ...job, experience: '2-3 years' }).experience).toEqual({ min: 2, max: 3 });
+  });
+
+  it('leaves out details the page does not state', () => {
+    const posting = normalizeJobPosting({ title: 'Designer', company: 'Acme', description: 'Design things.' });
+
+    expect(posting).toEqual({ title: 'Designer', company: 'Acme', description: 'Design things.', skills: [] });
+  });
+
+  it('returns the details without title, company and description', () => {
+    const details = getJobDetails(normalizeJobPosting(job));
+
+    expect(details).not.toHaveProperty('title');
+    expect(details).not.toHaveProperty('description');
+    expect(details).toMatchObject({ employmentType: 'full_time', experience: { min: 4 } });
+  });
+});
+
+describe('formatting', () => {
+  it('formats locations', () => {
+    expect(formatJobLocation(parseLocation('Remote (India)'))).toBe('India (Remote)');
+    expect(formatJobLocation(parseLocation('Remote'))).toBe('Remote');
+    expect(formatJobLocation(parseLocation('Bengaluru, Karnataka, India'))).toBe('Bengaluru, Karnataka, India');
+    expect(formatJobLocation()).toBe('');
+  });
+
+  it('formats experience ranges', () => {
+    expect(formatExperienceRange({ min: 3, max: 5 })).toBe('3-5 years');
+    expect(formatExperienceRange({ min: 5 })).toBe('5+ years');
+    expect(formatExperienceRange({ min: 2, max: 2 })).toBe('2 years');
+  });
+
+  it('lists prompt details without the salary', () => {
+    const posting = normalizeJobPosting({
+      title: 'Backend Engineer',
+      company: 'Acme',
+      description: 'We need 4+ years building APIs with Node.js.',
+      location: 'Pune, India (Hybrid)',
+      salary: '20-30 LPA',
+      jobType: 'Full-time'
+    });
+
+    expect(formatJobDetailsForPrompt(posting)).toBe([
+      'Location: Pune, India (Hybrid)',
+      'Employment type: full-time',
+      'Experience required: 4+ years',
+      'Key skills: Node.js'
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,337 @@
+import { EmploymentType, ExperienceRange, JobDetails, JobLocation, JobPosting, ParsedJobData, SalaryPeriod, SalaryRange } from '../types/types';
+import { extractSkills, normalizeSkill } from './skillMatcher';
+
+// Checked in order, so the dollar variants come before plain "$"
+const CURRENCY_PATTERNS: [RegExp, string][] = [
+  [/₹|\bINR\b|\bRs\.?|\bLPA\b|\blakhs?\b|\blacs?\b|\bcrores?\b/i, 'INR'],
+  [/€|\bEUR\b/i, 'EUR'],
+  [/£|\bGBP\b/i, 'GBP'],
+  [/CA?\$|\bCAD\b/i, 'CAD'],
+  [/A\$|\bAUD\b/i, 'AUD'],
+  [/S\$|\bSGD\b/i, 'SGD'],
+  [/\$|\bUSD\b/i, 'USD']
+];
+
+const PERIOD_PATTERNS: [RegExp, SalaryPeriod][] = [
+  [/\b(hour|hourly|hr)\b/i, 'hour'],
+  [/\b(day|daily)\b/i, 'day'],
+  [/\b(week|weekly)\b/i, 'week'],
+  [/\b(month|monthly|mo|pm)\b/i, 'month']
+];
+
+const AMOUNT_MULTIPLIERS: Record<string, number> = {
+  k: 1000,
+  m: 1000000,
+  l: 100000,
+  lpa: 100000,
+  lakh: 100000,
+  lakhs: 100000,
+  lac: 100000,
+  lacs: 100000,
+  cr: 10000000,
+  crore: 10000000,
+  crores: 10000000
+};
+
+// Checked in order; "Contract to hire" is a contract and "Summer internship" an internship
+const EMPLOYMENT_TYPE_PATTERNS: [RegExp, EmploymentType][] = [
+  [/intern/i, 'internship'],
+  [/freelance/i, 'freelance'],
+  [/contract|c2h/i, 'contract'],
+  [/temporary|\btemp\b|seasonal/i, 'temporary'],
+  [/part[\s_-]?time/i, 'part_time'],
+  [/full[\s_-]?time|permanent/i, 'full_time']
+];
+
+const REMOTE_PATTERN = /\b(remote|work from home|wfh|anywhere|telecommute)\b/i;
+const HYBRID_PATTERN = /\bhybrid\b/i;
+const WORKPLACE_PATTERN = /\b(remote|work from home|wfh|anywhere|telecommute|hybrid|on[\s-]?site|in[\s-]office)\b/gi;
+
+const MAX_SKILLS = 30;
+// Longer parsed "skills" are usually whole requirement sentences
+const MAX_SKILL_LENGTH = 40;
+
+/**
+ * Find the years of experience a text asks for, e.g. "3-5 years", "5+ years" or "Fresher"
+ * @returns The first stated range, or null if none is stated
+ */
+export function parseExperienceRange(text: string): ExperienceRange | null {
+  // The lookbehind keeps "100 years" or "2.5 years" from matching on their last digits
+  const pattern = /(?<![\d.])(\d{1,2})\s*(\+|plus)?\s*(?:(?:-|–|to)\s*(\d{1,2})\s*\+?\s*)?(?:years?|yrs?)/gi;
+
+  for (const match of text.matchAll(pattern)) {
+    const min = parseInt(match[1], 10);
+    const max = match[3] ? parseInt(match[3], 10) : undefined;
+
+    if (min > 30 || (max !== undefined && max < min)) continue;
+
+    // Overall experience is usually stated before per-skill requirements
+    return { min, max: match[2] ? undefined : max };
+  }
+
+  if (/\b(fresher|freshers|entry[\s-]level|no experience)\b/i.test(text)) {
+    return { min: 0, max: 1 };
+  }
+
+  return null;
+}
+
+/**
+ * Parse an amount written with thousands separators, e.g. "1,20,000", "60,000" or the European "4.500"
+ */
+function parseAmount(text: string): number {
+  if (/^\d{1,3}(\.\d{3})+(,\d{1,2})?$/.test(text)) {
+    return parseFloat(text.replace(/\./g, '').replace(',', '.'));
+  }
+
+  return parseFloat(text.replace(/,/g, ''));
+}
+
+/**
+ * Parse a salary such as "12-18 LPA", "₹8L - ₹12L", "$120k–150k a year" or "1200000-1800000 INR per YEAR"
+ * Amounts are converted to whole currency units; Indian lakh and crore shorthands imply INR per year
+ *
+ * @returns The salary range, or undefined if the text has no amounts (e.g. "Not disclosed")
+ */
+export function parseSalary(raw?: string): SalaryRange | undefined {
+  const text = raw?.trim();
+  if (!text) return undefined;
+
+  const amounts = [...text.matchAll(/(\d+(?:[.,]\d+)*)\s*(k|m|l|lpa|lakhs?|lacs?|cr|crores?)?(?![a-z])/gi)]
+    .slice(0, 2)
+    .map(match => ({
+      value: parseAmount(match[1]),
+      multiplier: match[2] ? AMOUNT_MULTIPLIERS[match[2].toLowerCase()] : undefined
+    }))
+    .filter(amount => !isNaN(amount.value));
+
+  if (amounts.length === 0) return undefined;
+
+  // In "12-18 LPA" and "$50-60k" the unit is only written after the upper bound
+  const [low, high] = amounts;
+  if (high && !low.multiplier && high.multiplier && low.value < 1000) {
+    low.multiplier = high.multiplier;
+  }
+
+  const values = amounts.map(amount => Math.round(amount.value * (amount.multiplier || 1)));
+  const salary: SalaryRange = {
+    currency: CURRENCY_PATTERNS.find(([pattern]) => pattern.test(text))?.[1],
+    period: PERIOD_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] || 'year',
+    raw: text
+  };
+
+  if (values.length > 1) {
+    salary.min = Math.min(values[0], values[1]);
+    salary.max = Math.max(values[0], values[1]);
+  } else if (/\b(up\s*to|upto|max(imum)?)\b/i.test(text)) {
+    salary.max = values[0];
+  } else if (/\b(from|starting|min(imum)?)\b|\+/i.test(text)) {
+    salary.min = values[0];
+  } else {
+    salary.min = values[0];
+    salary.max = values[0];
+  }
+
+  return salary;
+}
+
+/**
+ * Map an employment type such as "Fulltime", "FULL_TIME" or "Contract to hire" onto EmploymentType
+ * When several types are listed, the first recognised one wins
+ */
+export function parseEmploymentType(raw?: string): EmploymentType | undefined {
+  if (!raw) return undefined;
+
+  for (const part of raw.split(/[,/|]/)) {
+    const match = EMPLOYMENT_TYPE_PATTERNS.find(([pattern]) => pattern.test(part));
+    if (match) return match[1];
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse a location such as "Bengaluru, Karnataka, India", "San Francisco, CA • Hybrid" or "Remote (India)"
+ * When several locations are listed the first one is used for city, region and country
+ */
+export function parseLocation(raw?: string): JobLocation | undefined {
+  const text = raw?.trim();
+  if (!text) return undefined;
+
+  const location: JobLocation = {
+    raw: text,
+    remote: REMOTE_PATTERN.test(text),
+    hybrid: HYBRID_PATTERN.test(text)
+  };
+
+  for (const place of text.split(/\s*(?:\/|•|\||;)\s*/)) {
+    const parts = place
+      .replace(WORKPLACE_PATTERN, '')
+      .replace(/[()]/g, ' ')
+      .split(',')
+      .map(part => part.replace(/^[\s-]+|[\s-]+$/g, ''))
+      .filter(part => part);
+
+    if (parts.length === 0) continue;
+
+    if (parts.length === 1) {
+      // "Remote (India)" names the country candidates must be in, not a city
+      if (REMOTE_PATTERN.test(place)) {
+        location.country = parts[0];
+      } else {
+        location.city = parts[0];
+      }
+    } else if (parts.length === 2) {
+      location.city = parts[0];
+      // US and Canadian postings use two-letter state codes, e.g. "Austin, TX"
+      if (/^[A-Z]{2}$/.test(parts[1])) {
+        location.region = parts[1];
+      } else {
+        location.country = parts[1];
+      }
+    } else {
+      location.city = parts[0];
+      location.region = parts[1];
+      location.country = parts[parts.length - 1];
+    }
+    break;
+  }
+
+  return location;
+}
+
+/**
+ * Parse a posting date such as "2024-05-01", "May 1, 2024" or LinkedIn's "3 days ago"
+ * @returns ISO 8601 timestamp, or undefined if the date is not recognised
+ */
+export function parseJobDate(raw?: string, now = new Date()): string | undefined {
+  const text = raw?.trim();
+  if (!text) return undefined;
+
+  if (/^(today|just now)$/i.test(text)) return now.toISOString();
+  if (/^yesterday$/i.test(text)) return new Date(now.getTime() - 86400000).toISOString();
+
+  const relative = text.match(/(\d+)\+?\s*(minute|hour|day|week|month)s?\s+ago/i);
+  if (relative) {
+    const unitMs: Record<string, number> = {
+      minute: 60000,
+      hour: 3600000,
+      day: 86400000,
+      week: 7 * 86400000,
+      month: 30 * 86400000
+    };
+    return new Date(now.getTime() - parseInt(relative[1], 10) * unitMs[relative[2].toLowerCase()]).toISOString();
+  }
+
+  // Only absolute dates; Date.parse accepts too many loose formats otherwise
+  if (!/\d{4}/.test(text)) return undefined;
+
+  const timestamp = Date.parse(text);
+  return isNaN(timestamp) ? undefined : new Date(timestamp).toISOString();
+}
+
+/**
+ * Combine the skills listed on the posting with catalog skills mentioned in its text
+ */
+function collectSkills(job: ParsedJobData): string[] {
+  const listed = (job.skills || [])
+    .map(skill => normalizeSkill(skill))
+    .filter(skill => skill && skill.length <= MAX_SKILL_LENGTH);
+  const mentioned = extractSkills(`${job.title}\n${job.description}`, listed);
+
+  const seen = new Set<string>();
+  return [...listed, ...mentioned]
+    .filter(skill => {
+      const key = skill.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_SKILLS);
+}
+
+/**
+ * Turn parsed job data, whose details are free text as shown on the page, into a JobPosting
+ * The experience range falls back to the first range stated in the description
+ *
+ * @param job Parsed job data
+ * @param sourceUrl URL the posting was fetched from
+ */
+export function normalizeJobPosting(job: ParsedJobData, sourceUrl?: string): JobPosting {
+  const posting: JobPosting = {
+    title: job.title,
+    company: job.company,
+    description: job.description,
+    skills: collectSkills(job)
+  };
+
+  const location = parseLocation(job.location);
+  const salary = parseSalary(job.salary);
+  const experience = (job.experience && parseExperienceRange(job.experience)) || parseExperienceRange(job.description);
+  const employmentType = parseEmploymentType(job.jobType);
+  const postedAt = parseJobDate(job.postedDate);
+  const expiresAt = parseJobDate(job.validThrough);
+
+  if (location) posting.location = location;
+  if (salary) posting.salary = salary;
+  if (experience) posting.experience = experience;
+  if (employmentType) posting.employmentType = employmentType;
+  if (postedAt) posting.postedAt = postedAt;
+  if (expiresAt) posting.expiresAt = expiresAt;
+  if (sourceUrl) posting.sourceUrl = sourceUrl;
+
+  return posting;
+}
+
+/**
+ * Get the structured details of a posting without its title, company and description
+ */
+export function getJobDetails(posting: JobPosting): JobDetails {
+  return {
+    location: posting.location,
+    salary: posting.salary,
+    experience: posting.experience,
+    employmentType: posting.employmentType,
+    skills: posting.skills,
+    postedAt: posting.postedAt,
+    expiresAt: posting.expiresAt,
+    sourceUrl: posting.sourceUrl
+  };
+}
+
+/**
+ * Format a location for display, e.g. "Bengaluru, India (Hybrid)"
+ */
+export function formatJobLocation(location?: JobLocation): string {
+  if (!location) return '';
+
+  const place = [location.city, location.region, location.country].filter(part => part).join(', ');
+  const workplace = location.remote ? 'Remote' : location.hybrid ? 'Hybrid' : '';
+
+  if (!place) return workplace || location.raw;
+  return workplace ? `${place} (${workplace})` : place;
+}
+
+/**
+ * Describe an experience range, e.g. "3-5 years" or "5+ years"
+ */
+export function formatExperienceRange(experience: ExperienceRange): string {
+  if (experience.max === undefined) return `${experience.min}+ years`;
+  if (experience.max === experience.min) return `${experience.min} years`;
+  return `${experience.min}-${experience.max} years`;
+}
+
+/**
+ * List the structured details of a posting for the referral prompt
+ * Salary is left out; it has no place in a referral request
+ */
+export function formatJobDetailsForPrompt(posting: JobPosting): string {
+  const lines: string[] = [];
+
+  if (posting.location) lines.push(`Location: ${formatJobLocation(posting.location)}`);
+  if (posting.employmentType) lines.push(`Employment type: ${posting.employmentType.replace('_', '-')}`);
+  if (posting.experience) lines.push(`Experience required: ${formatExperienceRange(posting.experience)}`);
+  if (posting.skills.length > 0) lines.push(`Key skills: ${posting.skills.slice(0, 10).join(', ')}`);
+
+  return lines.join('\n');
+}
@@ -0,0 +1,111 @@
+import { MessageChannel, ReferralDraft } from '../types/types';
+
+interface ChannelSpec {
+  /** Whether drafts have a separate subject line */
+  hasSubject: boolean;
+  /** Hard limit on the body, in characters */
+  maxLength?: number;
+  maxSubjectLength?: number;
+  /** Short-form channels set their own size, so the length option does not apply */
+  shortForm: boolean;
+  maxOutputTokens: number;
+  instructions: string;
+}
+
+export const CHANNEL_SPECS: Record<MessageChannel, ChannelSpec> = {
+  email: {
+    hasSubject: true,
+    shortForm: false,
+    maxSubjectLength: 120,
+    maxOutputTokens: 600,
+    instructions: 'Write an email. Put the subject first as "Subject: ..." on its own line, then a blank line, then the body with a greeting and a sign-off. If the template starts with a subject-like line, use it as the subject.'
+  },
+  linkedin_note: {
+    hasSubject: false,
+    shortForm: true,
+    maxLength: 300,
+    maxOutputTokens: 200,
+    instructions: 'Write a LinkedIn connection request note of at most 300 characters including spaces: a greeting, one or two sentences on the role and why the candidate fits, and the referral ask. No subject line, no sign-off and no links.'
+  },
+  inmail: {
+    hasSubject: true,
+    shortForm: false,
+    maxLength: 1900,
+    maxSubjectLength: 200,
+    maxOutputTokens: 700,
+    instructions: 'Write a LinkedIn InMail. Put a short subject first as "Subject: ..." on its own line, then a blank line, then a body of a few short paragraphs. No signature block with contact details.'
+  },
+  short_dm: {
+    hasSubject: false,
+    shortForm: true,
+    maxLength: 500,
+    maxOutputTokens: 250,
+    instructions: 'Write a short direct message for WhatsApp or a chat app: two to four short sentences, casual but respectful. No subject line and no sign-off.'
+  }
+};
+
+/**
+ * Split a generated message into its "Subject:" line and body
+ * Any subject line is removed from the body; the subject is only kept for channels that have one
+ */
+export function toReferralDraft(text: string, channel?: MessageChannel): ReferralDraft {
+  if (!channel) {
+    return { body: text };
+  }
+
+  const spec = CHANNEL_SPECS[channel];
+  const match = text.match(/^\s*(?:\*\*)?subject(?:\*\*)?\s*:\s*(.+?)\s*(?:\n|$)/i);
+  const body = (match ? text.slice(match[0].length) : text).trim();
+
+  if (!spec.hasSubject) {
+    return { body };
+  }
+
+  const subject = (match?.[1] || '').replace(/\*\*/g, '').trim();
+  return subject
+    ? { subject: truncateText(subject, spec.maxSubjectLength), body }
+    : { body };
+}
+
+/**
+ * Write a draft as plain text with its subject line first, the way the model produces it
+ */
+export function formatReferralDraft(draft: ReferralDraft): string {
+  return draft.subject ? `Subject: ${draft.subject}\n\n${draft.body}` : draft.body;
+}
+
+/**
+ * Check whether a draft's body fits the channel's character limit
+ */
+export function fitsChannel(draft: ReferralDraft, channel?: MessageChannel): boolean {
+  const maxLength = channel ? CHANNEL_SPECS[channel].maxLength : undefined;
+  return maxLength === undefined || draft.body.length <= maxLength;
+}
+
+/**
+ * Cut a draft's body to the channel's character limit, used when the model keeps exceeding it
+ */
+export function truncateToChannel(draft: ReferralDraft, channel?: MessageChannel): ReferralDraft {
+  const maxLength = channel ? CHANNEL_SPECS[channel].maxLength : undefined;
+  return { ...draft, body: truncateText(draft.body, maxLength) };
+}
+
+/**
+ * Shorten text to a maximum length, ending at the last complete sentence, or word, that fits
+ */
+function truncateText(text: string, maxLength?: number): string {
+  if (maxLength === undefined || text.length <= maxLength) {
+    return text;
+  }
+
+  const cut = text.slice(0, maxLength);
+  const sentenceEnd = Math.max(cut.lastIndexOf('. '), cut.lastIndexOf('! '), cut.lastIndexOf('? '), cut.lastIndexOf('\n'));
+
+  // Keep at least half the text; a very early sentence end loses too much
+  if (sentenceEnd >= maxLength / 2) {
+    return cut.slice(0, sentenceEnd + 1).trim();
+  }
+
+  const wordEnd = cut.lastIndexOf(' ');
+  return (wordEnd > 0 ? cut.slice(0, wordEnd) : cut).trim();
+}
@@ -0,0 +1,134 @@
+import dns from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockedUrlError } from './errorHandler';
+import { assertPublicUrl, fetchPublicUrl, isPublicAddress, isPublicHttpUrl, publicAddressLookup } from './networkGuard';
+
+jest.mock('dns', () => ({ lookup: jest.fn() }));
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+jest.mock('./logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const PUBLIC_ADDRESS = { address: '93.184.216.34', family: 4 };
+const PRIVATE_ADDRESS = { address: '127.0.0.1', family: 4 };
+
+/**
+ * Make the callback DNS lookup, used when connecting, resolve to the given addresses
+ */
+function resolveOnConnect(...addresses: dns.LookupAddress[]): void {
+  jest.mocked(dns.lookup).mockImplementation(((_hostname: string, _options: object, callback: (error: null, addresses: dns.LookupAddress[]) => void) =>
+    callback(null, addresses)) as never);
+}
+
+/**
+ * Run the lookup used for outgoing connections and return what it reports
+ */
+function lookupForConnection(hostname: string, options: dns.LookupOptions): Promise<{ error: Error | null; address: unknown; family?: number }> {
+  return new Promise(resolve => publicAddressLookup(hostname, options, (error, address, family) => resolve({ error, address, family })));
+}
+
+describe('isPublicAddress', () => {
+  it.each([
+    '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+    '::1', 'fe80::1', 'fd00::1', '::ffff:127.0.0.1', 'not an address'
+  ])('rejects %s', address => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it.each(['93.184.216.34', '8.8.8.8', '2606:2800:220:1:248:1893:25c8:1946'])('accepts %s', address => {
+    expect(isPublicAddress(address)).toBe(true);
+  });
+});
+
+describe('isPublicHttpUrl', () => {
+  it('accepts http(s) URLs on the default ports', () => {
+    expect(isPublicHttpUrl('https://boards.greenhouse.io/acme/jobs/1')).toBe(true);
+    expect(isPublicHttpUrl('http://example.com:80/jobs')).toBe(true);
+    expect(isPublicHttpUrl('https://93.184.216.34/jobs')).toBe(true);
+  });
+
+  it.each([
+    'ftp://example.com/jobs',
+    'https://example.com:8080/jobs',
+    'http://localhost/jobs',
+    'http://intranet/jobs',
+    'http://jobs.internal/1',
+    'http://printer.local./status',
+    'http://169.254.169.254/latest/meta-data',
+    'http://[::1]/jobs',
+    'not a url'
+  ])('rejects %s', url => {
+    expect(isPublicHttpUrl(url)).toBe(false);
+  });
+});
+
+describe('assertPublicUrl', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('accepts hosts that only resolve to public addresses', async () => {
+    jest.mocked(lookup).mockResolvedValue([PUBLIC_ADDRESS] as never);
+
+    await expect(assertPublicUrl('https://example.com/jobs/1')).resolves.toBeUndefined();
+  });
+
+  it('rejects hosts with any private address', async () => {
+    jest.mocked(lookup).mockResolvedValue([PUBLIC_ADDRESS, PRIVATE_ADDRESS] as never);
+
+    await expect(assertPublicUrl('https://example.com/jobs/1')).rejects.toBeInstanceOf(BlockedUrlError);
+  });
+
+  it('checks IP addresses without resolving them', async () => {
+    await expect(assertPublicUrl('http://10.0.0.1/jobs')).rejects.toBeInstanceOf(BlockedUrlError);
+    await expect(assertPublicUrl('https://93.184.216.34/jobs')).resolves.toBeUndefined();
+    expect(lookup).not.toHaveBeenCalled();
+  });
+});
+
+describe('publicAddressLookup', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns the first address, or all of them when asked', async () => {
+    resolveOnConnect(PUBLIC_ADDRESS, { address: '2606:2800:220:1:248:1893:25c8:1946', family: 6 });
+
+    await expect(lookupForConnection('example.com', {})).resolves.toEqual({ error: null, address: '93.184.216.34', family: 4 });
+    await expect(lookupForConnection('example.com', { all: true })).resolves.toMatchObject({
+      error: null,
+      address: [PUBLIC_ADDRESS, { address: '2606:2800:220:1:248:1893:25c8:1946', family: 6 }]
+    });
+  });
+
+  it('fails when any address is private', async () => {
+    resolveOnConnect(PUBLIC_ADDRESS, PRIVATE_ADDRESS);
+
+    const { error } = await lookupForConnection('example.com', {});
+
+    expect(error).toBeInstanceOf(BlockedUrlError);
+  });
+
+  it('passes on DNS errors', async () => {
+    const notFound = Object.assign(new Error('getaddrinfo ENOTFOUND example.com'), { code: 'ENOTFOUND' });
+    jest.mocked(dns.lookup).mockImplementation(((_hostname: string, _options: object, callback: (error: Error) => void) =>
+      callback(notFound)) as never);
+
+    await expect(lookupForConnection('example.com', {})).resolves.toMatchObject({ error: notFound });
+  });
+});
+
+describe('fetchPublicUrl', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('does not connect when the host resolves to a private address after the check', async () => {
+    jest.mocked(lookup).mockResolvedValue([PUBLIC_ADDRESS] as never);
+    resolveOnConnect(PRIVATE_ADDRESS);
+
+    await expect(fetchPublicUrl('http://rebinding.example/jobs/1')).rejects.toBeInstanceOf(BlockedUrlError);
+    expect(dns.lookup).toHaveBeenCalledWith('rebinding.example', expect.anything(), expect.any(Function));
+  });
+});
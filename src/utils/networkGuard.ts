@@ -0,0 +1,221 @@
+import dns from 'dns';
+import { lookup } from 'dns/promises';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { Readable } from 'stream';
+import type { Page, Route } from 'playwright';
+import { logger } from './logger';
+import { BlockedUrlError } from './errorHandler';
+
+const ALLOWED_PORTS = ['', '80', '443'];
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+const BLOCKED_HOSTNAME_SUFFIXES = ['.localhost', '.local', '.internal', '.intranet', '.lan', '.home.arpa'];
+// Statuses whose responses never have a body
+const NULL_BODY_STATUSES = [204, 205, 304];
+
+// Loopback, private, link-local (cloud metadata), shared, documentation, multicast and other reserved ranges
+const reservedAddresses = new BlockList();
+
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.88.99.0', 24], ['192.168.0.0', 16],
+  ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  reservedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+
+// IPv4-mapped addresses (::ffff:a.b.c.d) are checked against the IPv4 ranges by BlockList itself
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['64:ff9b:1::', 48], ['100::', 64], ['2001::', 32],
+  ['2001:db8::', 32], ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  reservedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Check whether an IP address is publicly routable
+ */
+export function isPublicAddress(address: string): boolean {
+  const version = isIP(address);
+
+  if (version === 0) {
+    return false;
+  }
+
+  return !reservedAddresses.check(address, version === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Get the hostname of a URL without IPv6 brackets or a trailing dot
+ */
+function getHostname(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase();
+}
+
+/**
+ * Check a URL without resolving its host: http(s) on the default ports, and a host that is not
+ * a private IP address, localhost or a single-label intranet name
+ */
+export function isPublicHttpUrl(url: string): boolean {
+  let parsedUrl: URL;
+
+  try {
+    parsedUrl = new URL(url);
+  } catch (_error) {
+    return false;
+  }
+
+  if (!['http:', 'https:'].includes(parsedUrl.protocol) || !ALLOWED_PORTS.includes(parsedUrl.port)) {
+    return false;
+  }
+
+  const hostname = getHostname(parsedUrl);
+
+  if (isIP(hostname)) {
+    return isPublicAddress(hostname);
+  }
+
+  return hostname.includes('.')
+    && hostname !== 'localhost'
+    && !BLOCKED_HOSTNAME_SUFFIXES.some(suffix => hostname.endsWith(suffix));
+}
+
+/**
+ * Check a URL and every address its host resolves to
+ * @throws BlockedUrlError if the URL or any resolved address is not public
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  if (!isPublicHttpUrl(url)) {
+    throw new BlockedUrlError(`URL is not allowed: ${url}`);
+  }
+
+  const hostname = getHostname(new URL(url));
+
+  if (isIP(hostname)) {
+    return;
+  }
+
+  const addresses = await lookup(hostname, { all: true });
+  const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+
+  if (addresses.length === 0 || blocked) {
+    throw new BlockedUrlError(`URL is not allowed: ${hostname} resolves to a private or reserved address`);
+  }
+}
+
+/**
+ * Resolve a host for an outgoing connection, failing if any address is private or reserved
+ * Connections made with it use the address that was checked, so a host cannot resolve to a public
+ * address for the check and to a private one for the request (DNS rebinding)
+ */
+export const publicAddressLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    if (addresses.length === 0 || addresses.some(({ address }) => !isPublicAddress(address))) {
+      callback(new BlockedUrlError(`URL is not allowed: ${hostname} resolves to a private or reserved address`), '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Send a single GET request without following redirects, connecting only to public addresses
+ */
+function requestPublicUrl(url: string, headers: Record<string, string>): Promise<Response> {
+  const client = url.startsWith('https:') ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = client.get(url, { headers, lookup: publicAddressLookup }, incoming => {
+      const status = incoming.statusCode || 500;
+      const responseHeaders = new Headers();
+
+      for (const [name, value] of Object.entries(incoming.headers)) {
+        for (const item of Array.isArray(value) ? value : [value]) {
+          if (item !== undefined) {
+            responseHeaders.append(name, item);
+          }
+        }
+      }
+
+      let body: ReadableStream | null = null;
+      if (NULL_BODY_STATUSES.includes(status)) {
+        incoming.resume();
+      } else {
+        body = Readable.toWeb(incoming) as ReadableStream;
+      }
+
+      resolve(new Response(body, { status, statusText: incoming.statusMessage, headers: responseHeaders }));
+    });
+
+    request.on('error', reject);
+  });
+}
+
+/**
+ * Fetch a public URL, following redirects one hop at a time so each target is checked before it is requested
+ * @throws BlockedUrlError if the URL or a redirect target is not public
+ */
+export async function fetchPublicUrl(url: string, init: { headers?: Record<string, string> } = {}): Promise<Response> {
+  let currentUrl = url;
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    await assertPublicUrl(currentUrl);
+
+    const response = await requestPublicUrl(currentUrl, init.headers || {});
+    const location = response.headers.get('location');
+
+    if (!REDIRECT_STATUSES.includes(response.status) || !location) {
+      return response;
+    }
+
+    await response.body?.cancel();
+
+    currentUrl = new URL(location, currentUrl).toString();
+  }
+
+  throw new Error(`Too many redirects fetching ${url}`);
+}
+
+/**
+ * Block browser requests to non-public hosts
+ * Navigations are fetched without following redirects and handed back to the browser, so every
+ * redirect target is checked before the browser requests it
+ */
+export async function guardPageRequests(page: Page): Promise<void> {
+  await page.route('**/*', async (route: Route) => {
+    const request = route.request();
+
+    try {
+      await assertPublicUrl(request.url());
+
+      if (!request.isNavigationRequest()) {
+        await route.continue();
+        return;
+      }
+
+      const response = await route.fetch({ maxRedirects: 0 });
+      const location = response.headers()['location'];
+
+      if (REDIRECT_STATUSES.includes(response.status()) && location) {
+        await assertPublicUrl(new URL(location, request.url()).toString());
+      }
+
+      await route.fulfill({ response });
+    } catch (error) {
+      logger.warn(`Blocked browser request to ${request.url()}: ${error instanceof Error ? error.message : String(error)}`);
+      await route.abort('blockedbyclient').catch(() => undefined);
+    }
+  });
+}
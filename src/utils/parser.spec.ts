@@ -0,0 +1,160 @@
+import { parseGreenhouseHTML, parseLeverHTML, parseLinkedInHTML } from './parser';
+
+jest.mock('./logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const RESPONSIBILITIES = 'You will design, build and operate the APIs behind our hiring products, working closely with product and data teams.';
+
+const GREENHOUSE_PAGE = `
+<html>
+  <head><meta property="og:site_name" content="Acme Careers"></head>
+  <body>
+    <div id="header">
+      <h1 class="app-title">Senior Backend Engineer</h1>
+      <span class="company-name">at Acme</span>
+      <div class="location">Remote - India</div>
+    </div>
+    <div id="content">
+      <p>${RESPONSIBILITIES}</p>
+      <ul><li>5+ years with Node.js</li><li>Experience with MongoDB</li></ul>
+    </div>
+    <div class="pay-range">₹30L - ₹45L</div>
+  </body>
+</html>`;
+
+const GREENHOUSE_JSON_LD_PAGE = `
+<html>
+  <head>
+    <script type="application/ld+json">${JSON.stringify({
+      '@context': 'https://schema.org',
+      '@type': 'JobPosting',
+      title: 'Data Engineer',
+      hiringOrganization: { '@type': 'Organization', name: 'Globex' },
+      description: `<p>${RESPONSIBILITIES}</p>`,
+      employmentType: 'FULL_TIME',
+      datePosted: '2024-05-01'
+    })}</script>
+  </head>
+  <body><div class="job__title"><h1>Data Engineer</h1></div></body>
+</html>`;
+
+const LEVER_PAGE = `
+<html>
+  <head><title>Initech - Platform Engineer</title></head>
+  <body>
+    <div class="posting-headline">
+      <h2>Platform Engineer</h2>
+      <div class="posting-categories">
+        <div class="location">Bengaluru /</div>
+        <div class="commitment">Full-time /</div>
+        <div class="workplaceTypes">Hybrid</div>
+      </div>
+    </div>
+    <div class="posting-page">
+      <div class="section-wrapper">
+        <div class="section"><h3>What you will do</h3><p>${RESPONSIBILITIES}</p></div>
+        <div class="section"><h3>About you</h3><ul><li>Kubernetes in production</li></ul></div>
+      </div>
+    </div>
+  </body>
+</html>`;
+
+const LINKEDIN_PAGE = `
+<html>
+  <body>
+    <section class="top-card-layout">
+      <h1 class="top-card-layout__title">Frontend Engineer</h1>
+      <a class="topcard__org-name-link" href="#">Hooli</a>
+      <span class="topcard__flavor--bullet">Pune, Maharashtra, India</span>
+      <span class="posted-time-ago__text">3 days ago</span>
+    </section>
+    <div class="show-more-less-html__markup">
+      <p>${RESPONSIBILITIES}</p>
+      <ul><li>React and TypeScript</li></ul>
+    </div>
+    <ul class="description__job-criteria-list">
+      <li class="description__job-criteria-item">
+        <h3 class="description__job-criteria-subheader">Seniority level</h3>
+        <span class="description__job-criteria-text">Mid-Senior level</span>
+      </li>
+      <li class="description__job-criteria-item">
+        <h3 class="description__job-criteria-subheader">Employment type</h3>
+        <span class="description__job-criteria-text">Full-time</span>
+      </li>
+    </ul>
+  </body>
+</html>`;
+
+describe('parseGreenhouseHTML', () => {
+  it('reads the job from the board page', async () => {
+    await expect(parseGreenhouseHTML(GREENHOUSE_PAGE, 'acme')).resolves.toEqual({
+      title: 'Senior Backend Engineer',
+      company: 'Acme',
+      description: `${RESPONSIBILITIES}\n- 5+ years with Node.js\n- Experience with MongoDB`,
+      location: 'Remote - India',
+      salary: '₹30L - ₹45L'
+    });
+  });
+
+  it('falls back to the JSON-LD posting', async () => {
+    await expect(parseGreenhouseHTML(GREENHOUSE_JSON_LD_PAGE, 'globex')).resolves.toEqual({
+      title: 'Data Engineer',
+      company: 'Globex',
+      description: RESPONSIBILITIES,
+      jobType: 'FULL_TIME',
+      postedDate: '2024-05-01'
+    });
+  });
+
+  it('names the company after the board slug when the page does not', async () => {
+    const page = GREENHOUSE_PAGE.replace('<span class="company-name">at Acme</span>', '').replace(/<meta[^>]*>/, '');
+
+    await expect(parseGreenhouseHTML(page, 'acme-corp')).resolves.toMatchObject({ company: 'Acme Corp' });
+  });
+
+  it('rejects pages without enough of a description', async () => {
+    await expect(parseGreenhouseHTML('<h1 class="app-title">Engineer</h1><div id="content">Apply now</div>', 'acme'))
+      .rejects.toThrow('Could not extract sufficient job description');
+  });
+});
+
+describe('parseLeverHTML', () => {
+  it('reads the job and takes the company from the page title', async () => {
+    await expect(parseLeverHTML(LEVER_PAGE, 'initech')).resolves.toEqual({
+      title: 'Platform Engineer',
+      company: 'Initech',
+      description: `What you will do:\n${RESPONSIBILITIES}\n\nAbout you:\n- Kubernetes in production`,
+      location: 'Bengaluru • Hybrid',
+      jobType: 'Full-time'
+    });
+  });
+
+  it('prefers the logo name over the page title', async () => {
+    const page = LEVER_PAGE.replace('<body>', '<body><div class="main-header-logo"><img alt="Initech Labs"></div>');
+
+    await expect(parseLeverHTML(page)).resolves.toMatchObject({ company: 'Initech Labs' });
+  });
+
+  it('rejects empty pages', async () => {
+    await expect(parseLeverHTML('  ')).rejects.toThrow('Empty HTML content provided for parsing');
+  });
+});
+
+describe('parseLinkedInHTML', () => {
+  it('reads the job and its criteria from the public job page', async () => {
+    await expect(parseLinkedInHTML(LINKEDIN_PAGE)).resolves.toEqual({
+      title: 'Frontend Engineer',
+      company: 'Hooli',
+      description: `${RESPONSIBILITIES}\n- React and TypeScript`,
+      location: 'Pune, Maharashtra, India',
+      jobType: 'Full-time',
+      postedDate: '3 days ago'
+    });
+  });
+
+  it('reports pages behind the sign-in wall', async () => {
+    await expect(parseLinkedInHTML('<html><body class="authwall">Sign in to view</body></html>'))
+      .rejects.toThrow('LinkedIn requires sign-in to view this job posting');
+  });
+});
@@ -1,18 +1,10 @@
 import { logger } from './logger';
 import { load } from 'cheerio';
+import { ParsedJobData } from '../types/types';
+import { extractJobPostingSchema } from './structuredDataParser';
 
 type CheerioAPI = ReturnType<typeof load>;
 
-interface ParsedJobData {
-  title: string;
-  company: string;
-  description: string;
-  location?: string;
-  salary?: string;
-  jobType?: string;
-  postedDate?: string;
-}
-
 /**
  * Clean HTML content by removing tags and normalizing whitespace
  * Optimized version with regex caching for better performance
@@ -46,6 +38,25 @@ export function cleanText(text: string): string {
     .trim();
 }
 
+/**
+ * Split titles like "Backend Engineer at Acme" into title and company,
+ * using the company from the title only when none was extracted
+ */
+export function normalizeTitleAndCompany(title: string, company: string): { jobTitle: string; companyName: string } {
+  let jobTitle = title.trim();
+  let companyName = company.trim();
+  
+  if (jobTitle.includes(' at ')) {
+    const titleParts = jobTitle.split(' at ');
+    jobTitle = titleParts[0].trim();
+    if (!companyName || companyName === 'the company') {
+      companyName = titleParts[1].trim();
+    }
+  }
+  
+  return { jobTitle, companyName };
+}
+
 /**
  * Specialized parser for HireJobs HTML content with parallel processing
  * 
@@ -118,10 +129,6 @@ export async function parseHireJobsHTML(html: string): Promise<ParsedJobData> {
     // Build description from various sources
     let descriptionParts = [];
     
-    if (metaData.experienceInfo) {
-      descriptionParts.push(`Experience Required: ${metaData.experienceInfo}`);
-    }
-    
     if (sectionData.sections && Object.keys(sectionData.sections).length > 0) {
       for (const [section, content] of Object.entries(sectionData.sections)) {
         descriptionParts.push(`${section}:\n${content}`);
@@ -159,29 +166,6 @@ export async function parseHireJobsHTML(html: string): Promise<ParsedJobData> {
         .trim();
     }
     
-    // Additional information
-    const additionalInfo = [];
-    
-    if (locationData.location) {
-      additionalInfo.push(`Location: ${locationData.location}`);
-    }
-    
-    if (metaData.salary || locationData.salary) {
-      additionalInfo.push(`Salary: ${metaData.salary || locationData.salary}`);
-    }
-    
-    if (metaData.jobType || locationData.jobType) {
-      additionalInfo.push(`Job Type: ${metaData.jobType || locationData.jobType}`);
-    }
-    
-    if (structuredData?.postedDate) {
-      additionalInfo.push(`Posted Date: ${structuredData.postedDate}`);
-    }
-    
-    if (additionalInfo.length > 0 && !description.includes('Additional Information')) {
-      description += '\n\nAdditional Information:\n' + additionalInfo.join('\n');
-    }
-    
     // Validate the extracted data
     if (!title || title.length < 3) {
       throw new Error('Could not extract valid job title');
@@ -214,10 +198,23 @@ export async function parseHireJobsHTML(html: string): Promise<ParsedJobData> {
       result.jobType = metaData.jobType || locationData.jobType;
     }
     
+    if (metaData.experienceInfo) {
+      result.experience = metaData.experienceInfo;
+    }
+    
     if (structuredData?.postedDate) {
       result.postedDate = structuredData.postedDate;
     }
     
+    if (structuredData?.validThrough) {
+      result.validThrough = structuredData.validThrough;
+    }
+    
+    const skills = [...(sectionData.skills || []), ...(structuredData?.skills || [])];
+    if (skills.length > 0) {
+      result.skills = [...new Set(skills)];
+    }
+    
     logger.info(`Parsed job data: ${result.title} at ${result.company}`);
     return result;
   } catch (error) {
@@ -540,7 +537,7 @@ async function parseDescription(_$: CheerioAPI, html: string): Promise<{ descrip
 }
 
 /**
- * Parse structured data from JSON-LD scripts
+ * Parse structured data from JSON-LD scripts and microdata
  */
 async function parseStructuredData(html: string): Promise<{
   title: string;
@@ -550,70 +547,312 @@ async function parseStructuredData(html: string): Promise<{
   salary: string;
   jobType: string;
   postedDate: string;
+  validThrough: string;
+  skills: string[];
 } | null> {
-  const structuredDataMatches = html.match(/<script\s+type="application\/ld\+json">([\s\S]*?)<\/script>/ig);
-  if (!structuredDataMatches) {
+  const structuredData = extractJobPostingSchema(html);
+  if (!structuredData) {
     return null;
   }
   
-  for (const jsonLdString of structuredDataMatches) {
-    try {
-      const jsonContent = jsonLdString.replace(/<script\s+type="application\/ld\+json">/i, '')
-                                     .replace(/<\/script>/i, '');
-      const structuredData = JSON.parse(jsonContent);
-      
-      if (structuredData && structuredData['@type'] === 'JobPosting') {
+  return {
+    title: structuredData.title,
+    company: structuredData.company,
+    description: structuredData.description,
+    location: structuredData.location || '',
+    salary: structuredData.salary || '',
+    jobType: structuredData.jobType || '',
+    postedDate: structuredData.postedDate || '',
+    validThrough: structuredData.validThrough || '',
+    skills: structuredData.skills || []
+  };
+}
 
-        const title = structuredData.title || '';
-        
-        let company = '';
-        if (structuredData.hiringOrganization) {
-          company = typeof structuredData.hiringOrganization === 'string' 
-            ? structuredData.hiringOrganization 
-            : structuredData.hiringOrganization.name || '';
-        }
-        
-        const description = typeof structuredData.description === 'string'
-          ? structuredData.description
-          : JSON.stringify(structuredData.description);
-        
-        let location = '';
-        if (structuredData.jobLocation) {
-          location = typeof structuredData.jobLocation === 'string'
-            ? structuredData.jobLocation
-            : structuredData.jobLocation.address
-              ? (structuredData.jobLocation.address.addressLocality || 
-                 structuredData.jobLocation.address.addressRegion || 
-                 structuredData.jobLocation.address.addressCountry)
-              : '';
-        }
-        
-        let salary = '';
-        if (structuredData.baseSalary) {
-          salary = typeof structuredData.baseSalary === 'string'
-            ? structuredData.baseSalary
-            : structuredData.baseSalary.value
-              ? `${structuredData.baseSalary.value.value || ''} ${structuredData.baseSalary.value.unitText || ''}`
-              : '';
-        }
-        
-        const jobType = structuredData.employmentType || '';
-        const postedDate = structuredData.datePosted || '';
-        
-        return {
-          title,
-          company,
-          description,
-          location,
-          salary,
-          jobType,
-          postedDate
-        };
-      }
-    } catch (jsonError) {
-      logger.warn('Failed to parse JSON-LD structured data');
+/**
+ * Convert the HTML inside the first element matching the selector to readable text,
+ * keeping paragraph and list item breaks
+ */
+function extractBlockText($: CheerioAPI, selector: Parameters<CheerioAPI>[0]): string {
+  const element = $(selector).first();
+  if (!element.length) {
+    return '';
+  }
+  
+  const html = (element.html() || '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/(p|div|li|ul|ol|h[1-6])>/gi, '\n');
+  
+  return load(`<div>${html}</div>`)('div').first().text()
+    .split('\n')
+    .map(line => cleanText(line))
+    .filter(line => line.length > 0)
+    .join('\n');
+}
+
+/**
+ * Get the trimmed text of the first element matching any of the selectors
+ */
+function firstText($: CheerioAPI, selectors: string[]): string {
+  for (const selector of selectors) {
+    const text = cleanText($(selector).first().text());
+    if (text) {
+      return text;
+    }
+  }
+  
+  return '';
+}
+
+/**
+ * Get the content attribute of a meta tag by property or name
+ */
+function metaContent($: CheerioAPI, key: string): string {
+  return cleanText($(`meta[property="${key}"], meta[name="${key}"]`).first().attr('content') || '');
+}
+
+/**
+ * Ensure parsed job data has the minimum fields needed for referral generation
+ * @throws Error if a required field is missing or too short
+ */
+function validateParsedJobData(data: ParsedJobData): ParsedJobData {
+  if (!data.title || data.title.length < 3) {
+    throw new Error('Could not extract valid job title');
+  }
+  
+  if (!data.company || data.company.length < 2) {
+    throw new Error('Could not extract valid company name');
+  }
+  
+  if (!data.description || data.description.length < 100) {
+    throw new Error('Could not extract sufficient job description');
+  }
+  
+  return data;
+}
+
+/**
+ * Drop empty optional fields so results have the same shape across parsers
+ */
+function compactParsedJobData(data: ParsedJobData): ParsedJobData {
+  const result: ParsedJobData = {
+    title: data.title,
+    company: data.company,
+    description: data.description
+  };
+  
+  if (data.location) result.location = data.location;
+  if (data.salary) result.salary = data.salary;
+  if (data.jobType) result.jobType = data.jobType;
+  if (data.experience) result.experience = data.experience;
+  if (data.postedDate) result.postedDate = data.postedDate;
+  if (data.validThrough) result.validThrough = data.validThrough;
+  if (data.skills && data.skills.length > 0) result.skills = data.skills;
+  
+  return result;
+}
+
+/**
+ * Parser for Greenhouse job boards (boards.greenhouse.io and job-boards.greenhouse.io)
+ * 
+ * @param html Raw HTML content from the job posting page
+ * @param companySlug Optional board slug from the URL, used when the page has no company name
+ * @returns Structured job data
+ * @throws Error if parsing fails or insufficient data is extracted
+ */
+export async function parseGreenhouseHTML(html: string, companySlug?: string): Promise<ParsedJobData> {
+  logger.info('Parsing Greenhouse HTML content');
+  
+  if (!html || html.trim().length === 0) {
+    throw new Error('Empty HTML content provided for parsing');
+  }
+  
+  try {
+    const $ = load(html);
+    const structuredData = await parseStructuredData(html);
+    
+    const title = firstText($, ['h1.app-title', '.job__title h1', 'h1.section-header', '#header h1', 'h1'])
+      || structuredData?.title
+      || '';
+    
+    let company = firstText($, ['#header .company-name', '.company-name', '.job__header .company'])
+      .replace(/^\s*at\s+/i, '')
+      .trim();
+    if (!company) {
+      company = structuredData?.company || metaContent($, 'og:site_name') || slugToName(companySlug);
     }
+    
+    const description = extractBlockText($, '#content')
+      || extractBlockText($, '.job__description')
+      || extractBlockText($, '#app_body')
+      || cleanHtmlContent(structuredData?.description || '');
+    
+    const result: ParsedJobData = {
+      title,
+      company,
+      description,
+      location: firstText($, ['#header .location', '.job__location', '.location']) || structuredData?.location,
+      salary: firstText($, ['.pay-range', '.job__pay-range']) || structuredData?.salary,
+      jobType: structuredData?.jobType,
+      postedDate: structuredData?.postedDate,
+      validThrough: structuredData?.validThrough,
+      skills: structuredData?.skills
+    };
+    
+    validateParsedJobData(result);
+    logger.info(`Parsed Greenhouse job data: ${result.title} at ${result.company}`);
+    return compactParsedJobData(result);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error(`Error parsing Greenhouse HTML: ${errorMessage}`);
+    throw new Error(`Failed to parse job details: ${errorMessage}`);
+  }
+}
+
+/**
+ * Parser for Lever job postings (jobs.lever.co)
+ * 
+ * @param html Raw HTML content from the job posting page
+ * @param companySlug Optional company slug from the URL, used when the page has no company name
+ * @returns Structured job data
+ * @throws Error if parsing fails or insufficient data is extracted
+ */
+export async function parseLeverHTML(html: string, companySlug?: string): Promise<ParsedJobData> {
+  logger.info('Parsing Lever HTML content');
+  
+  if (!html || html.trim().length === 0) {
+    throw new Error('Empty HTML content provided for parsing');
+  }
+  
+  try {
+    const $ = load(html);
+    
+    const title = firstText($, ['.posting-headline h2', '.posting-header h2', 'h2']);
+    
+    // Lever page titles follow the "Company - Job Title" pattern
+    const pageTitle = cleanText($('title').first().text());
+    let company = cleanText($('.main-header-logo img').first().attr('alt') || '');
+    if (!company && title && pageTitle.endsWith(` - ${title}`)) {
+      company = pageTitle.slice(0, -(` - ${title}`.length)).trim();
+    }
+    if (!company) {
+      company = slugToName(companySlug);
+    }
+    
+    const descriptionParts: string[] = [];
+    $('.posting-page .section-wrapper .section, [data-qa="job-description"], [data-qa="closing-description"]').each((_: any, el: any) => {
+      const heading = cleanText($(el).find('h3').first().text());
+      const body = extractBlockText($, el)
+        .replace(heading, '')
+        .trim();
+      if (body) {
+        descriptionParts.push(heading ? `${heading}:\n${body}` : body);
+      }
+    });
+    
+    const categories = $('.posting-categories');
+    const workplace = cleanText(categories.find('.workplaceTypes').first().text()).replace(/\s*\/\s*$/, '');
+    const location = [cleanText(categories.find('.location').first().text()).replace(/\s*\/\s*$/, ''), workplace]
+      .filter(part => part)
+      .join(' • ');
+    
+    const result: ParsedJobData = {
+      title,
+      company,
+      description: [...new Set(descriptionParts)].join('\n\n'),
+      location,
+      salary: firstText($, ['.posting-salary', '[data-qa="salary-range"]']),
+      jobType: cleanText(categories.find('.commitment').first().text()).replace(/\s*\/\s*$/, '')
+    };
+    
+    validateParsedJobData(result);
+    logger.info(`Parsed Lever job data: ${result.title} at ${result.company}`);
+    return compactParsedJobData(result);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error(`Error parsing Lever HTML: ${errorMessage}`);
+    throw new Error(`Failed to parse job details: ${errorMessage}`);
+  }
+}
+
+/**
+ * Parser for LinkedIn public job view pages (linkedin.com/jobs/view)
+ * 
+ * @param html Raw HTML content from the job posting page
+ * @returns Structured job data
+ * @throws Error if parsing fails or insufficient data is extracted
+ */
+export async function parseLinkedInHTML(html: string): Promise<ParsedJobData> {
+  logger.info('Parsing LinkedIn HTML content');
+  
+  if (!html || html.trim().length === 0) {
+    throw new Error('Empty HTML content provided for parsing');
   }
   
-  return null;
-}
\ No newline at end of file
+  if (html.includes('authwall') && !html.includes('top-card-layout__title')) {
+    throw new Error('LinkedIn requires sign-in to view this job posting');
+  }
+  
+  try {
+    const $ = load(html);
+    const structuredData = await parseStructuredData(html);
+    
+    const title = firstText($, ['h1.top-card-layout__title', 'h1.topcard__title', '.job-details-jobs-unified-top-card__job-title h1', 'h1'])
+      || structuredData?.title
+      || '';
+    
+    const company = firstText($, ['a.topcard__org-name-link', '.topcard__org-name-link', 'span.topcard__flavor a', '.job-details-jobs-unified-top-card__company-name'])
+      || structuredData?.company
+      || '';
+    
+    const description = extractBlockText($, '.show-more-less-html__markup')
+      || extractBlockText($, '.description__text')
+      || extractBlockText($, '#job-details')
+      || cleanHtmlContent(structuredData?.description || '');
+    
+    // Job criteria are rendered as header/value pairs, e.g. "Employment type" / "Full-time"
+    const criteria: Record<string, string> = {};
+    $('.description__job-criteria-item').each((_: any, el: any) => {
+      const key = cleanText($(el).find('.description__job-criteria-subheader').text()).toLowerCase();
+      const value = cleanText($(el).find('.description__job-criteria-text').text());
+      if (key && value) {
+        criteria[key] = value;
+      }
+    });
+    
+    const result: ParsedJobData = {
+      title,
+      company,
+      description,
+      location: firstText($, ['.topcard__flavor--bullet', '.top-card-layout__second-subline .topcard__flavor--bullet']) || structuredData?.location,
+      salary: firstText($, ['.salary.compensation__salary', '.compensation__salary']) || structuredData?.salary,
+      jobType: criteria['employment type'] || structuredData?.jobType,
+      postedDate: structuredData?.postedDate || firstText($, ['.posted-time-ago__text']),
+      validThrough: structuredData?.validThrough,
+      skills: structuredData?.skills
+    };
+    
+    validateParsedJobData(result);
+    logger.info(`Parsed LinkedIn job data: ${result.title} at ${result.company}`);
+    return compactParsedJobData(result);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error(`Error parsing LinkedIn HTML: ${errorMessage}`);
+    throw new Error(`Failed to parse job details: ${errorMessage}`);
+  }
+}
+
+/**
+ * Turn a URL slug like "acme-corp" into a display name like "Acme Corp"
+ */
+function slugToName(slug?: string): string {
+  if (!slug) {
+    return '';
+  }
+  
+  return slug
+    .split(/[-_]+/)
+    .filter(part => part)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ');
+}
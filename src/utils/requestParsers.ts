@@ -0,0 +1,80 @@
+import { ApiError } from './errorHandler';
+import { validateVariableValue } from './templateEngine';
+
+/**
+ * Read an optional string field
+ * @throws ApiError if the value is not a string within the length limit
+ */
+export function parseOptionalString(value: unknown, field: string, maxLength: number): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  if (typeof value !== 'string' || value.trim().length > maxLength) {
+    throw new ApiError(400, `${field} must be a string of at most ${maxLength} characters`);
+  }
+
+  return value.trim() || undefined;
+}
+
+/**
+ * Read a required string field
+ * @throws ApiError if the value is missing or too long
+ */
+export function parseRequiredString(value: unknown, field: string, maxLength: number): string {
+  const parsed = parseOptionalString(value, field, maxLength);
+
+  if (!parsed) {
+    throw new ApiError(400, `${field} is required`);
+  }
+
+  return parsed;
+}
+
+/**
+ * Read an http(s) URL field
+ * @throws ApiError if the value is not a valid URL
+ */
+export function parseUrl(value: unknown, field: string): string {
+  const url = parseRequiredString(value, field, 500);
+
+  if (validateVariableValue('url', url)) {
+    throw new ApiError(400, `${field} must be an http(s) URL`);
+  }
+
+  return url;
+}
+
+/**
+ * Read an optional field that must be one of a fixed set of values
+ * @throws ApiError if the value is not one of them
+ */
+export function parseOptionalEnum<T extends string>(value: unknown, field: string, allowed: readonly T[]): T | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  if (!allowed.includes(value as T)) {
+    throw new ApiError(400, `${field} must be one of: ${allowed.join(', ')}`);
+  }
+
+  return value as T;
+}
+
+/**
+ * Read an optional date, given as an ISO 8601 string or a timestamp in milliseconds
+ * @throws ApiError if the value is not a valid date
+ */
+export function parseOptionalDate(value: unknown, field: string): Date | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : undefined;
+
+  if (!date || isNaN(date.getTime())) {
+    throw new ApiError(400, `${field} must be an ISO 8601 date`);
+  }
+
+  return date;
+}
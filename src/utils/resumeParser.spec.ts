@@ -0,0 +1,118 @@
+import { extractResumeText, getResumeFileType, parseResume } from './resumeParser';
+
+const ENGINEER_RESUME = `
+Priya Sharma
+priya.sharma@example.com | +91 98765 43210 | Pune, India
+
+PROFESSIONAL SUMMARY
+Backend engineer with 6 years of experience building APIs.
+
+Work Experience
+Senior Software Engineer | Acme Corp | Jan 2021 - Present
+- Led the migration of billing services to Node.js
+- Cut API latency by 40% by adding caching
+  and query indexes
+Software Engineer at Globex
+June 2018 – Dec 2020
+• Built payment integrations with Stripe
+
+Technical Skills:
+Languages: TypeScript, JavaScript, Python
+Tools: Docker, Kubernetes, MongoDB, docker
+
+Projects
+Job Tracker (React, Node.js) https://github.com/priya/job-tracker
+- Tracks applications and reminds you to follow up
+Tech: TypeScript, MongoDB
+
+Education
+B.Tech in Computer Science
+College of Engineering Pune, 2018
+
+Certifications
+AWS Certified Developer
+`;
+
+describe('parseResume', () => {
+  it('reads the sections of a typical resume', () => {
+    expect(parseResume(ENGINEER_RESUME)).toEqual({
+      name: 'Priya Sharma',
+      email: 'priya.sharma@example.com',
+      summary: 'Backend engineer with 6 years of experience building APIs.',
+      skills: ['TypeScript', 'JavaScript', 'Python', 'Docker', 'Kubernetes', 'MongoDB'],
+      experience: [
+        {
+          title: 'Senior Software Engineer',
+          company: 'Acme Corp',
+          startDate: 'Jan 2021',
+          endDate: 'Present',
+          highlights: [
+            'Led the migration of billing services to Node.js',
+            'Cut API latency by 40% by adding caching and query indexes'
+          ]
+        },
+        {
+          title: 'Software Engineer',
+          company: 'Globex',
+          startDate: 'June 2018',
+          endDate: 'Dec 2020',
+          highlights: ['Built payment integrations with Stripe']
+        }
+      ],
+      projects: [
+        {
+          name: 'Job Tracker',
+          description: 'Tracks applications and reminds you to follow up',
+          technologies: ['React', 'Node.js', 'TypeScript', 'MongoDB'],
+          url: 'https://github.com/priya/job-tracker'
+        }
+      ],
+      education: [{ institution: 'College of Engineering Pune', degree: 'B.Tech in Computer Science', graduationYear: 2018 }]
+    });
+  });
+
+  it.each([
+    ['Mar 2022 to Current', 'Mar 2022', 'Current'],
+    ["Sept '19 – now", "Sept '19", 'now'],
+    ['05/2020 — 11/2023', '05/2020', '11/2023'],
+    ['2015-2017', '2015', '2017'],
+    ['Aug 2023 - till date', 'Aug 2023', 'till date']
+  ])('reads the date range "%s"', (range, startDate, endDate) => {
+    const { experience } = parseResume(`Experience\nData Analyst, Initech, ${range}\n- Built dashboards`);
+
+    expect(experience).toEqual([{ title: 'Data Analyst', company: 'Initech', startDate, endDate, highlights: ['Built dashboards'] }]);
+  });
+
+  it('recognises headings written with colons, symbols or in capitals', () => {
+    const { skills, education } = parseResume('Jane Doe\n## KEY SKILLS ##\nGo, Rust\nEDUCATIONAL QUALIFICATIONS:\nMSc, University of Leeds 2016');
+
+    expect(skills).toEqual(['Go', 'Rust']);
+    expect(education).toEqual([{ institution: 'University of Leeds', degree: 'MSc', graduationYear: 2016 }]);
+  });
+
+  it('keeps lines under sections it does not use out of the previous section', () => {
+    const { skills } = parseResume('Skills\nSQL, Excel\nInterests\nChess, Hiking');
+
+    expect(skills).toEqual(['SQL', 'Excel']);
+  });
+
+  it('only reads the name and email from a resume without headings', () => {
+    expect(parseResume('Alex Kim\nalex@example.com\nI build data pipelines with Python and Spark.\nReact, Node.js'))
+      .toEqual({ name: 'Alex Kim', email: 'alex@example.com', summary: undefined, skills: [], experience: [], projects: [], education: [] });
+  });
+});
+
+describe('getResumeFileType', () => {
+  it('uses the extension, then the MIME type', () => {
+    expect(getResumeFileType('resume.PDF', 'application/octet-stream')).toBe('pdf');
+    expect(getResumeFileType('resume', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document')).toBe('docx');
+    expect(getResumeFileType('resume.md', '')).toBe('txt');
+    expect(getResumeFileType('resume.doc', 'application/msword')).toBeNull();
+  });
+});
+
+describe('extractResumeText', () => {
+  it('normalizes line endings and spacing of plain text', async () => {
+    await expect(extractResumeText(Buffer.from('  Jane\tDoe\r\nSkills:   Go\r\n'), 'txt')).resolves.toBe('Jane Doe\nSkills: Go');
+  });
+});
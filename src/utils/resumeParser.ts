@@ -0,0 +1,313 @@
+import path from 'path';
+import pdfParse from 'pdf-parse';
+import mammoth from 'mammoth';
+import { CandidateProject, ParsedResume, ResumeEducation, ResumeExperience } from '../types/types';
+
+export type ResumeFileType = 'pdf' | 'docx' | 'txt';
+
+type ResumeSection = 'header' | 'summary' | 'experience' | 'skills' | 'projects' | 'education' | 'other';
+
+const SECTION_HEADINGS: Array<[Exclude<ResumeSection, 'header'>, RegExp]> = [
+  ['summary', /^(summary|profile|about me|objective|career objective|professional summary|professional profile)$/],
+  ['experience', /^(experience|work experience|professional experience|relevant experience|employment|employment history|work history|internships?)$/],
+  ['skills', /^(skills|technical skills|core skills|key skills|core competencies|technologies|tech stack|skills (and|&) tools)$/],
+  ['projects', /^(projects|personal projects|key projects|selected projects|side projects|academic projects)$/],
+  ['education', /^(education|academic background|academics|educational qualifications|qualifications)$/],
+  // Recognised so their content is not attributed to the previous section
+  ['other', /^(certifications?|certificates|awards|achievements|honors|publications|languages|interests|hobbies|references|volunteering|volunteer experience|activities|courses|extracurricular activities)$/]
+];
+
+const BULLET_PATTERN = /^[-•*▪●◦‣–·>]\s*/;
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+const DATE = `(?:${MONTH}\\s*'?\\d{2,4}|\\d{1,2}/\\d{4}|\\d{4})`;
+const DATE_RANGE_PATTERN = new RegExp(`(${DATE})\\s*(?:-|–|—|to)\\s*(${DATE}|present|current|now|till date|ongoing)`, 'i');
+const URL_PATTERN = /https?:\/\/[^\s)|,]+/i;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(\.[\w-]+)+/;
+const DEGREE_PATTERN = /\b(bachelor|master|b\.?\s?tech|m\.?\s?tech|b\.?\s?e\b|m\.?\s?e\b|b\.?\s?sc|m\.?\s?sc|b\.?\s?s\b|m\.?\s?s\b|b\.?\s?c\.?\s?a|m\.?\s?c\.?\s?a|mba|ph\.?\s?d|diploma|associate)/i;
+const INSTITUTION_PATTERN = /\b(university|college|institute|school|academy|polytechnic|iit|nit|iiit|bits)\b/i;
+const TECHNOLOGIES_PATTERN = /^(tech(nologies)?|tech stack|stack|tools|built with)\s*:\s*/i;
+
+const MAX_SKILLS = 50;
+const MAX_PROJECTS = 10;
+const MAX_TECHNOLOGIES = 20;
+
+/**
+ * Work out the resume format from the file name, falling back to the MIME type
+ * @returns The file type or null if the format is not supported
+ */
+export function getResumeFileType(fileName: string, mimeType: string): ResumeFileType | null {
+  const extension = path.extname(fileName).toLowerCase();
+
+  if (extension === '.pdf' || mimeType === 'application/pdf') {
+    return 'pdf';
+  }
+
+  if (extension === '.docx' || mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
+    return 'docx';
+  }
+
+  if (extension === '.txt' || extension === '.md' || mimeType === 'text/plain') {
+    return 'txt';
+  }
+
+  return null;
+}
+
+/**
+ * Extract plain text from a resume file
+ * @throws Error if the file cannot be read
+ */
+export async function extractResumeText(buffer: Buffer, fileType: ResumeFileType): Promise<string> {
+  let text: string;
+
+  if (fileType === 'pdf') {
+    text = (await pdfParse(buffer)).text;
+  } else if (fileType === 'docx') {
+    text = (await mammoth.extractRawText({ buffer })).value;
+  } else {
+    text = buffer.toString('utf8');
+  }
+
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[\t ]/g, ' ')
+    .replace(/[ ]{2,}/g, ' ')
+    .trim();
+}
+
+/**
+ * Split resume text into sections and parse each one
+ * The parser is heuristic: it relies on common section headings, bullet markers and date ranges
+ */
+export function parseResume(text: string): ParsedResume {
+  const sections = splitSections(text);
+  const header = sections.get('header') || [];
+
+  return {
+    name: findName(header),
+    email: text.match(EMAIL_PATTERN)?.[0],
+    summary: sections.get('summary')?.join(' ').slice(0, 1000) || undefined,
+    skills: parseSkills(sections.get('skills') || []),
+    experience: parseExperience(sections.get('experience') || []),
+    projects: parseProjects(sections.get('projects') || []),
+    education: parseEducation(sections.get('education') || [])
+  };
+}
+
+/**
+ * Identify a section heading line
+ */
+function getSectionHeading(line: string): Exclude<ResumeSection, 'header'> | null {
+  if (line.length > 40) {
+    return null;
+  }
+
+  const normalized = line.toLowerCase().replace(/[:|_=#*]+/g, ' ').replace(/\s+/g, ' ').trim();
+  const heading = SECTION_HEADINGS.find(([, pattern]) => pattern.test(normalized));
+
+  return heading ? heading[0] : null;
+}
+
+/**
+ * Group non-empty lines by the section heading they follow
+ * Lines before the first heading belong to the header (name and contact details)
+ */
+function splitSections(text: string): Map<ResumeSection, string[]> {
+  const sections = new Map<ResumeSection, string[]>();
+  let current: ResumeSection = 'header';
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const heading = getSectionHeading(line);
+    if (heading) {
+      current = heading;
+      continue;
+    }
+
+    if (!sections.has(current)) {
+      sections.set(current, []);
+    }
+    sections.get(current)!.push(line);
+  }
+
+  return sections;
+}
+
+/**
+ * Remove a leading bullet marker
+ */
+function stripBullet(line: string): string {
+  return line.replace(BULLET_PATTERN, '').trim();
+}
+
+/**
+ * Split a heading line such as "Engineer | Acme" or "Engineer at Acme" into its parts
+ */
+function splitHeadingParts(line: string): string[] {
+  return line
+    .split(/\s+(?:at|@)\s+|\s*[|,–—]\s*|\s+-\s+/i)
+    .map(part => part.trim())
+    .filter(part => part);
+}
+
+/**
+ * Find the candidate's name among the first lines of the resume
+ */
+function findName(header: string[]): string | undefined {
+  return header
+    .slice(0, 3)
+    .find(line => /^[\p{L}][\p{L}.'-]*(\s+[\p{L}][\p{L}.'-]*){1,3}$/u.test(line));
+}
+
+/**
+ * Parse a skills section written as comma separated lists, optionally grouped as "Languages: ..."
+ */
+function parseSkills(lines: string[]): string[] {
+  const skills = new Map<string, string>();
+
+  for (const line of lines) {
+    const content = stripBullet(line).replace(/^[^:]{1,30}:\s*/, '');
+
+    for (const item of content.split(/\s*[,|;•·]\s*/)) {
+      const skill = item.replace(/[.()]+$/, '').trim();
+      if (skill.length > 0 && skill.length <= 40 && !skills.has(skill.toLowerCase())) {
+        skills.set(skill.toLowerCase(), skill);
+      }
+    }
+  }
+
+  return [...skills.values()].slice(0, MAX_SKILLS);
+}
+
+/**
+ * Parse an experience section into positions with their bullet points
+ * A position starts at a non-bullet line; a following line with dates or the company completes its heading
+ */
+function parseExperience(lines: string[]): ResumeExperience[] {
+  const experience: ResumeExperience[] = [];
+  let current: ResumeExperience | null = null;
+
+  for (const line of lines) {
+    if (BULLET_PATTERN.test(line)) {
+      current?.highlights.push(stripBullet(line));
+      continue;
+    }
+
+    // Wrapped bullet text continues on a line starting in lower case
+    if (current && current.highlights.length > 0 && /^[a-z]/.test(line)) {
+      current.highlights[current.highlights.length - 1] += ` ${line}`;
+      continue;
+    }
+
+    const dates = line.match(DATE_RANGE_PATTERN);
+    const parts = splitHeadingParts(dates ? line.replace(dates[0], '') : line);
+
+    if (current && current.highlights.length === 0 && (!current.company || !current.startDate)) {
+      current.company = current.company || parts[0];
+      current.startDate = current.startDate || dates?.[1];
+      current.endDate = current.endDate || dates?.[2];
+      continue;
+    }
+
+    if (parts.length === 0 && !dates) continue;
+
+    current = {
+      title: parts[0] || 'Position',
+      company: parts[1],
+      startDate: dates?.[1],
+      endDate: dates?.[2],
+      highlights: []
+    };
+    experience.push(current);
+  }
+
+  return experience;
+}
+
+/**
+ * Parse a projects section into named projects with a description and technologies
+ */
+function parseProjects(lines: string[]): CandidateProject[] {
+  const projects: Array<CandidateProject & { details: string[] }> = [];
+  let current: (CandidateProject & { details: string[] }) | null = null;
+
+  for (const line of lines) {
+    const text = stripBullet(line);
+
+    if (current && TECHNOLOGIES_PATTERN.test(text)) {
+      current.technologies.push(...text.replace(TECHNOLOGIES_PATTERN, '').split(/\s*[,|;]\s*/));
+      continue;
+    }
+
+    if (current && (BULLET_PATTERN.test(line) || /^[a-z]/.test(line))) {
+      current.details.push(text);
+      continue;
+    }
+
+    const url = text.match(URL_PATTERN)?.[0];
+    const heading = url ? text.replace(url, '') : text;
+    const technologies = heading.match(/\(([^)]+)\)/)?.[1];
+    const [name, ...rest] = splitHeadingParts(heading.replace(/\([^)]*\)/, ''));
+
+    if (!name) continue;
+
+    current = {
+      name: name.replace(/:$/, '').slice(0, 100),
+      description: '',
+      technologies: technologies ? technologies.split(/\s*,\s*/) : rest.filter(part => part.length <= 40),
+      url,
+      details: []
+    };
+    projects.push(current);
+  }
+
+  return projects.slice(0, MAX_PROJECTS).map(({ details, ...project }) => ({
+    ...project,
+    description: (details.join(' ') || project.name).slice(0, 500),
+    technologies: [...new Set(project.technologies.map(technology => technology.trim()).filter(technology => technology && technology.length <= 50))]
+      .slice(0, MAX_TECHNOLOGIES),
+    url: project.url || undefined
+  }));
+}
+
+/**
+ * Parse an education section into institutions, degrees and graduation years
+ * The institution and degree may be on one line or on consecutive lines in either order
+ */
+function parseEducation(lines: string[]): ResumeEducation[] {
+  const education: ResumeEducation[] = [];
+  let current: ResumeEducation | null = null;
+
+  for (const line of lines) {
+    const text = stripBullet(line);
+    const parts = splitHeadingParts(text.replace(/\b(19|20)\d{2}\b/g, ''));
+    const institution = parts.find(part => INSTITUTION_PATTERN.test(part));
+    const degree = parts.find(part => DEGREE_PATTERN.test(part));
+
+    if (institution) {
+      if (current && !current.institution) {
+        current.institution = institution;
+        current.degree = current.degree || degree;
+      } else {
+        current = { institution, degree };
+        education.push(current);
+      }
+    } else if (degree) {
+      if (current && !current.degree) {
+        current.degree = degree;
+      } else {
+        current = { degree };
+        education.push(current);
+      }
+    }
+
+    const years = text.match(/\b(19|20)\d{2}\b/g);
+    if (current && years) {
+      current.graduationYear = Math.max(...years.map(year => parseInt(year, 10)));
+    }
+  }
+
+  return education;
+}
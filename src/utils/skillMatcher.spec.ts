@@ -0,0 +1,66 @@
+import { extractSkills, matchSkills, mentionsTerm, normalizeSkill } from './skillMatcher';
+
+describe('mentionsTerm', () => {
+  it('matches whole words only', () => {
+    expect(mentionsTerm('We use JS.', 'JS')).toBe(true);
+    expect(mentionsTerm('Node.js developer', 'JS')).toBe(false);
+    expect(mentionsTerm('Strong C++ skills', 'C++')).toBe(true);
+  });
+
+  it('respects case sensitivity when asked', () => {
+    expect(mentionsTerm('Written in Go', 'Go', true)).toBe(true);
+    expect(mentionsTerm("Let's go", 'Go', true)).toBe(false);
+    expect(mentionsTerm('Google Cloud', 'Go', true)).toBe(false);
+  });
+});
+
+describe('normalizeSkill', () => {
+  it('maps spellings and aliases to the catalog name', () => {
+    expect(normalizeSkill('nodejs')).toBe('Node.js');
+    expect(normalizeSkill(' golang ')).toBe('Go');
+    expect(normalizeSkill('k8s')).toBe('Kubernetes');
+    expect(normalizeSkill('spring')).toBe('Spring Boot');
+  });
+
+  it('trims skills outside the catalog', () => {
+    expect(normalizeSkill(' Elixir ')).toBe('Elixir');
+  });
+});
+
+describe('extractSkills', () => {
+  it('finds catalog skills by any spelling, most mentioned first', () => {
+    expect(extractSkills('React, TypeScript and typescript. Node.js APIs in C++ and C#.'))
+      .toEqual(['TypeScript', 'React', 'Node.js', 'C++', 'C#']);
+  });
+
+  it('counts every spelling of a skill once under its catalog name', () => {
+    expect(extractSkills('Node, NodeJS or node.js; Kubernetes (K8s)')).toEqual(['Node.js', 'Kubernetes']);
+  });
+
+  it('does not read common words as skills', () => {
+    expect(extractSkills('Each graph node has a spring constant. Guard rails apply to our spring internship.')).toEqual([]);
+    expect(extractSkills("Let's go and express interest in Google Cloud")).toEqual(['GCP']);
+  });
+
+  it('recognises capitalised aliases that are also common words', () => {
+    expect(extractSkills('Backend work with Spring, Rails and Node')).toEqual(['Spring Boot', 'Ruby on Rails', 'Node.js']);
+    expect(extractSkills('Services written in Go and Golang')).toEqual(['Go']);
+  });
+
+  it('looks for additional skills outside the catalog', () => {
+    expect(extractSkills('Experience with Elixir and React', ['Elixir', 'Haskell', 'react'])).toEqual(['Elixir', 'React']);
+  });
+});
+
+describe('matchSkills', () => {
+  it('splits job skills into matched and missing, comparing normalized names', () => {
+    expect(matchSkills(['Node.js', 'React', 'Kubernetes', 'Elixir'], ['nodejs', 'k8s', 'elixir'])).toEqual({
+      matched: ['Node.js', 'Kubernetes', 'Elixir'],
+      missing: ['React']
+    });
+  });
+
+  it('reports every job skill as missing when the candidate lists none', () => {
+    expect(matchSkills(['Python'], [])).toEqual({ matched: [], missing: ['Python'] });
+  });
+});
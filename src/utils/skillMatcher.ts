@@ -0,0 +1,221 @@
+interface SkillDefinition {
+  name: string;
+  aliases?: string[];
+  /** Match only the exact casing, for names that are also common words */
+  caseSensitive?: boolean;
+  /** Aliases matched only in this exact casing, for aliases that are also common words like "spring" */
+  caseSensitiveAliases?: string[];
+}
+
+/**
+ * Skills recognised in job descriptions, with the spellings job boards commonly use
+ */
+const SKILL_CATALOG: SkillDefinition[] = [
+  { name: 'JavaScript', aliases: ['JS', 'ES6'] },
+  { name: 'TypeScript' },
+  { name: 'Python' },
+  { name: 'Java' },
+  { name: 'Kotlin' },
+  { name: 'Scala' },
+  { name: 'Go', aliases: ['Golang'], caseSensitive: true },
+  { name: 'Rust' },
+  { name: 'C++', aliases: ['CPP'] },
+  { name: 'C#', aliases: ['CSharp'] },
+  { name: 'Ruby' },
+  { name: 'PHP' },
+  { name: 'Swift', caseSensitive: true },
+  { name: 'Objective-C' },
+  { name: 'Dart' },
+  { name: 'SQL' },
+  { name: 'Bash', aliases: ['Shell scripting'] },
+  { name: 'HTML', aliases: ['HTML5'] },
+  { name: 'CSS', aliases: ['CSS3'] },
+  { name: 'Sass', aliases: ['SCSS'] },
+  { name: 'Tailwind CSS', aliases: ['Tailwind'] },
+  { name: 'React', aliases: ['React.js', 'ReactJS'] },
+  { name: 'React Native' },
+  { name: 'Next.js', aliases: ['NextJS'] },
+  { name: 'Redux' },
+  { name: 'Angular', aliases: ['AngularJS'] },
+  { name: 'Vue.js', aliases: ['Vue', 'VueJS'] },
+  { name: 'Svelte' },
+  { name: 'Flutter' },
+  { name: 'Node.js', aliases: ['NodeJS'], caseSensitiveAliases: ['Node'] },
+  { name: 'Express', aliases: ['Express.js', 'ExpressJS'], caseSensitive: true },
+  { name: 'NestJS' },
+  { name: 'Django' },
+  { name: 'Flask' },
+  { name: 'FastAPI' },
+  { name: 'Spring Boot', caseSensitiveAliases: ['Spring'] },
+  { name: 'Ruby on Rails', caseSensitiveAliases: ['Rails'] },
+  { name: 'Laravel' },
+  { name: '.NET', aliases: ['ASP.NET', 'dotnet'] },
+  { name: 'GraphQL' },
+  { name: 'REST', aliases: ['REST APIs', 'RESTful'], caseSensitive: true },
+  { name: 'gRPC' },
+  { name: 'MongoDB', aliases: ['Mongo'] },
+  { name: 'PostgreSQL', aliases: ['Postgres'] },
+  { name: 'MySQL' },
+  { name: 'SQLite' },
+  { name: 'Redis' },
+  { name: 'Elasticsearch', aliases: ['Elastic Search'] },
+  { name: 'Cassandra' },
+  { name: 'DynamoDB' },
+  { name: 'Kafka', aliases: ['Apache Kafka'] },
+  { name: 'RabbitMQ' },
+  { name: 'Spark', aliases: ['Apache Spark', 'PySpark'], caseSensitive: true },
+  { name: 'Hadoop' },
+  { name: 'Airflow' },
+  { name: 'AWS', aliases: ['Amazon Web Services'] },
+  { name: 'GCP', aliases: ['Google Cloud', 'Google Cloud Platform'] },
+  { name: 'Azure', aliases: ['Microsoft Azure'] },
+  { name: 'Docker' },
+  { name: 'Kubernetes', aliases: ['K8s'] },
+  { name: 'Terraform' },
+  { name: 'Ansible' },
+  { name: 'Jenkins' },
+  { name: 'GitHub Actions' },
+  { name: 'CI/CD' },
+  { name: 'Linux' },
+  { name: 'Git' },
+  { name: 'Microservices', aliases: ['Microservice'] },
+  { name: 'System Design' },
+  { name: 'Distributed Systems' },
+  { name: 'Machine Learning', aliases: ['ML'] },
+  { name: 'Deep Learning' },
+  { name: 'NLP', aliases: ['Natural Language Processing'] },
+  { name: 'LLMs', aliases: ['LLM', 'Large Language Models'] },
+  { name: 'TensorFlow' },
+  { name: 'PyTorch' },
+  { name: 'scikit-learn', aliases: ['sklearn'] },
+  { name: 'Pandas' },
+  { name: 'NumPy' },
+  { name: 'Tableau' },
+  { name: 'Power BI' },
+  { name: 'Excel', caseSensitive: true },
+  { name: 'Figma' },
+  { name: 'Jest' },
+  { name: 'Cypress' },
+  { name: 'Selenium' },
+  { name: 'Playwright' },
+  { name: 'Android' },
+  { name: 'iOS' },
+  { name: 'Agile', aliases: ['Scrum'] }
+];
+
+// A dot joins words ("Node.js" does not mention "JS") unless it ends a sentence
+const WORD_START = '(?<![a-zA-Z0-9.])';
+const WORD_END = '(?![a-zA-Z0-9]|\\.[a-zA-Z0-9])';
+
+/**
+ * Check whether a term such as "Node.js" or "C++" appears in a text as a whole word
+ * Matching is case-insensitive unless requested; "Go" does not match "Google"
+ */
+export function mentionsTerm(text: string, term: string, caseSensitive = false): boolean {
+  const escaped = term.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return escaped.length > 0 && new RegExp(`${WORD_START}${escaped}${WORD_END}`, caseSensitive ? '' : 'i').test(text);
+}
+
+/**
+ * Key used to compare skill names, so "NodeJS" and "Node.js" are the same skill
+ */
+function skillKey(skill: string): string {
+  return skill.toLowerCase().replace(/[\s._-]/g, '');
+}
+
+/**
+ * List the spellings of a catalog skill and whether each must match in its exact casing
+ */
+function getSpellings(skill: SkillDefinition): { term: string; caseSensitive: boolean }[] {
+  return [
+    { term: skill.name, caseSensitive: Boolean(skill.caseSensitive) },
+    ...(skill.aliases || []).map(term => ({ term, caseSensitive: false })),
+    ...(skill.caseSensitiveAliases || []).map(term => ({ term, caseSensitive: true }))
+  ];
+}
+
+const catalogByKey = new Map<string, SkillDefinition>();
+for (const skill of SKILL_CATALOG) {
+  for (const { term } of getSpellings(skill)) {
+    catalogByKey.set(skillKey(term), skill);
+  }
+}
+
+/**
+ * Map a skill to its catalog name, e.g. "nodejs" to "Node.js"
+ * Skills outside the catalog are returned trimmed
+ */
+export function normalizeSkill(skill: string): string {
+  return catalogByKey.get(skillKey(skill))?.name || skill.trim();
+}
+
+/**
+ * Count how often a term appears in a text and where it first appears
+ */
+function findTerm(text: string, term: string, caseSensitive: boolean): { count: number; index: number } {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`${WORD_START}${escaped}${WORD_END}`, caseSensitive ? 'g' : 'gi');
+  const matches = [...text.matchAll(pattern)];
+
+  return {
+    count: matches.length,
+    index: matches.length > 0 ? matches[0].index! : Infinity
+  };
+}
+
+/**
+ * Extract the skills a text asks for
+ * Catalog skills are recognised by any of their spellings; additional skills (such as the candidate's own)
+ * are counted when the text mentions them
+ *
+ * @param text Job title and description
+ * @param additionalSkills Skills outside the catalog to look for
+ * @returns Skill names, most frequently mentioned first
+ */
+export function extractSkills(text: string, additionalSkills: string[] = []): string[] {
+  const found = new Map<string, { name: string; count: number; index: number }>();
+
+  const record = (name: string, count: number, index: number) => {
+    if (count === 0) return;
+
+    const key = skillKey(name);
+    const existing = found.get(key);
+    found.set(key, {
+      name,
+      count: (existing?.count || 0) + count,
+      index: Math.min(existing?.index ?? Infinity, index)
+    });
+  };
+
+  for (const skill of SKILL_CATALOG) {
+    for (const { term, caseSensitive } of getSpellings(skill)) {
+      const { count, index } = findTerm(text, term, caseSensitive);
+      record(skill.name, count, index);
+    }
+  }
+
+  for (const skill of additionalSkills) {
+    const name = normalizeSkill(skill);
+    if (!name || catalogByKey.has(skillKey(name))) continue;
+
+    const { count, index } = findTerm(text, name, false);
+    record(name, count, index);
+  }
+
+  return [...found.values()]
+    .sort((a, b) => b.count - a.count || a.index - b.index)
+    .map(skill => skill.name);
+}
+
+/**
+ * Compare the skills a job asks for with the candidate's skills
+ * @returns Matched and missing job skills, in the job's order
+ */
+export function matchSkills(jobSkills: string[], candidateSkills: string[]): { matched: string[]; missing: string[] } {
+  const candidateKeys = new Set(candidateSkills.map(skill => skillKey(normalizeSkill(skill))));
+
+  return {
+    matched: jobSkills.filter(skill => candidateKeys.has(skillKey(skill))),
+    missing: jobSkills.filter(skill => !candidateKeys.has(skillKey(skill)))
+  };
+}
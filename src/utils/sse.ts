@@ -0,0 +1,36 @@
+import { Response } from 'express';
+
+/**
+ * Prepare a response for Server-Sent Events
+ */
+export function openSseStream(res: Response): void {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Stop reverse proxies from buffering the stream
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+}
+
+/**
+ * Write a named SSE event with a JSON payload
+ */
+export function sendSseEvent(res: Response, event: string, data: unknown): void {
+  // The client may have disconnected while work was still in progress
+  if (res.writableEnded || res.destroyed) {
+    return;
+  }
+
+  res.write(`event: ${event}\n`);
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Write an SSE comment to keep idle connections open
+ */
+export function sendSseHeartbeat(res: Response): void {
+  if (!res.writableEnded) {
+    res.write(': heartbeat\n\n');
+  }
+}
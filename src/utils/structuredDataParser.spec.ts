@@ -0,0 +1,140 @@
+import { extractJobPostingSchema, parseSchemaJobPostingHTML } from './structuredDataParser';
+
+jest.mock('./logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const RESPONSIBILITIES = 'You will design, build and operate the APIs behind our hiring products, working closely with product and data teams.';
+
+/**
+ * Wrap JSON-LD documents in a page
+ */
+function jsonLdPage(...documents: unknown[]): string {
+  const scripts = documents
+    .map(document => `<script type="application/ld+json">${typeof document === 'string' ? document : JSON.stringify(document)}</script>`)
+    .join('\n');
+  return `<html><head>${scripts}</head><body><h1>Careers</h1></body></html>`;
+}
+
+const JOB_POSTING = {
+  '@context': 'https://schema.org',
+  '@type': 'JobPosting',
+  title: 'Backend Engineer',
+  hiringOrganization: { '@type': 'Organization', name: 'Acme' },
+  description: `<p>${RESPONSIBILITIES}</p><ul><li>Node.js</li><li>MongoDB</li></ul>`,
+  jobLocation: { '@type': 'Place', address: { addressLocality: 'Pune', addressRegion: 'Maharashtra', addressCountry: 'IN' } },
+  baseSalary: {
+    '@type': 'MonetaryAmount',
+    currency: 'INR',
+    value: { '@type': 'QuantitativeValue', minValue: 1200000, maxValue: 1800000, unitText: 'YEAR' }
+  },
+  employmentType: ['FULL_TIME', 'CONTRACTOR'],
+  datePosted: '2024-05-01',
+  validThrough: '2024-06-30',
+  skills: 'Node.js, MongoDB',
+  qualifications: ['Kubernetes', 'A degree in computer science or equivalent practical experience building systems']
+};
+
+const MICRODATA_PAGE = `
+<html>
+  <body>
+    <div itemscope itemtype="https://schema.org/JobPosting">
+      <h1 itemprop="title">Data Analyst</h1>
+      <div itemprop="hiringOrganization" itemscope itemtype="https://schema.org/Organization">
+        <span itemprop="name">Globex</span>
+      </div>
+      <div itemprop="jobLocation" itemscope itemtype="https://schema.org/Place">
+        <span itemprop="addressLocality">Austin</span>
+        <span itemprop="addressRegion">TX</span>
+      </div>
+      <div itemprop="baseSalary" itemscope itemtype="https://schema.org/MonetaryAmount">
+        <meta itemprop="currency" content="USD">
+        <span itemprop="minValue">90000</span>
+        <meta itemprop="unitText" content="YEAR">
+      </div>
+      <span itemprop="employmentType">Full-time</span>
+      <time itemprop="datePosted" datetime="2024-04-15">April 15</time>
+      <div itemprop="description"><p>${RESPONSIBILITIES}</p><p>SQL and Python</p></div>
+      <span itemprop="skills">SQL, Python</span>
+    </div>
+  </body>
+</html>`;
+
+describe('extractJobPostingSchema', () => {
+  it('maps a JSON-LD JobPosting', () => {
+    expect(extractJobPostingSchema(jsonLdPage(JOB_POSTING))).toEqual({
+      title: 'Backend Engineer',
+      company: 'Acme',
+      description: `${RESPONSIBILITIES}\n- Node.js\n- MongoDB`,
+      location: 'Pune, Maharashtra, IN',
+      salary: '1200000-1800000 INR per YEAR',
+      jobType: 'FULL_TIME, CONTRACTOR',
+      postedDate: '2024-05-01',
+      validThrough: '2024-06-30',
+      skills: ['Node.js', 'MongoDB', 'Kubernetes']
+    });
+  });
+
+  it('finds postings inside @graph containers and arrays, skipping invalid scripts', () => {
+    const page = jsonLdPage(
+      '{ not json',
+      { '@context': 'https://schema.org', '@graph': [{ '@type': 'WebPage', name: 'Careers' }, { ...JOB_POSTING, '@type': ['JobPosting'] }] }
+    );
+
+    expect(extractJobPostingSchema(page)).toMatchObject({ title: 'Backend Engineer', company: 'Acme' });
+    expect(extractJobPostingSchema(jsonLdPage([{ '@type': 'Organization', name: 'Acme' }, JOB_POSTING])))
+      .toMatchObject({ title: 'Backend Engineer' });
+  });
+
+  it('formats remote postings and plain salaries', () => {
+    const posting = {
+      ...JOB_POSTING,
+      jobLocation: undefined,
+      jobLocationType: 'TELECOMMUTE',
+      applicantLocationRequirements: { '@type': 'Country', name: 'India' },
+      baseSalary: { '@type': 'MonetaryAmount', currency: 'USD', value: 5000, unitText: 'MONTH' }
+    };
+
+    expect(extractJobPostingSchema(jsonLdPage(posting))).toMatchObject({
+      location: 'Remote (India)',
+      salary: '5000 USD per MONTH'
+    });
+  });
+
+  it('decodes double-encoded descriptions', () => {
+    const posting = { ...JOB_POSTING, description: `&lt;p&gt;${RESPONSIBILITIES}&lt;/p&gt;&lt;p&gt;Apply today&lt;/p&gt;` };
+
+    expect(extractJobPostingSchema(jsonLdPage(posting))?.description).toBe(`${RESPONSIBILITIES}\nApply today`);
+  });
+
+  it('reads a microdata JobPosting without taking nested item names as its own', () => {
+    expect(extractJobPostingSchema(MICRODATA_PAGE)).toEqual({
+      title: 'Data Analyst',
+      company: 'Globex',
+      description: `${RESPONSIBILITIES}\nSQL and Python`,
+      location: 'Austin, TX',
+      salary: '90000 USD per YEAR',
+      jobType: 'Full-time',
+      postedDate: '2024-04-15',
+      skills: ['SQL', 'Python']
+    });
+  });
+
+  it('returns null for pages without a JobPosting', () => {
+    expect(extractJobPostingSchema(jsonLdPage({ '@type': 'Organization', name: 'Acme' }))).toBeNull();
+    expect(extractJobPostingSchema('')).toBeNull();
+  });
+});
+
+describe('parseSchemaJobPostingHTML', () => {
+  it('returns postings with the required fields', async () => {
+    await expect(parseSchemaJobPostingHTML(jsonLdPage(JOB_POSTING))).resolves.toMatchObject({ title: 'Backend Engineer', company: 'Acme' });
+  });
+
+  it('rejects pages without a posting or with a short description', async () => {
+    await expect(parseSchemaJobPostingHTML('<html><body>Jobs</body></html>'))
+      .rejects.toThrow('no schema.org JobPosting data found on the page');
+    await expect(parseSchemaJobPostingHTML(jsonLdPage({ ...JOB_POSTING, description: 'Join us!' })))
+      .rejects.toThrow('Could not extract sufficient job description');
+  });
+});
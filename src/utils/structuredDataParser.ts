@@ -0,0 +1,334 @@
+import { load } from 'cheerio';
+import { logger } from './logger';
+import { ParsedJobData } from '../types/types';
+
+type CheerioAPI = ReturnType<typeof load>;
+
+/** A JSON-LD object; property values are checked where they are read */
+type JsonLdNode = Record<string, unknown>;
+
+/**
+ * Site-agnostic extractor for schema.org JobPosting data
+ * Reads JSON-LD blocks first and falls back to microdata markup
+ *
+ * @param html Raw HTML content of any page
+ * @returns Extracted job data or null if the page has no JobPosting
+ */
+export function extractJobPostingSchema(html: string): ParsedJobData | null {
+  if (!html || html.trim().length === 0) {
+    return null;
+  }
+
+  const $ = load(html);
+
+  return extractFromJsonLd($) || extractFromMicrodata($);
+}
+
+/**
+ * Parser for arbitrary career pages that publish schema.org JobPosting data
+ *
+ * @param html Raw HTML content from the job posting page
+ * @returns Structured job data
+ * @throws Error if the page has no JobPosting or it lacks the required fields
+ */
+export async function parseSchemaJobPostingHTML(html: string): Promise<ParsedJobData> {
+  logger.info('Parsing schema.org JobPosting data');
+
+  const data = extractJobPostingSchema(html);
+
+  if (!data) {
+    throw new Error('Failed to parse job details: no schema.org JobPosting data found on the page');
+  }
+
+  if (!data.title || data.title.length < 3) {
+    throw new Error('Failed to parse job details: Could not extract valid job title');
+  }
+
+  if (!data.company || data.company.length < 2) {
+    throw new Error('Failed to parse job details: Could not extract valid company name');
+  }
+
+  if (!data.description || data.description.length < 100) {
+    throw new Error('Failed to parse job details: Could not extract sufficient job description');
+  }
+
+  logger.info(`Parsed schema.org job data: ${data.title} at ${data.company}`);
+  return data;
+}
+
+/**
+ * Find the first JobPosting node across all JSON-LD scripts,
+ * including arrays and @graph containers
+ */
+function extractFromJsonLd($: CheerioAPI): ParsedJobData | null {
+  const scripts = $('script[type="application/ld+json"]').toArray();
+
+  for (const script of scripts) {
+    try {
+      const json = JSON.parse($(script).contents().text());
+      const posting = findJobPostingNode(json);
+
+      if (posting) {
+        return mapJobPosting(posting);
+      }
+    } catch (jsonError) {
+      logger.warn('Failed to parse JSON-LD structured data');
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Walk a JSON-LD document looking for a node typed as JobPosting
+ */
+function findJobPostingNode(node: unknown): JsonLdNode | null {
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      const found = findJobPostingNode(item);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  if (!isJsonLdNode(node)) {
+    return null;
+  }
+
+  const type = node['@type'];
+  if (type === 'JobPosting' || (Array.isArray(type) && type.includes('JobPosting'))) {
+    return node;
+  }
+
+  if (node['@graph']) {
+    return findJobPostingNode(node['@graph']);
+  }
+
+  return null;
+}
+
+/**
+ * Map a JSON-LD JobPosting node onto the parser output shape
+ */
+function mapJobPosting(posting: JsonLdNode): ParsedJobData {
+  const result: ParsedJobData = {
+    title: textValue(posting.title) || textValue(posting.name),
+    company: organizationName(posting.hiringOrganization),
+    description: htmlToText(textValue(posting.description))
+  };
+
+  const location = formatLocation(posting.jobLocation, posting.jobLocationType, posting.applicantLocationRequirements);
+  const salary = formatSalary(posting.baseSalary || posting.estimatedSalary);
+  const jobType = listValue(posting.employmentType).join(', ');
+  const skills = [
+    ...listValue(posting.skills),
+    ...listValue(posting.qualifications).filter(item => item.length < 60)
+  ].flatMap(item => item.split(/\s*,\s*/)).filter(item => item);
+
+  if (location) result.location = location;
+  if (salary) result.salary = salary;
+  if (jobType) result.jobType = jobType;
+  if (posting.datePosted) result.postedDate = textValue(posting.datePosted);
+  if (posting.validThrough) result.validThrough = textValue(posting.validThrough);
+  if (skills.length > 0) result.skills = [...new Set(skills)];
+
+  return result;
+}
+
+/**
+ * Read a JobPosting declared with microdata (itemscope/itemtype/itemprop)
+ */
+function extractFromMicrodata($: CheerioAPI): ParsedJobData | null {
+  const root = $('[itemscope][itemtype*="schema.org/JobPosting"]').first();
+
+  if (!root.length) {
+    return null;
+  }
+
+  // Only properties that belong to this item, not to nested items such as the hiring organization
+  const prop = (name: string) => root
+    .find(`[itemprop="${name}"]`)
+    .filter((_, el) => $(el).parent().closest('[itemscope]').is(root))
+    .first();
+
+  const nestedValue = (name: string, nestedProp: string): string => {
+    const element = prop(name);
+    if (!element.length) return '';
+
+    if (element.is('[itemscope]')) {
+      return microdataValue($, element.find(`[itemprop="${nestedProp}"]`).first());
+    }
+
+    return microdataValue($, element);
+  };
+
+  const descriptionElement = prop('description');
+  const result: ParsedJobData = {
+    title: microdataValue($, prop('title')),
+    company: nestedValue('hiringOrganization', 'name'),
+    description: descriptionElement.length ? htmlToText(descriptionElement.html() || '') : ''
+  };
+
+  const locationElement = prop('jobLocation');
+  const location = locationElement.length
+    ? (locationElement.is('[itemscope]')
+      ? ['addressLocality', 'addressRegion', 'addressCountry']
+        .map(name => microdataValue($, locationElement.find(`[itemprop="${name}"]`).first()))
+        .filter(part => part)
+        .join(', ')
+      : microdataValue($, locationElement))
+    : '';
+
+  const salaryElement = prop('baseSalary');
+  const salary = salaryElement.length
+    ? (salaryElement.is('[itemscope]')
+      ? formatSalaryParts(
+        microdataValue($, salaryElement.find('[itemprop="minValue"]').first()) || microdataValue($, salaryElement.find('[itemprop="value"]').first()),
+        microdataValue($, salaryElement.find('[itemprop="maxValue"]').first()),
+        microdataValue($, salaryElement.find('[itemprop="currency"]').first()),
+        microdataValue($, salaryElement.find('[itemprop="unitText"]').first())
+      )
+      : microdataValue($, salaryElement))
+    : '';
+
+  const jobType = root.find('[itemprop="employmentType"]')
+    .map((_, el) => microdataValue($, $(el)))
+    .get()
+    .join(', ');
+  const skills = microdataValue($, prop('skills'))
+    .split(/\s*,\s*/)
+    .filter(skill => skill);
+
+  if (location) result.location = location;
+  if (salary) result.salary = salary;
+  if (jobType) result.jobType = jobType;
+  if (prop('datePosted').length) result.postedDate = microdataValue($, prop('datePosted'));
+  if (prop('validThrough').length) result.validThrough = microdataValue($, prop('validThrough'));
+  if (skills.length > 0) result.skills = skills;
+
+  return result;
+}
+
+/**
+ * Read the value of a microdata property element
+ */
+function microdataValue($: CheerioAPI, element: ReturnType<CheerioAPI>): string {
+  if (!element.length) {
+    return '';
+  }
+
+  const value = element.attr('content')
+    || element.attr('datetime')
+    || element.attr('value')
+    || (element.is('a, link') ? element.attr('href') : undefined)
+    || $(element).text();
+
+  return (value || '').replace(/\s+/g, ' ').trim();
+}
+
+function isJsonLdNode(value: unknown): value is JsonLdNode {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function textValue(value: unknown): string {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) return value.map(textValue).filter(item => item).join(', ');
+  if (isJsonLdNode(value)) return textValue(value.name || value['@value'] || '');
+  return '';
+}
+
+function listValue(value: unknown): string[] {
+  if (!value) return [];
+  return toArray(value).map(textValue).filter(item => item);
+}
+
+function organizationName(organization: unknown): string {
+  if (Array.isArray(organization)) return organizationName(organization[0]);
+  if (typeof organization === 'string') return organization.trim();
+  return isJsonLdNode(organization) ? textValue(organization.name || organization.legalName) : '';
+}
+
+/**
+ * Format jobLocation (a Place, a list of Places or plain text) as "City, Region, Country"
+ */
+function formatLocation(jobLocation: unknown, jobLocationType: unknown, applicantLocationRequirements: unknown): string {
+  const places = toArray(jobLocation)
+    .map(place => {
+      if (typeof place === 'string') return place.trim();
+      if (!isJsonLdNode(place)) return '';
+
+      const address = place.address;
+      if (!address) return textValue(place.name);
+      if (typeof address === 'string') return address.trim();
+      if (!isJsonLdNode(address)) return '';
+
+      return [textValue(address.addressLocality), textValue(address.addressRegion), textValue(address.addressCountry)]
+        .filter(part => part)
+        .join(', ');
+    })
+    .filter(place => place);
+
+  const isRemote = textValue(jobLocationType).toUpperCase().includes('TELECOMMUTE');
+  if (isRemote) {
+    const region = textValue(applicantLocationRequirements);
+    places.push(region ? `Remote (${region})` : 'Remote');
+  }
+
+  return [...new Set(places)].join(' / ');
+}
+
+/**
+ * Format a MonetaryAmount baseSalary as "1200000-1800000 INR per YEAR"
+ */
+function formatSalary(baseSalary: unknown): string {
+  if (!baseSalary) return '';
+  if (typeof baseSalary === 'string' || typeof baseSalary === 'number') return String(baseSalary);
+  if (!isJsonLdNode(baseSalary)) return '';
+
+  const value = baseSalary.value;
+  if (isJsonLdNode(value)) {
+    return formatSalaryParts(
+      textValue(value.minValue ?? value.value),
+      textValue(value.maxValue),
+      textValue(baseSalary.currency || value.currency),
+      textValue(value.unitText || baseSalary.unitText)
+    );
+  }
+
+  return formatSalaryParts(textValue(value), '', textValue(baseSalary.currency), textValue(baseSalary.unitText));
+}
+
+function formatSalaryParts(min: string, max: string, currency: string, unit: string): string {
+  if (!min && !max) return '';
+
+  const range = min && max && min !== max ? `${min}-${max}` : (min || max);
+  return [range, currency, unit ? `per ${unit}` : ''].filter(part => part).join(' ');
+}
+
+/**
+ * Convert an HTML fragment (JSON-LD descriptions are usually HTML) to plain text with line breaks
+ */
+function htmlToText(html: string): string {
+  if (!html) return '';
+
+  // Some sites double-encode the markup, e.g. "&lt;p&gt;"
+  if (/&lt;\/?[a-z]/i.test(html)) {
+    html = load(`<div>${html}</div>`)('div').first().text();
+  }
+
+  const withBreaks = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/(p|div|li|ul|ol|h[1-6])>/gi, '\n');
+
+  return load(`<div>${withBreaks}</div>`)('div').first().text()
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line.length > 0)
+    .join('\n');
+}
@@ -0,0 +1,177 @@
+import { TemplateVariable, TemplateVariableType } from '../types/types';
+import {
+  MAX_TEMPLATE_VARIABLES,
+  getVariableDefaults,
+  parsePlaceholders,
+  renderTemplate,
+  validateTemplate,
+  validateVariableValue
+} from './templateEngine';
+
+describe('parsePlaceholders', () => {
+  it('finds placeholders with their positions', () => {
+    expect(parsePlaceholders('Hi {recipientName}, about {jobTitle}')).toEqual({
+      placeholders: [
+        { name: 'recipientName', start: 3, end: 18 },
+        { name: 'jobTitle', start: 26, end: 36 }
+      ],
+      malformed: []
+    });
+  });
+
+  it('treats doubled braces as literal text', () => {
+    expect(parsePlaceholders('{{not a placeholder}} {{jobTitle}}')).toEqual({ placeholders: [], malformed: [] });
+  });
+
+  it('reports malformed placeholders and unmatched braces', () => {
+    const { placeholders, malformed } = parsePlaceholders('{1st} {job title} {} { oops } }');
+
+    expect(placeholders).toEqual([]);
+    expect(malformed).toEqual(['{1st}', '{job title}', '{}', '{ oops }', '}']);
+  });
+
+  it('does not let a placeholder span lines', () => {
+    expect(parsePlaceholders('{job\nTitle}').malformed).toEqual(['{', '}']);
+  });
+});
+
+describe('validateTemplate', () => {
+  it('accepts built-in and declared placeholders', () => {
+    const variables: TemplateVariable[] = [{ name: 'teamName', type: 'string' }];
+
+    expect(validateTemplate('Hi {recipientName}, I would love to join {teamName} at {companyName}. {{literal}}', variables)).toEqual([]);
+  });
+
+  it('reports unknown placeholders once', () => {
+    const errors = validateTemplate('{teamName} and {teamName}');
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^Unknown placeholder \{teamName\}/);
+  });
+
+  it('explains unmatched braces and malformed placeholders', () => {
+    expect(validateTemplate('Hi {recipientName')).toEqual(['Unmatched "{". Write "{{" for a literal brace']);
+    expect(validateTemplate('Hi {recipient-name}')[0]).toMatch(/^Malformed placeholder \{recipient-name\}/);
+  });
+
+  it('rejects invalid, duplicate and built-in variable declarations', () => {
+    const errors = validateTemplate('', [
+      { name: '2fast', type: 'string' },
+      { name: 'jobTitle', type: 'string' },
+      { name: 'teamName', type: 'string' },
+      { name: 'teamName', type: 'string' }
+    ]);
+
+    expect(errors).toEqual([
+      'Invalid variable name "2fast"',
+      'Variable {jobTitle} is built in and cannot be redeclared',
+      'Variable {teamName} is declared more than once'
+    ]);
+  });
+
+  it('rejects unknown types and defaults that do not match the type', () => {
+    const errors = validateTemplate('', [
+      { name: 'when', type: 'date' as TemplateVariableType },
+      { name: 'years', type: 'number', defaultValue: 'five' },
+      { name: 'portfolio', type: 'url', defaultValue: 'javascript:alert(1)' },
+      { name: 'optional', type: 'number', defaultValue: '' }
+    ]);
+
+    expect(errors).toEqual([
+      'Variable {when} has unknown type "date". Use one of: string, number, url, list',
+      'Default value of {years} must be a number',
+      'Default value of {portfolio} must be an http(s) URL'
+    ]);
+  });
+
+  it('limits the number of declared variables', () => {
+    const variables = Array.from({ length: MAX_TEMPLATE_VARIABLES + 1 }, (_, index): TemplateVariable => ({
+      name: `var${index}`,
+      type: 'string'
+    }));
+
+    expect(validateTemplate('', variables)).toEqual([`A template can declare at most ${MAX_TEMPLATE_VARIABLES} variables`]);
+  });
+});
+
+describe('validateVariableValue', () => {
+  it.each([
+    ['number', '42', null],
+    ['number', ' -3.5 ', null],
+    ['number', '1e3', 'must be a number'],
+    ['number', '', 'must be a number'],
+    ['url', 'https://example.com/me', null],
+    ['url', 'ftp://example.com', 'must be an http(s) URL'],
+    ['url', 'example.com', 'must be an http(s) URL'],
+    ['string', 'anything', null],
+    ['list', 'a, b', null]
+  ] as [TemplateVariableType, string, string | null][])('checks a %s value of "%s"', (type, value, expected) => {
+    expect(validateVariableValue(type, value)).toBe(expected);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('substitutes values and formats lists', () => {
+    const { text, unresolved } = renderTemplate('{jobTitle} at {companyName}: {skills} ({years} years)', {
+      jobTitle: 'Backend Engineer',
+      companyName: 'Acme',
+      skills: ['Node.js', 'MongoDB'],
+      years: 5
+    });
+
+    expect(text).toBe('Backend Engineer at Acme: Node.js, MongoDB (5 years)');
+    expect(unresolved).toEqual([]);
+  });
+
+  it('keeps placeholders without a value and reports them', () => {
+    const { text, unresolved } = renderTemplate('Hi {recipientName}, {skills} {recipientName}', {
+      recipientName: '',
+      skills: []
+    });
+
+    expect(text).toBe('Hi {recipientName}, {skills} {recipientName}');
+    expect(unresolved).toEqual(['recipientName', 'skills']);
+  });
+
+  it('uses built-in fallbacks when asked', () => {
+    const { text, unresolved } = renderTemplate(
+      'Hi {recipientName}, {jobUrl} {location}\n{highlights}\n{candidateName} {teamName}',
+      {},
+      true
+    );
+
+    expect(text).toBe('Hi [RECIPIENT], [JOB POST LINK] \n- [YOUR KEY ACHIEVEMENT]\n[YOUR NAME] {teamName}');
+    expect(unresolved).toEqual(['teamName']);
+  });
+
+  it('renders doubled braces as single braces and leaves malformed text alone', () => {
+    const { text, unresolved } = renderTemplate('{{jobTitle}} {jobTitle} {job title} }', { jobTitle: 'Engineer' });
+
+    expect(text).toBe('{jobTitle} Engineer {job title} }');
+    expect(unresolved).toEqual([]);
+  });
+
+  it('does not substitute placeholders that appear inside values', () => {
+    const { text } = renderTemplate('{jobTitle}', { jobTitle: 'Engineer {companyName}', companyName: 'Acme' });
+
+    expect(text).toBe('Engineer {companyName}');
+  });
+});
+
+describe('getVariableDefaults', () => {
+  it('collects defaults and splits list defaults on commas', () => {
+    expect(getVariableDefaults([
+      { name: 'teamName', type: 'string', defaultValue: 'Platform' },
+      { name: 'tools', type: 'list', defaultValue: 'Docker, , Kubernetes ' },
+      { name: 'years', type: 'number' },
+      { name: 'portfolio', type: 'url', defaultValue: '' }
+    ])).toEqual({
+      teamName: 'Platform',
+      tools: ['Docker', 'Kubernetes']
+    });
+  });
+
+  it('handles templates without variables', () => {
+    expect(getVariableDefaults()).toEqual({});
+  });
+});
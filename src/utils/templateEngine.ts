@@ -0,0 +1,234 @@
+import { TemplateVariable, TemplateVariableType } from '../types/types';
+
+/**
+ * Where the value of a built-in variable comes from:
+ * - job: the job posting
+ * - llm: written by the model while generating the message
+ * - user: the candidate profile or recipient, left as a bracketed placeholder when unknown
+ */
+export type BuiltInVariableSource = 'job' | 'llm' | 'user';
+
+export interface BuiltInTemplateVariable extends TemplateVariable {
+  source: BuiltInVariableSource;
+  /** Text used when no value is known, e.g. "[RECIPIENT]" */
+  fallback?: string;
+}
+
+export interface TemplatePlaceholder {
+  name: string;
+  start: number;
+  end: number;
+}
+
+export type TemplateValues = Record<string, string | number | string[] | undefined>;
+
+export const BUILT_IN_VARIABLES: BuiltInTemplateVariable[] = [
+  { name: 'jobTitle', type: 'string', source: 'job', description: 'Title of the job posting' },
+  { name: 'companyName', type: 'string', source: 'job', description: 'Hiring company' },
+  { name: 'location', type: 'string', source: 'job', description: 'Job location', fallback: '' },
+  { name: 'jobUrl', type: 'url', source: 'job', description: 'Link to the job posting', fallback: '[JOB POST LINK]' },
+  { name: 'skills', type: 'list', source: 'llm', description: 'Most relevant skills for the job' },
+  { name: 'recipientName', type: 'string', source: 'user', description: 'Person asked for the referral', fallback: '[RECIPIENT]' },
+  { name: 'candidateName', type: 'string', source: 'user', description: 'Your name, from your candidate profile', fallback: '[YOUR NAME]' },
+  {
+    name: 'highlights',
+    type: 'string',
+    source: 'user',
+    description: 'Bullet list of your projects most relevant to the job, from your candidate profile',
+    fallback: '- [YOUR KEY ACHIEVEMENT]'
+  }
+];
+
+export const MAX_TEMPLATE_VARIABLES = 20;
+
+const VARIABLE_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]{0,39}$/;
+const VARIABLE_TYPES: TemplateVariableType[] = ['string', 'number', 'url', 'list'];
+
+// Doubled braces are literal text: "{{" renders as "{"
+const TOKEN_PATTERN = /\{\{|\}\}|\{([^{}\n]*)\}|[{}]/g;
+
+/**
+ * Find the placeholders in a template
+ * @returns Valid placeholders and malformed brace sequences
+ */
+export function parsePlaceholders(content: string): { placeholders: TemplatePlaceholder[]; malformed: string[] } {
+  const placeholders: TemplatePlaceholder[] = [];
+  const malformed: string[] = [];
+
+  for (const match of content.matchAll(TOKEN_PATTERN)) {
+    const token = match[0];
+    if (token === '{{' || token === '}}') continue;
+
+    const name = match[1];
+    if (name !== undefined && VARIABLE_NAME_PATTERN.test(name)) {
+      placeholders.push({ name, start: match.index!, end: match.index! + token.length });
+    } else {
+      malformed.push(token);
+    }
+  }
+
+  return { placeholders, malformed };
+}
+
+/**
+ * Get the built-in variable with the given name
+ */
+export function getBuiltInVariable(name: string): BuiltInTemplateVariable | undefined {
+  return BUILT_IN_VARIABLES.find(variable => variable.name === name);
+}
+
+/**
+ * Validate a template's content against its declared custom variables
+ * @returns Human readable problems; empty when the template is valid
+ */
+export function validateTemplate(content: string, variables: TemplateVariable[] = []): string[] {
+  const errors: string[] = [...validateVariableDeclarations(variables)];
+  const { placeholders, malformed } = parsePlaceholders(content);
+
+  for (const token of new Set(malformed)) {
+    errors.push(token.length === 1
+      ? `Unmatched "${token}". Write "${token}${token}" for a literal brace`
+      : `Malformed placeholder ${token}. Placeholder names must start with a letter and contain only letters, digits and underscores`);
+  }
+
+  const declared = new Set(variables.map(variable => variable.name));
+  const unknown = new Set(
+    placeholders
+      .map(placeholder => placeholder.name)
+      .filter(name => !getBuiltInVariable(name) && !declared.has(name))
+  );
+
+  for (const name of unknown) {
+    errors.push(`Unknown placeholder {${name}}. Declare it as a template variable or use one of: ${BUILT_IN_VARIABLES.map(variable => variable.name).join(', ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Validate custom variable declarations
+ */
+function validateVariableDeclarations(variables: TemplateVariable[]): string[] {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  if (variables.length > MAX_TEMPLATE_VARIABLES) {
+    errors.push(`A template can declare at most ${MAX_TEMPLATE_VARIABLES} variables`);
+  }
+
+  for (const variable of variables) {
+    if (!VARIABLE_NAME_PATTERN.test(variable.name)) {
+      errors.push(`Invalid variable name "${variable.name}"`);
+      continue;
+    }
+
+    if (getBuiltInVariable(variable.name)) {
+      errors.push(`Variable {${variable.name}} is built in and cannot be redeclared`);
+    }
+
+    if (seen.has(variable.name)) {
+      errors.push(`Variable {${variable.name}} is declared more than once`);
+    }
+    seen.add(variable.name);
+
+    if (!VARIABLE_TYPES.includes(variable.type)) {
+      errors.push(`Variable {${variable.name}} has unknown type "${variable.type}". Use one of: ${VARIABLE_TYPES.join(', ')}`);
+      continue;
+    }
+
+    if (variable.defaultValue !== undefined && variable.defaultValue !== '') {
+      const valueError = validateVariableValue(variable.type, variable.defaultValue);
+      if (valueError) {
+        errors.push(`Default value of {${variable.name}} ${valueError}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check a value against a variable type
+ * @returns A description of the problem, or null if the value is valid
+ */
+export function validateVariableValue(type: TemplateVariableType, value: string): string | null {
+  if (type === 'number' && !/^-?\d+(\.\d+)?$/.test(value.trim())) {
+    return 'must be a number';
+  }
+
+  if (type === 'url') {
+    try {
+      const url = new URL(value.trim());
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return 'must be an http(s) URL';
+      }
+    } catch (_error) {
+      return 'must be an http(s) URL';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Format a value for insertion into a message
+ */
+function formatValue(value: string | number | string[]): string {
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+/**
+ * Substitute known values into a template
+ * Placeholders without a value are kept as-is, or replaced by their fallback when useFallbacks is set
+ *
+ * @param content Template content
+ * @param values Values by variable name
+ * @param useFallbacks Replace unresolved built-in placeholders with their fallback text (e.g. "[RECIPIENT]")
+ * @returns The rendered text and the names of placeholders that were left unresolved
+ */
+export function renderTemplate(
+  content: string,
+  values: TemplateValues,
+  useFallbacks = false
+): { text: string; unresolved: string[] } {
+  const unresolved = new Set<string>();
+
+  const text = content.replace(TOKEN_PATTERN, (token: string, name?: string) => {
+    if (token === '{{') return '{';
+    if (token === '}}') return '}';
+    if (name === undefined || !VARIABLE_NAME_PATTERN.test(name)) return token;
+
+    const value = values[name];
+    if (value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0)) {
+      return formatValue(value);
+    }
+
+    const fallback = getBuiltInVariable(name)?.fallback;
+    if (useFallbacks && fallback !== undefined) {
+      return fallback;
+    }
+
+    unresolved.add(name);
+    // Keep the placeholder so a later pass (or the model) can fill it
+    return token;
+  });
+
+  return { text, unresolved: [...unresolved] };
+}
+
+/**
+ * Collect the default values declared for custom variables
+ */
+export function getVariableDefaults(variables: TemplateVariable[] = []): TemplateValues {
+  const values: TemplateValues = {};
+
+  for (const variable of variables) {
+    if (variable.defaultValue) {
+      values[variable.name] = variable.type === 'list'
+        ? variable.defaultValue.split(',').map(item => item.trim()).filter(item => item)
+        : variable.defaultValue;
+    }
+  }
+
+  return values;
+}
@@ -0,0 +1,56 @@
+import { canonicalizeJobUrl } from './urlNormalizer';
+
+describe('canonicalizeJobUrl', () => {
+  it('lowercases the host and drops "www.", the fragment and trailing slashes', () => {
+    expect(canonicalizeJobUrl('  https://WWW.LinkedIn.com/jobs/view/123/#top ')).toBe('https://linkedin.com/jobs/view/123');
+    expect(canonicalizeJobUrl('https://example.com/')).toBe('https://example.com');
+  });
+
+  it('keeps the path case', () => {
+    expect(canonicalizeJobUrl('https://example.com/Jobs/Backend')).toBe('https://example.com/Jobs/Backend');
+  });
+
+  it('drops tracking parameters but keeps the ones naming the job', () => {
+    expect(canonicalizeJobUrl('https://www.linkedin.com/jobs/view/123/?trk=public_jobs&refId=abc&trackingId=xyz'))
+      .toBe('https://linkedin.com/jobs/view/123');
+    expect(canonicalizeJobUrl('https://boards.greenhouse.io/acme/jobs/42?gh_jid=42&gh_src=abc&utm_source=linkedin'))
+      .toBe('https://boards.greenhouse.io/acme/jobs/42?gh_jid=42');
+    expect(canonicalizeJobUrl('https://jobs.lever.co/acme/1?lever-source=LinkedIn&UTM_Campaign=spring&gclid=123'))
+      .toBe('https://jobs.lever.co/acme/1');
+  });
+
+  it('sorts the remaining parameters', () => {
+    expect(canonicalizeJobUrl('https://example.com/jobs?team=eng&id=7')).toBe('https://example.com/jobs?id=7&team=eng');
+    expect(canonicalizeJobUrl('https://example.com/jobs?id=7&team=eng')).toBe('https://example.com/jobs?id=7&team=eng');
+  });
+
+  it('keeps the order of repeated parameters', () => {
+    expect(canonicalizeJobUrl('https://example.com/jobs?tag=b&id=1&tag=a')).toBe('https://example.com/jobs?id=1&tag=b&tag=a');
+  });
+
+  it('drops default ports and keeps others', () => {
+    expect(canonicalizeJobUrl('http://example.com:80/jobs')).toBe('http://example.com/jobs');
+    expect(canonicalizeJobUrl('https://example.com:443/jobs')).toBe('https://example.com/jobs');
+    expect(canonicalizeJobUrl('https://example.com:8443/jobs/')).toBe('https://example.com:8443/jobs');
+  });
+
+  it('keeps the protocol', () => {
+    expect(canonicalizeJobUrl('http://example.com/jobs')).not.toBe(canonicalizeJobUrl('https://example.com/jobs'));
+  });
+
+  it('maps links to the same posting onto one URL', () => {
+    const variants = [
+      'https://www.example.com/jobs/1?utm_source=twitter',
+      'https://EXAMPLE.com/jobs/1/',
+      'https://example.com/jobs/1#apply',
+      'https://example.com:443/jobs/1?ref=newsletter'
+    ];
+
+    expect(new Set(variants.map(canonicalizeJobUrl))).toEqual(new Set(['https://example.com/jobs/1']));
+  });
+
+  it('returns the trimmed input for invalid or non-http(s) URLs', () => {
+    expect(canonicalizeJobUrl(' not a url ')).toBe('not a url');
+    expect(canonicalizeJobUrl('ftp://example.com/jobs/')).toBe('ftp://example.com/jobs/');
+  });
+});
@@ -0,0 +1,47 @@
+// Query parameters that only record how the visitor arrived; parameters naming the job, like gh_jid, are kept
+const TRACKING_PARAMS = new Set([
+  'gclid', 'gbraid', 'wbraid', 'fbclid', 'msclkid', 'dclid', 'yclid', 'twclid', 'li_fat_id', 'igshid',
+  'mc_cid', 'mc_eid', '_hsenc', '_hsmi', 'ref', 'refid', 'ref_src', 'referrer', 'source', 'src',
+  'trk', 'trkinfo', 'trackingid', 'tracking_id', 'gh_src', 'lever-source', 'lever-origin', 'lever-source[]',
+  'ebp', 'eba', 'lipi', 'si', 'original_referer'
+]);
+
+const TRACKING_PARAM_PREFIXES = ['utm_', 'pk_', 'mtm_', 'hsa_'];
+
+function isTrackingParam(name: string): boolean {
+  const key = name.toLowerCase();
+  return TRACKING_PARAMS.has(key) || TRACKING_PARAM_PREFIXES.some(prefix => key.startsWith(prefix));
+}
+
+/**
+ * Reduce a job URL to a canonical form for cache keys and job IDs, so links to the same posting share results
+ * Lowercases the host, drops "www.", default ports, the fragment, tracking parameters and trailing slashes,
+ * and sorts the remaining query parameters. The canonical URL is not fetched; some sites only answer on "www."
+ *
+ * @returns The canonical URL, or the trimmed input if it is not a valid http(s) URL
+ */
+export function canonicalizeJobUrl(url: string): string {
+  const trimmed = url.trim();
+
+  let parsed: URL;
+  try {
+    parsed = new URL(trimmed);
+  } catch (_error) {
+    return trimmed;
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return trimmed;
+  }
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+  const port = parsed.port ? `:${parsed.port}` : '';
+  const path = parsed.pathname.replace(/\/+$/, '');
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+
+  return `${parsed.protocol}//${host}${port}${path}${query}`;
+}
@@ -1,5 +1,6 @@
 import { PlaywrightCrawler } from 'crawlee';
 import { logger } from '../utils/logger';
+import { assertPublicUrl, guardPageRequests } from './networkGuard';
 
 /**
  * Validates if a URL is accessible
@@ -11,6 +12,13 @@ import { logger } from '../utils/logger';
 export async function validateUrlAccessibility(url: string): Promise<boolean> {
   logger.info(`Validating URL accessibility: ${url}`);
   
+  try {
+    await assertPublicUrl(url);
+  } catch (error) {
+    logger.warn(`Refusing to validate ${url}: ${error instanceof Error ? error.message : String(error)}`);
+    return false;
+  }
+  
   const crawler = new PlaywrightCrawler({
     headless: true,
     maxRequestsPerCrawl: 1,
@@ -37,6 +45,7 @@ export async function validateUrlAccessibility(url: string): Promise<boolean> {
     preNavigationHooks: [
       async (crawlingContext, gotoOptions) => {
         const { request } = crawlingContext;
+        await guardPageRequests(crawlingContext.page);
         try {
           const response = await crawlingContext.page.goto(request.url, gotoOptions);
           request.userData.statusCode = response?.status() || 200;
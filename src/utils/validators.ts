@@ -1,5 +1,17 @@
 import { Request, Response, NextFunction } from 'express';
-import { ApiError } from './errorHandler';
+import { ApiError, BlockedUrlError } from './errorHandler';
+import { assertPublicUrl } from './networkGuard';
+import { findAdapterForUrl, getSupportedSites } from '../adapters/adapterRegistry';
+import { MAX_MESSAGE_VARIANTS } from '../services/aiService';
+import { MAX_BATCH_ITEMS } from '../services/referralBatchService';
+
+const MESSAGE_TONES = ['formal', 'friendly', 'concise'];
+const MESSAGE_LENGTHS = ['short', 'medium', 'long'];
+const MESSAGE_CHANNELS = ['email', 'linkedin_note', 'inmail', 'short_dm'];
+const MAX_INSTRUCTION_LENGTH = 500;
+const MAX_MESSAGE_LENGTH = 5000;
+const APPLICATION_STATUSES = ['applied', 'interviewing', 'offer', 'hired', 'rejected'];
+const MAX_FOLLOW_UP_DAYS = 365;
 
 /**
  * Validates job URL request
@@ -19,16 +31,24 @@ export function validateJobUrlRequest(req: Request, _res: Response, next: NextFu
     return next(new ApiError(400, 'Invalid URL format'));
   }
   
-  if (!isHireJobsUrl(jobUrl)) {
-    return next(new ApiError(400, 'Only HireJobs.in URLs are supported'));
+  if (!isSupportedJobUrl(jobUrl)) {
+    return next(new ApiError(400, `Unsupported job board URL. Supported sites: ${getSupportedSites().join(', ')}`));
   }
   
   next();
 }
 
+/**
+ * Validates that the job URL's host resolves to public addresses
+ * Resolves the host, so it is only used after validateJobUrlRequest on routes that fetch the URL, not on polling routes
+ */
+export function validatePublicJobUrl(req: Request, _res: Response, next: NextFunction) {
+  checkPublicJobUrl(req.body.jobUrl, 'Job URL').then(() => next(), next);
+}
+
 /**
  * Validates job URL request for cache clearing
- * Allows both valid HireJobs URLs and the special 'all' value
+ * Allows both supported job URLs and the special 'all' value
  */
 export function validateClearCacheRequest(req: Request, _res: Response, next: NextFunction) {
   const { jobUrl } = req.body;
@@ -50,8 +70,8 @@ export function validateClearCacheRequest(req: Request, _res: Response, next: Ne
     return next(new ApiError(400, 'Invalid URL format'));
   }
   
-  if (!isHireJobsUrl(jobUrl)) {
-    return next(new ApiError(400, 'Only HireJobs.in URLs are supported'));
+  if (!isSupportedJobUrl(jobUrl)) {
+    return next(new ApiError(400, `Unsupported job board URL. Supported sites: ${getSupportedSites().join(', ')}`));
   }
   
   next();
@@ -70,23 +90,28 @@ export function isValidUrl(url: string): boolean {
 }
 
 /**
- * Checks if URL valid
+ * Resolves the URL's host and rejects it if it points at a private or reserved address
+ * @throws ApiError if the host is not public or cannot be resolved
  */
-export function isHireJobsUrl(url: string): boolean {
+async function checkPublicJobUrl(jobUrl: string, field: string): Promise<void> {
   try {
-    const { hostname, pathname } = new URL(url);
-    const isHireJobsDomain = hostname === 'hirejobs.in' || hostname === 'www.hirejobs.in';
-    const jobPathPattern = /^\/jobs\/[a-zA-Z0-9]+$/;
-    const hasValidJobPath = jobPathPattern.test(pathname);
-    
-    return isHireJobsDomain && hasValidJobPath;
-  } catch (_error) {
-    return false;
+    await assertPublicUrl(jobUrl);
+  } catch (error) {
+    throw new ApiError(400, error instanceof BlockedUrlError
+      ? `${field} must point to a public website`
+      : `${field} host could not be resolved`);
   }
 }
 
 /**
- * Performs a basic format check for Gemini API keys
+ * Checks if a registered job source adapter supports the URL
+ */
+export function isSupportedJobUrl(url: string): boolean {
+  return findAdapterForUrl(url) !== null;
+}
+
+/**
+ * Performs a basic format check for LLM provider API keys
  * This is a simple validation, not a comprehensive check
  */
 export function isValidApiKeyFormat(apiKey: string): boolean {
@@ -129,4 +154,140 @@ export function validateJobContentRequest(req: Request, _res: Response, next: Ne
   }
   
   next();
-}
\ No newline at end of file
+}
+
+/**
+ * Validates the optional message style fields of a generation request: channel, tone, length and variants
+ */
+export function validateMessageOptions(req: Request, _res: Response, next: NextFunction) {
+  const { channel, tone, length, variants } = req.body;
+
+  if (channel !== undefined && !MESSAGE_CHANNELS.includes(channel)) {
+    return next(new ApiError(400, `channel must be one of: ${MESSAGE_CHANNELS.join(', ')}`));
+  }
+
+  if (tone !== undefined && !MESSAGE_TONES.includes(tone)) {
+    return next(new ApiError(400, `tone must be one of: ${MESSAGE_TONES.join(', ')}`));
+  }
+
+  if (length !== undefined && !MESSAGE_LENGTHS.includes(length)) {
+    return next(new ApiError(400, `length must be one of: ${MESSAGE_LENGTHS.join(', ')}`));
+  }
+
+  if (variants !== undefined && (!Number.isInteger(variants) || variants < 1 || variants > MAX_MESSAGE_VARIANTS)) {
+    return next(new ApiError(400, `variants must be a whole number from 1 to ${MAX_MESSAGE_VARIANTS}`));
+  }
+
+  next();
+}
+
+/**
+ * Validates a match score request
+ * The job may be given either as a job URL or as raw job content
+ */
+export function validateMatchScoreRequest(req: Request, res: Response, next: NextFunction) {
+  if (req.body.jobUrl !== undefined) {
+    return validateJobUrlRequest(req, res, next);
+  }
+
+  if (req.body.jobContent === undefined) {
+    return next(new ApiError(400, 'Either jobUrl or jobContent is required'));
+  }
+
+  return validateJobContentRequest(req, res, next);
+}
+
+/**
+ * Validates a message refinement request: a required instruction and, optionally, the user's edited message and subject
+ */
+export function validateRefineRequest(req: Request, _res: Response, next: NextFunction) {
+  const { instruction, message, subject } = req.body;
+
+  if (typeof instruction !== 'string' || !instruction.trim()) {
+    return next(new ApiError(400, 'Instruction is required'));
+  }
+
+  if (instruction.length > MAX_INSTRUCTION_LENGTH) {
+    return next(new ApiError(400, `Instruction must be at most ${MAX_INSTRUCTION_LENGTH} characters`));
+  }
+
+  if (message !== undefined && (typeof message !== 'string' || !message.trim() || message.length > MAX_MESSAGE_LENGTH)) {
+    return next(new ApiError(400, `message must be a non-empty string of at most ${MAX_MESSAGE_LENGTH} characters`));
+  }
+
+  if (subject !== undefined && typeof subject !== 'string') {
+    return next(new ApiError(400, 'subject must be a string'));
+  }
+
+  next();
+}
+
+/**
+ * Validates the optional fields of a follow-up, thank-you or status update request: daysSinceSent and note
+ */
+export function validateFollowUpRequest(req: Request, _res: Response, next: NextFunction) {
+  const { daysSinceSent, note } = req.body;
+
+  if (daysSinceSent !== undefined && (!Number.isInteger(daysSinceSent) || daysSinceSent < 1 || daysSinceSent > MAX_FOLLOW_UP_DAYS)) {
+    return next(new ApiError(400, `daysSinceSent must be a whole number from 1 to ${MAX_FOLLOW_UP_DAYS}`));
+  }
+
+  if (note !== undefined && (typeof note !== 'string' || note.length > MAX_INSTRUCTION_LENGTH)) {
+    return next(new ApiError(400, `note must be a string of at most ${MAX_INSTRUCTION_LENGTH} characters`));
+  }
+
+  next();
+}
+
+/**
+ * Validates a status update request, which needs the application status
+ */
+export function validateStatusUpdateRequest(req: Request, res: Response, next: NextFunction) {
+  const { status } = req.body;
+
+  if (!APPLICATION_STATUSES.includes(status)) {
+    return next(new ApiError(400, `status must be one of: ${APPLICATION_STATUSES.join(', ')}`));
+  }
+
+  return validateFollowUpRequest(req, res, next);
+}
+
+/**
+ * Validates a batch generation request: jobUrls and/or jobContents, with at most MAX_BATCH_ITEMS items in total
+ */
+export function validateBatchRequest(req: Request, _res: Response, next: NextFunction) {
+  const { jobUrls = [], jobContents = [] } = req.body;
+
+  if (!Array.isArray(jobUrls) || !Array.isArray(jobContents)) {
+    return next(new ApiError(400, 'jobUrls and jobContents must be arrays'));
+  }
+
+  const total = jobUrls.length + jobContents.length;
+
+  if (total === 0) {
+    return next(new ApiError(400, 'Provide at least one job URL in jobUrls or job content in jobContents'));
+  }
+
+  if (total > MAX_BATCH_ITEMS) {
+    return next(new ApiError(400, `A batch can contain at most ${MAX_BATCH_ITEMS} jobs`));
+  }
+
+  for (const [index, jobUrl] of jobUrls.entries()) {
+    if (typeof jobUrl !== 'string' || !isValidUrl(jobUrl)) {
+      return next(new ApiError(400, `jobUrls[${index}] is not a valid URL`));
+    }
+
+    if (!isSupportedJobUrl(jobUrl)) {
+      return next(new ApiError(400, `jobUrls[${index}] is not from a supported job board. Supported sites: ${getSupportedSites().join(', ')}`));
+    }
+  }
+
+  for (const [index, jobContent] of jobContents.entries()) {
+    if (typeof jobContent !== 'string' || jobContent.trim().length < 50) {
+      return next(new ApiError(400, `jobContents[${index}] must be job details of at least 50 characters`));
+    }
+  }
+
+  Promise.all(jobUrls.map((jobUrl: string, index: number) => checkPublicJobUrl(jobUrl, `jobUrls[${index}]`)))
+    .then(() => next(), next);
+}